@@ -66,7 +66,9 @@ const sidebars = {
 				'robojs/modules',
 				'robojs/portal',
 				'robojs/files',
+				'robojs/sharding',
 				'robojs/state',
+				'robojs/testing',
 				'robojs/typescript'
 			]
 		},
@@ -0,0 +1,75 @@
+/**
+ * Manual mock for robo.js module used by @robojs/analytics tests.
+ *
+ * This file is resolved via jest.config.ts moduleNameMapper ("^robo\\.js$")
+ * and provides the surface the plugin depends on: an in-memory Flashcore,
+ * `Shards`, `color` helpers and a `logger` with `.fork()`.
+ */
+
+import { jest } from '@jest/globals'
+
+type Options = { namespace?: string | string[] }
+
+const store = new Map<string, unknown>()
+
+function composeKey(key: string, options?: Options) {
+	const namespace = Array.isArray(options?.namespace) ? options.namespace.join('/') : options?.namespace
+
+	return namespace ? `${namespace}__${key}` : key
+}
+
+export const Flashcore = {
+	clear: () => {
+		store.clear()
+	},
+	delete: jest.fn(async (key: string, options?: Options) => store.delete(composeKey(key, options))),
+	get: jest.fn(async <V>(key: string, options?: Options) => store.get(composeKey(key, options)) as V | undefined),
+	keys: jest.fn(async (options?: Options & { prefix?: string }) => {
+		const namespacePrefix = composeKey('', options)
+
+		return [...store.keys()]
+			.filter((key) => key.startsWith(namespacePrefix + (options?.prefix ?? '')))
+			.map((key) => key.slice(namespacePrefix.length))
+	}),
+	set: jest.fn(async (key: string, value: unknown, options?: Options) => {
+		const composed = composeKey(key, options)
+		store.set(composed, typeof value === 'function' ? await value(store.get(composed)) : value)
+
+		return true
+	}),
+	update: jest.fn(async <V>(key: string, updater: (value: V | undefined) => V | Promise<V>, options?: Options) => {
+		const composed = composeKey(key, options)
+		const value = await updater(store.get(composed) as V | undefined)
+		store.set(composed, value)
+
+		return value
+	})
+}
+
+// Tests switch shards with `Shards.ids.mockReturnValue([1])`
+export const Shards = {
+	count: jest.fn(() => 1),
+	ids: jest.fn(() => [0]),
+	isLeader: jest.fn(() => true)
+}
+
+const identity = (text: unknown) => String(text)
+
+export const color = new Proxy({} as Record<string, (text: unknown) => string>, { get: () => identity })
+
+export const composeColors = () => identity
+
+// Minimal logger stub that supports logger.fork('...').debug/info/warn/error
+const baseLogger = {
+	debug: jest.fn(),
+	error: jest.fn(),
+	info: jest.fn(),
+	warn: jest.fn()
+}
+
+export const logger = {
+	...baseLogger,
+	fork: jest.fn(() => ({ ...baseLogger }))
+}
+
+export default { Flashcore, Shards, color, composeColors, logger }
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { Flashcore, Shards } from 'robo.js'
+import { DeliveryQueue } from '../src/core/queue.js'
+
+const Namespace = { namespace: '@robojs/analytics' }
+
+function createSender(failures = 0) {
+	let remaining = failures
+
+	return jest.fn(async (_batch: number[]) => {
+		if (remaining-- > 0) {
+			throw new Error('Service unavailable')
+		}
+	})
+}
+
+function settle() {
+	return new Promise((resolve) => setTimeout(resolve, 10))
+}
+
+beforeEach(() => {
+	Flashcore.clear()
+})
+
+afterEach(() => {
+	jest.mocked(Shards.count).mockReturnValue(1)
+	jest.mocked(Shards.ids).mockReturnValue([0])
+	jest.mocked(Shards.isLeader).mockReturnValue(true)
+})
+
+describe('DeliveryQueue', () => {
+	test('sends early once a batch is full', async () => {
+		const send = createSender()
+		const queue = new DeliveryQueue('test', send, { flushInterval: 60_000, maxBatchSize: 3 })
+
+		queue.push(1)
+		queue.push(2)
+		expect(send).not.toHaveBeenCalled()
+
+		queue.push(3)
+		await settle()
+		expect(send.mock.calls).toEqual([[[1, 2, 3]]])
+
+		queue.push(4)
+		await queue.flush()
+		expect(send.mock.calls).toEqual([[[1, 2, 3]], [[4]]])
+	})
+
+	test('sends buffered events after the flush interval', async () => {
+		const send = createSender()
+		const queue = new DeliveryQueue('test', send, { flushInterval: 5 })
+
+		queue.push(1)
+		await settle()
+
+		expect(send.mock.calls).toEqual([[[1]]])
+	})
+
+	test('retries failed batches', async () => {
+		const send = createSender(2)
+		const queue = new DeliveryQueue('test', send, { retryDelay: 1 })
+
+		queue.push(1)
+		await queue.flush()
+
+		expect(send).toHaveBeenCalledTimes(3)
+		expect(await Flashcore.get('spool:test:0', Namespace)).toBeUndefined()
+	})
+
+	test('only retries the events the sender returns', async () => {
+		const send = jest.fn(async (batch: number[]) => batch.filter((item) => item === 2 && send.mock.calls.length < 2))
+		const queue = new DeliveryQueue('test', send, { retryDelay: 1 })
+
+		queue.push(1)
+		queue.push(2)
+		await queue.flush()
+
+		expect(send.mock.calls).toEqual([[[1, 2]], [[2]]])
+	})
+
+	test('spools batches that keep failing and sends them on the next flush', async () => {
+		const send = createSender(2)
+		const queue = new DeliveryQueue('test', send, { maxRetries: 1, retryDelay: 1 })
+
+		queue.push(1)
+		await queue.flush()
+		expect(await Flashcore.get('spool:test:0', Namespace)).toEqual([1])
+
+		queue.push(2)
+		await queue.flush()
+		expect(send.mock.calls.at(-1)).toEqual([[1, 2]])
+		expect(await Flashcore.get('spool:test:0', Namespace)).toBeUndefined()
+	})
+
+	test('spools the rest without sending it once a batch keeps failing', async () => {
+		const send = createSender(10)
+		const queue = new DeliveryQueue('test', send, { maxBatchSize: 2, maxRetries: 1, retryDelay: 1 })
+		await Flashcore.set('spool:test:0', [1, 2, 3, 4, 5], Namespace)
+
+		await queue.flush()
+
+		expect(send.mock.calls).toEqual([[[1, 2]], [[1, 2]]])
+		expect(await Flashcore.get('spool:test:0', Namespace)).toEqual([1, 2, 3, 4, 5])
+	})
+
+	test('drops failed batches when spooling is off', async () => {
+		const send = createSender(1)
+		const queue = new DeliveryQueue('test', send, { maxRetries: 0, spool: false })
+
+		queue.push(1)
+		await queue.flush()
+
+		expect(await Flashcore.keys(Namespace)).toEqual([])
+	})
+
+	test('stops retrying once closed', async () => {
+		const send = createSender(10)
+		const queue = new DeliveryQueue('test', send, { retryDelay: 60_000 })
+
+		queue.push(1)
+		const flushing = queue.flush()
+		await settle()
+		await queue.close()
+		await flushing
+
+		// The first attempt, one more once woken from the retry delay, then the final flush without retries
+		expect(send).toHaveBeenCalledTimes(3)
+		expect(await Flashcore.get('spool:test:0', Namespace)).toEqual([1])
+	})
+
+	test('spools the oldest events once the buffer is full', async () => {
+		const send = createSender(10)
+		const queue = new DeliveryQueue('test', send, {
+			flushInterval: 60_000,
+			maxBatchSize: 2,
+			maxBufferSize: 4,
+			retryDelay: 60_000
+		})
+
+		// The first batch is stuck retrying while more events come in
+		queue.push(1)
+		queue.push(2)
+		await settle()
+		;[3, 4, 5, 6, 7].forEach((item) => queue.push(item))
+		await settle()
+
+		expect(await Flashcore.get('spool:test:0', Namespace)).toEqual([3, 4])
+		await queue.close()
+	})
+
+	test('keeps a spool per shard', async () => {
+		const send = createSender(1)
+		jest.mocked(Shards.ids).mockReturnValue([1])
+		jest.mocked(Shards.isLeader).mockReturnValue(false)
+		const queue = new DeliveryQueue('test', send, { maxRetries: 0 })
+		await Flashcore.set('spool:test:0', [0], Namespace)
+
+		queue.push(1)
+		await queue.flush()
+		await queue.flush()
+
+		expect(await Flashcore.get('spool:test:0', Namespace)).toEqual([0])
+		expect(await Flashcore.get('spool:test:1', Namespace)).toBeUndefined()
+		expect(send.mock.calls).toEqual([[[1]], [[1]]])
+	})
+
+	test('sends what shards that no longer exist spooled from the leader', async () => {
+		const send = createSender()
+		jest.mocked(Shards.count).mockReturnValue(2)
+		await Flashcore.set('spool:test:1', [1], Namespace)
+		await Flashcore.set('spool:test:2', [2], Namespace)
+
+		await new DeliveryQueue('test', send).flush()
+
+		expect(send.mock.calls).toEqual([[[2]]])
+		expect(await Flashcore.get('spool:test:1', Namespace)).toEqual([1])
+	})
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { Flashcore, Shards } from 'robo.js'
+import { handleStatsRequest } from '../src/core/api.js'
+import { getActiveUsers, getGuildUsage, getTopCommands, recordStats, setApiOptions } from '../src/core/stats.js'
+import type { RoboRequest } from '@robojs/server'
+
+const Today = new Date('2025-03-10T12:00:00Z')
+
+function command(key: string, userId: string, guildId = 'guild-1') {
+	return recordStats('event', 'slash_command', { data: { guildId, key }, userId })
+}
+
+function createRequest(query: Record<string, string> = {}, headers: Record<string, string> = {}) {
+	return { headers: new Headers(headers), method: 'GET', query } as unknown as RoboRequest
+}
+
+beforeEach(() => {
+	jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'], now: Today })
+	Flashcore.clear()
+})
+
+afterEach(() => {
+	jest.useRealTimers()
+	jest.mocked(Shards.ids).mockReturnValue([0])
+	setApiOptions(null)
+})
+
+describe('recordStats', () => {
+	test('keeps each kind of counter in its own key per shard', async () => {
+		await command('ping', 'user-1')
+		jest.mocked(Shards.ids).mockReturnValue([1])
+		await command('ping', 'user-2')
+
+		expect((await Flashcore.keys({ namespace: '@robojs/analytics' })).sort()).toEqual([
+			'commands:2025-03-10:0',
+			'commands:2025-03-10:1',
+			'events:2025-03-10:0',
+			'events:2025-03-10:1',
+			'guild:guild-1:2025-03-10:0',
+			'guild:guild-1:2025-03-10:1',
+			'users:2025-03-10:0',
+			'users:2025-03-10:1'
+		])
+	})
+})
+
+describe('queries', () => {
+	test('merge counters from every shard', async () => {
+		await command('ping', 'user-1')
+		await command('help', 'user-1')
+		jest.mocked(Shards.ids).mockReturnValue([1])
+		await command('ping', 'user-1')
+		await command('ping', 'user-2', 'guild-2')
+
+		expect(await getTopCommands()).toEqual([
+			{ count: 3, key: 'ping' },
+			{ count: 1, key: 'help' }
+		])
+		expect(await getTopCommands({ guildId: 'guild-2' })).toEqual([{ count: 1, key: 'ping' }])
+		expect((await getActiveUsers()).at(-1)).toEqual({ date: '2025-03-10', users: 2 })
+		expect((await getGuildUsage('guild-1')).at(-1)).toEqual({ commands: 3, date: '2025-03-10', events: 3, users: 1 })
+	})
+
+	test('only read days in range, including empty ones', async () => {
+		await command('ping', 'user-1')
+		jest.setSystemTime(new Date('2025-03-12T12:00:00Z'))
+		await command('ping', 'user-2')
+
+		const getSpy = jest.mocked(Flashcore.get)
+		getSpy.mockClear()
+		const days = await getActiveUsers({ from: '2025-03-11', to: '2025-03-12' })
+
+		expect(days).toEqual([
+			{ date: '2025-03-11', users: 0 },
+			{ date: '2025-03-12', users: 1 }
+		])
+		expect(getSpy).toHaveBeenCalledTimes(1)
+	})
+
+	test('reject ranges longer than a year', async () => {
+		await expect(getActiveUsers({ from: '2024-01-01', to: '2025-03-01' })).rejects.toThrow('366 days')
+	})
+})
+
+describe('handleStatsRequest', () => {
+	test('responds with 404 unless the API is enabled', async () => {
+		const response = (await handleStatsRequest(createRequest(), getTopCommands)) as Response
+
+		expect(response.status).toBe(404)
+	})
+
+	test('asks authorize before running queries', async () => {
+		setApiOptions({ authorize: (request) => request.headers.get('authorization') === 'Bearer secret' })
+		await command('ping', 'user-1')
+
+		const denied = (await handleStatsRequest(createRequest(), getTopCommands)) as Response
+		const allowed = await handleStatsRequest(createRequest({}, { authorization: 'Bearer secret' }), getTopCommands)
+
+		expect(denied.status).toBe(401)
+		expect(allowed).toEqual([{ count: 1, key: 'ping' }])
+	})
+})
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, test } from '@jest/globals'
+import { Flashcore } from 'robo.js'
+import { setAnalytics } from '../src/core/analytics.js'
+import { setTelemetry, trackHandler } from '../src/core/telemetry.js'
+import { BaseEngine } from '../src/engines/base.js'
+import { after, setAutoTracking } from '../src/middleware/telemetry.js'
+import type { EventOptions } from '../src/engines/base.js'
+import type { MiddlewareAfterData } from 'robo.js'
+
+class TestEngine extends BaseEngine {
+	public events: Array<{ name: string; options?: EventOptions }> = []
+
+	public event(name: string, options?: EventOptions) {
+		this.events.push({ name, options })
+	}
+
+	public view() {}
+}
+
+let engine: TestEngine
+
+function createData(interaction: Record<string, unknown> = {}): MiddlewareAfterData {
+	return {
+		duration: 5,
+		error: undefined,
+		payload: [{ channelId: 'channel-1', guildId: 'guild-1', user: { id: 'user-1' }, ...interaction }],
+		record: { key: 'ping', type: 'command' },
+		result: undefined
+	} as unknown as MiddlewareAfterData
+}
+
+// Events are sent in the background
+function settle() {
+	return new Promise((resolve) => setTimeout(resolve, 10))
+}
+
+beforeEach(() => {
+	engine = new TestEngine()
+	setAnalytics(engine)
+	Flashcore.clear()
+})
+
+describe('trackHandler', () => {
+	test('records commands', async () => {
+		setTelemetry({ hashUserIds: false })
+		trackHandler(createData())
+		await settle()
+
+		expect(engine.events).toEqual([
+			{
+				name: 'slash_command',
+				options: {
+					data: { deferred: false, duration: 5, guildId: 'guild-1', key: 'ping', success: true },
+					sessionId: 'channel-1',
+					userId: 'user-1'
+				}
+			}
+		])
+	})
+
+	test('skips autocomplete', async () => {
+		setTelemetry(true)
+		trackHandler(createData({ isAutocomplete: () => true }))
+		await settle()
+
+		expect(engine.events).toEqual([])
+	})
+
+	test('hashes user IDs with a salt that is generated once', async () => {
+		setTelemetry(true)
+		trackHandler(createData())
+		trackHandler(createData())
+		await settle()
+
+		const [first, second] = engine.events.map((event) => event.options?.userId)
+		expect(first).toMatch(/^[0-9a-f]{64}$/)
+		expect(second).toBe(first)
+
+		// A different salt gives different hashes
+		setTelemetry({ salt: 'secret' })
+		trackHandler(createData())
+		await settle()
+		expect(engine.events[2].options?.userId).not.toBe(first)
+	})
+})
+
+describe('telemetry middleware', () => {
+	test('only has an after hook while automatic tracking is on', () => {
+		setAutoTracking(false)
+		expect(after).toBeUndefined()
+
+		setAutoTracking(true)
+		expect(after).toBe(trackHandler)
+
+		setAutoTracking(false)
+	})
+})
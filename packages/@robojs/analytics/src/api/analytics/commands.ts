@@ -0,0 +1,10 @@
+import { handleStatsRequest } from '../../core/api.js'
+import { getTopCommands } from '../../core/stats.js'
+import type { RoboRequest } from '@robojs/server'
+
+/**
+ * GET /api/analytics/commands - Most used commands in a date range.
+ *
+ * Search params: `from`, `to`, `guildId`, `limit` (1-100, default 10)
+ */
+export default (request: RoboRequest) => handleStatsRequest(request, getTopCommands)
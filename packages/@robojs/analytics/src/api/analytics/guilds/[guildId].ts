@@ -0,0 +1,11 @@
+import { handleStatsRequest } from '../../../core/api.js'
+import { getGuildUsage } from '../../../core/stats.js'
+import type { RoboRequest } from '@robojs/server'
+
+/**
+ * GET /api/analytics/guilds/:guildId - Daily commands, events and active users for a guild.
+ *
+ * Search params: `from`, `to`
+ */
+export default (request: RoboRequest) =>
+	handleStatsRequest(request, ({ from, to }) => getGuildUsage(request.params.guildId, { from, to }))
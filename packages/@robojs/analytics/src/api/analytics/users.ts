@@ -0,0 +1,10 @@
+import { handleStatsRequest } from '../../core/api.js'
+import { getActiveUsers } from '../../core/stats.js'
+import type { RoboRequest } from '@robojs/server'
+
+/**
+ * GET /api/analytics/users - Daily active users in a date range.
+ *
+ * Search params: `from`, `to`, `guildId`
+ */
+export default (request: RoboRequest) => handleStatsRequest(request, getActiveUsers)
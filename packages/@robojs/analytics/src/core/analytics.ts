@@ -6,8 +6,13 @@ export function setAnalytics(analytics: BaseEngine) {
 	_analytics = Object.freeze(analytics)
 }
 
+export async function closeAnalytics() {
+	await _analytics?.close()
+}
+
 export const Analytics = Object.freeze({
 	event: (name: string, options?: EventOptions) => _analytics.event(name, options),
+	flush: () => _analytics?.flush(),
 	view: (page: string, options?: ViewOptions) => _analytics.view(page, options),
 	isReady: () => {
 		return _analytics !== undefined
@@ -0,0 +1,38 @@
+import { getApiOptions } from './stats.js'
+import type { StatsQuery } from './stats.js'
+import type { RoboRequest } from '@robojs/server'
+
+/**
+ * Runs a stats query for an `/api/analytics/*` route using the `from`, `to`, `guildId` and `limit` search params.
+ * Responds with 404 unless `FlashcoreAnalytics` is in use with its API enabled, 401 when `authorize` rejects
+ * the request, and 400 for invalid params.
+ */
+export async function handleStatsRequest<T>(
+	request: RoboRequest,
+	query: (options: StatsQuery & { limit?: number }) => Promise<T>
+): Promise<T | Response> {
+	const api = getApiOptions()
+
+	if (!api) {
+		return Response.json({ error: 'Not Found' }, { status: 404 })
+	}
+	if (api.authorize && !(await api.authorize(request))) {
+		return Response.json({ error: 'Unauthorized' }, { status: 401 })
+	}
+	if (request.method !== 'GET') {
+		return Response.json({ error: 'Method Not Allowed' }, { headers: { Allow: 'GET' }, status: 405 })
+	}
+
+	const { from, guildId, limit, to } = request.query as Record<string, string | undefined>
+	const parsedLimit = limit ? parseInt(limit, 10) : undefined
+
+	if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100)) {
+		return Response.json({ error: 'limit must be between 1 and 100' }, { status: 400 })
+	}
+
+	try {
+		return await query({ from, guildId, limit: parsedLimit, to })
+	} catch (error) {
+		return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 })
+	}
+}
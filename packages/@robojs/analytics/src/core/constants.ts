@@ -0,0 +1 @@
+export const NAMESPACE = '@robojs/analytics'
@@ -0,0 +1,211 @@
+import { NAMESPACE } from './constants.js'
+import { analyticsLogger } from './loggers.js'
+import { color, Flashcore, Shards } from 'robo.js'
+
+export interface QueueOptions {
+	/** Milliseconds to buffer events before sending them. Defaults to `5000`. */
+	flushInterval?: number
+	/** Most events sent per batch. Sending starts early once this many are buffered. Defaults to `25`. */
+	maxBatchSize?: number
+	/** Most events held in memory while deliveries fail. The oldest are spooled beyond this. Defaults to `500`. */
+	maxBufferSize?: number
+	/** Retries for a failed batch before it's spooled. Defaults to `5`. */
+	maxRetries?: number
+	/** Milliseconds before the first retry, doubled after every attempt. Defaults to `1000`. */
+	retryDelay?: number
+	/** Save undelivered events in Flashcore so they're sent after a restart. Defaults to `true`. */
+	spool?: boolean
+}
+
+/**
+ * Sends a batch of events. Throw to retry the whole batch, or resolve with only the events that should be retried.
+ * Events that can never succeed (such as rejected payloads) should be logged and left out.
+ */
+export type BatchSender<T> = (batch: T[]) => Promise<T[] | void>
+
+// Spooled events beyond this are dropped, oldest first, so an unreachable service can't fill the disk
+const MaxSpoolSize = 1000
+
+/**
+ * Buffers events for an engine and delivers them in batches with exponential backoff.
+ * Once a batch still fails, it's spooled to Flashcore with everything after it and retried on the next flush,
+ * even after a restart.
+ */
+export class DeliveryQueue<T> {
+	private _buffer: T[] = []
+	private _closed = false
+	private _flushing: Promise<void> = Promise.resolve()
+	private _name: string
+	private _options: Required<QueueOptions>
+	private _restored = false
+	private _send: BatchSender<T>
+	private _timer: NodeJS.Timeout | null = null
+	private _wake: (() => void) | null = null
+
+	constructor(name: string, send: BatchSender<T>, options?: QueueOptions) {
+		this._name = name
+		this._send = send
+		this._options = {
+			flushInterval: options?.flushInterval ?? 5000,
+			maxBatchSize: Math.max(1, options?.maxBatchSize ?? 25),
+			maxBufferSize: Math.max(1, options?.maxBufferSize ?? 500),
+			maxRetries: options?.maxRetries ?? 5,
+			retryDelay: options?.retryDelay ?? 1000,
+			spool: options?.spool ?? true
+		}
+	}
+
+	/**
+	 * Sends everything buffered, then stops retrying so shutdown isn't held up.
+	 * Whatever fails is spooled right away.
+	 */
+	public close(): Promise<void> {
+		this._closed = true
+		this._wake?.()
+
+		return this.flush()
+	}
+
+	/** Sends everything buffered right away, waiting for any flush already in progress first. */
+	public flush(): Promise<void> {
+		if (this._timer) {
+			clearTimeout(this._timer)
+			this._timer = null
+		}
+
+		this._flushing = this._flushing.then(() => this.drain())
+		return this._flushing
+	}
+
+	public push(item: T) {
+		this._buffer.push(item)
+
+		// Retries can hold up a flush for minutes, so move the oldest events out of memory in batches
+		if (this._buffer.length > this._options.maxBufferSize) {
+			const overflow = this._buffer.splice(
+				0,
+				Math.max(this._options.maxBatchSize, this._buffer.length - this._options.maxBufferSize)
+			)
+			this.spool(overflow).catch((error) => {
+				analyticsLogger.error(color.dim(`[${this._name}]`), 'Failed to spool events:', error)
+			})
+		}
+
+		if (this._buffer.length >= this._options.maxBatchSize) {
+			this.flush()
+		} else if (!this._timer) {
+			this._timer = setTimeout(() => this.flush(), this._options.flushInterval)
+			this._timer.unref()
+		}
+	}
+
+	private async deliver(batch: T[]): Promise<T[]> {
+		let pending = batch
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				pending = (await this._send(pending)) ?? []
+			} catch (error) {
+				analyticsLogger.debug(color.dim(`[${this._name}]`), `Failed to send ${pending.length} events:`, error)
+			}
+
+			if (!pending.length || this._closed || attempt >= this._options.maxRetries) {
+				return pending
+			}
+
+			const delay = this._options.retryDelay * 2 ** attempt
+			analyticsLogger.debug(color.dim(`[${this._name}]`), `Retrying ${pending.length} events in ${delay}ms...`)
+			await this.sleep(delay)
+		}
+	}
+
+	private async drain() {
+		try {
+			await this.restore()
+
+			while (this._buffer.length) {
+				const batch = this._buffer.splice(0, this._options.maxBatchSize)
+				const failed = await this.deliver(batch)
+
+				// The service is likely down, so keep the rest for the next flush instead of retrying every batch
+				if (failed.length) {
+					await this.spool([...failed, ...this._buffer.splice(0)])
+					break
+				}
+			}
+		} catch (error) {
+			analyticsLogger.error(color.dim(`[${this._name}]`), 'Failed to flush events:', error)
+		}
+	}
+
+	// Moves events spooled by a previous flush (or process) back into the buffer
+	private async restore() {
+		if (this._restored || !this._options.spool) {
+			return
+		}
+
+		this._restored = true
+		const keys = [this.spoolKey()]
+
+		// Spools of shards that no longer exist would never be sent otherwise
+		if (Shards.isLeader()) {
+			keys.push(...(await this.orphanedSpoolKeys()))
+		}
+
+		for (const key of keys) {
+			const spooled = await Flashcore.get<T[]>(key, { namespace: NAMESPACE })
+
+			if (spooled?.length) {
+				analyticsLogger.debug(color.dim(`[${this._name}]`), `Restored ${spooled.length} spooled events`)
+				this._buffer.unshift(...spooled)
+				await Flashcore.delete(key, { namespace: NAMESPACE })
+			}
+		}
+	}
+
+	private async orphanedSpoolKeys(): Promise<string[]> {
+		const prefix = 'spool:' + this._name + ':'
+
+		try {
+			const keys = await Flashcore.keys({ namespace: NAMESPACE, prefix })
+
+			return keys.filter((key) => Number(key.slice(prefix.length)) >= Shards.count())
+		} catch {
+			// Adapters that can't list keys only restore this shard's spool
+			return []
+		}
+	}
+
+	private sleep(ms: number) {
+		return new Promise<void>((resolve) => {
+			const timeout = setTimeout(resolve, ms)
+			this._wake = () => {
+				clearTimeout(timeout)
+				resolve()
+			}
+		}).finally(() => {
+			this._wake = null
+		})
+	}
+
+	private async spool(items: T[]) {
+		if (!this._options.spool) {
+			analyticsLogger.warn(color.dim(`[${this._name}]`), `Dropped ${items.length} undelivered events`)
+			return
+		}
+
+		await Flashcore.update<T[] | undefined>(
+			this.spoolKey(),
+			(spooled) => [...(spooled ?? []), ...items].slice(-MaxSpoolSize),
+			{ namespace: NAMESPACE }
+		)
+		// Sent again on the next flush
+		this._restored = false
+		analyticsLogger.warn(color.dim(`[${this._name}]`), `Spooled ${items.length} undelivered events`)
+	}
+
+	// Each shard keeps its own spool so one shard restoring it can't take events another is about to send
+	private spoolKey() {
+		return 'spool:' + this._name + ':' + (Shards.ids()[0] ?? 0)
+	}
+}
@@ -0,0 +1,259 @@
+import { NAMESPACE } from './constants.js'
+import { Flashcore, Shards } from 'robo.js'
+import type { RoboRequest } from '@robojs/server'
+
+/** Events from automatic tracking that count towards `getTopCommands`. */
+const CommandEvents = ['context_menu', 'slash_command']
+
+/** Longest range a single query will read, in days. */
+const MaxRangeDays = 366
+
+/** Most counters read from Flashcore at the same time by a query. */
+const ReadConcurrency = 16
+
+const DayMs = 24 * 60 * 60 * 1000
+
+/**
+ * Counters are split by what they count, so queries only read what they need and events only update what they touch.
+ * `guild:<id>` holds a single guild's commands, events and users.
+ */
+type Dimension = 'commands' | 'events' | 'users' | 'views' | `guild:${string}`
+
+/** A guild's counters for a single UTC day. */
+export interface GuildStats {
+	commands: Record<string, number>
+	events: Record<string, number>
+	users: Record<string, number>
+}
+
+export interface StatsQuery {
+	/** Start of the range, inclusive. Defaults to 29 days before `to`. */
+	from?: Date | number | string
+	/** Limit results to a single guild. */
+	guildId?: string
+	/** End of the range, inclusive. Defaults to today. */
+	to?: Date | number | string
+}
+
+export interface ActiveUsers {
+	/** UTC day, formatted as `YYYY-MM-DD`. */
+	date: string
+	users: number
+}
+
+export interface CommandUsage {
+	count: number
+	key: string
+}
+
+export interface GuildUsage {
+	commands: number
+	/** UTC day, formatted as `YYYY-MM-DD`. */
+	date: string
+	events: number
+	users: number
+}
+
+/** Decides whether a request may read the `/api/analytics/*` routes. */
+export type ApiAuthorizer = (request: RoboRequest) => boolean | Promise<boolean>
+
+let _api: { authorize?: ApiAuthorizer } | null = null
+
+export function getApiOptions() {
+	return _api
+}
+
+export function setApiOptions(options: { authorize?: ApiAuthorizer } | null) {
+	_api = options
+}
+
+/**
+ * Counts unique users per day in a date range, including days without activity.
+ *
+ * @example
+ * ```ts
+ * const dau = await getActiveUsers({ from: '2025-01-01', to: '2025-01-31' })
+ * ```
+ */
+export async function getActiveUsers(options: StatsQuery = {}): Promise<ActiveUsers[]> {
+	const days = await readCounters('users', options)
+
+	return days.map(({ counters, date }) => ({
+		date,
+		users: new Set(counters.flatMap((users) => Object.keys(users))).size
+	}))
+}
+
+/**
+ * Sums command and context menu calls across a date range, most used first.
+ * Only calls recorded by automatic tracking (the `auto` plugin option) are counted.
+ */
+export async function getTopCommands(options: StatsQuery & { limit?: number } = {}): Promise<CommandUsage[]> {
+	const { limit = 10 } = options
+	const days = await readCounters('commands', options)
+	const totals: Record<string, number> = {}
+
+	for (const { counters } of days) {
+		for (const [key, count] of counters.flatMap((commands) => Object.entries(commands))) {
+			totals[key] = (totals[key] ?? 0) + count
+		}
+	}
+
+	return Object.entries(totals)
+		.map(([key, count]) => ({ count, key }))
+		.sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+		.slice(0, limit)
+}
+
+/** Daily commands, events and unique users for a single guild. */
+export async function getGuildUsage(guildId: string, options: Omit<StatsQuery, 'guildId'> = {}): Promise<GuildUsage[]> {
+	const days = await readRange<GuildStats>(`guild:${guildId}`, options)
+
+	return days.map(({ counters, date }) => ({
+		commands: counters.reduce((total, guild) => total + sum(guild.commands), 0),
+		date,
+		events: counters.reduce((total, guild) => total + sum(guild.events), 0),
+		users: new Set(counters.flatMap((guild) => Object.keys(guild.users ?? {}))).size
+	}))
+}
+
+/**
+ * Adds an event or view to its day's counters.
+ * Each shard only writes its own counters, so concurrent events never overwrite each other, even across shards.
+ */
+export async function recordStats(
+	kind: 'event' | 'view',
+	name: string,
+	options: { data?: unknown; userId?: number | string }
+) {
+	const data = (options.data && typeof options.data === 'object' ? options.data : {}) as Record<string, unknown>
+	const guildId = typeof data.guildId === 'string' ? data.guildId : null
+	const commandKey = CommandEvents.includes(name) && typeof data.key === 'string' ? data.key : null
+	const userId = options.userId !== undefined ? String(options.userId) : null
+	const day = toDay(new Date())
+	const updates: Promise<unknown>[] = [increment(kind === 'event' ? 'events' : 'views', day, name)]
+
+	if (commandKey) {
+		updates.push(increment('commands', day, commandKey))
+	}
+	if (userId) {
+		updates.push(increment('users', day, userId))
+	}
+	if (guildId) {
+		updates.push(
+			Flashcore.update<GuildStats | undefined>(
+				counterKey(`guild:${guildId}`, day),
+				(stats) => {
+					const guild = stats ?? { commands: {}, events: {}, users: {} }
+					add(guild.events, kind === 'event' ? name : 'pageview')
+
+					if (commandKey) {
+						add(guild.commands, commandKey)
+					}
+					if (userId) {
+						add(guild.users, userId)
+					}
+
+					return guild
+				},
+				{ namespace: NAMESPACE }
+			)
+		)
+	}
+
+	await Promise.all(updates)
+}
+
+function add(counters: Record<string, number>, key: string) {
+	counters[key] = (counters[key] ?? 0) + 1
+}
+
+// Keyed by this process' first shard, since Flashcore only locks keys within a single process
+function counterKey(dimension: Dimension, day: string) {
+	return `${dimension}:${day}:${Shards.ids()[0] ?? 0}`
+}
+
+function increment(dimension: Dimension, day: string, key: string) {
+	return Flashcore.update<Record<string, number> | undefined>(
+		counterKey(dimension, day),
+		(counters) => {
+			const next = counters ?? {}
+			add(next, key)
+
+			return next
+		},
+		{ namespace: NAMESPACE }
+	)
+}
+
+// Reads a guild's counters of one kind, or the ones for every guild
+async function readCounters(kind: 'commands' | 'users', options: StatsQuery) {
+	if (!options.guildId) {
+		return readRange<Record<string, number>>(kind, options)
+	}
+
+	const days = await readRange<GuildStats>(`guild:${options.guildId}`, options)
+	return days.map(({ counters, date }) => ({ counters: counters.map((guild) => guild[kind] ?? {}), date }))
+}
+
+/**
+ * Reads every shard's counters for a dimension in a date range, grouped by day and including days without any.
+ * Only keys that exist are read, a few at a time.
+ */
+async function readRange<T>(dimension: Dimension, options: Omit<StatsQuery, 'guildId'>) {
+	const to = startOfDay(options.to ?? Date.now())
+	const from = startOfDay(options.from ?? to - 29 * DayMs)
+
+	if (Number.isNaN(from) || Number.isNaN(to)) {
+		throw new Error('Invalid date range')
+	}
+	if (from > to) {
+		throw new Error('Date range must start before it ends')
+	}
+	if ((to - from) / DayMs >= MaxRangeDays) {
+		throw new Error(`Date range cannot be longer than ${MaxRangeDays} days`)
+	}
+
+	// Keys look like `<dimension>:<YYYY-MM-DD>:<shard>`, and dates sort as strings
+	const prefix = dimension + ':'
+	const firstDay = toDay(new Date(from))
+	const lastDay = toDay(new Date(to))
+	const keys = (await Flashcore.keys({ namespace: NAMESPACE, prefix })).filter((key) => {
+		const day = key.slice(prefix.length, prefix.length + 10)
+		return day >= firstDay && day <= lastDay
+	})
+
+	const counters = new Map<string, T[]>()
+	for (let i = 0; i < keys.length; i += ReadConcurrency) {
+		const batch = keys.slice(i, i + ReadConcurrency)
+		const values = await Promise.all(batch.map((key) => Flashcore.get<T>(key, { namespace: NAMESPACE })))
+
+		batch.forEach((key, index) => {
+			const day = key.slice(prefix.length, prefix.length + 10)
+			if (values[index]) {
+				counters.set(day, [...(counters.get(day) ?? []), values[index] as T])
+			}
+		})
+	}
+
+	const days: { counters: T[]; date: string }[] = []
+	for (let time = from; time <= to; time += DayMs) {
+		const date = toDay(new Date(time))
+		days.push({ counters: counters.get(date) ?? [], date })
+	}
+
+	return days
+}
+
+function startOfDay(value: Date | number | string) {
+	const date = new Date(value)
+	return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+function sum(counters: Record<string, number> | undefined) {
+	return Object.values(counters ?? {}).reduce((total, count) => total + count, 0)
+}
+
+function toDay(date: Date) {
+	return date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,156 @@
+import { Analytics } from './analytics.js'
+import { NAMESPACE } from './constants.js'
+import { analyticsLogger } from './loggers.js'
+import { createHmac, randomBytes } from 'node:crypto'
+import { Flashcore } from 'robo.js'
+import type { MiddlewareAfterData, MiddlewareScopeType } from 'robo.js'
+
+export type TelemetryType = Exclude<MiddlewareScopeType, 'events'>
+
+export interface TelemetryOptions {
+	/** Handler keys to track, such as `ping` or `admin`. Parent keys also match their subcommands. Defaults to all. */
+	allow?: string[]
+	/** Handler keys to never track. Checked after `allow`. */
+	deny?: string[]
+	/** Hash user IDs before they reach your analytics service. Defaults to `true`. */
+	hashUserIds?: boolean
+	/**
+	 * Secret mixed into user ID hashes so they can't be matched against known Discord IDs.
+	 * Defaults to a random salt generated once and kept in Flashcore.
+	 */
+	salt?: string
+	/** Fraction of handler calls to record, from `0` to `1`. Defaults to `1`. */
+	sampleRate?: number
+	/** Handler types to record. Defaults to all of them. */
+	types?: TelemetryType[]
+}
+
+/** Event names sent for each handler type. */
+const EventNames: Record<string, string> = {
+	api: 'api_request',
+	command: 'slash_command',
+	component: 'component',
+	context: 'context_menu',
+	modal: 'modal'
+}
+
+const RecordTypes: Record<TelemetryType, string> = {
+	api: 'api',
+	commands: 'command',
+	components: 'component',
+	context: 'context',
+	modals: 'modal'
+}
+
+let _salt: Promise<string> | null = null
+
+let _telemetry: TelemetryOptions | null = null
+
+export function setTelemetry(options: boolean | TelemetryOptions | undefined) {
+	_telemetry = options === true ? {} : options ? options : null
+	_salt = null
+}
+
+/**
+ * Records a handler call that just settled. Sending happens in the background so the
+ * handler's reply is never held up by the analytics service, and failures are only logged.
+ */
+export function trackHandler(data: MiddlewareAfterData) {
+	const { duration, error, payload, record } = data
+	const interaction = payload[0] as
+		| {
+				channelId?: string | null
+				deferred?: boolean
+				guildId?: string | null
+				isAutocomplete?: () => boolean
+				user?: { id: string }
+		  }
+		| undefined
+
+	// Autocomplete runs through its command's middleware too, but isn't a use of the command
+	if (record.type === 'command' && interaction?.isAutocomplete?.()) {
+		return
+	}
+	if (!_telemetry || !Analytics.isReady() || !shouldTrack(record.type, record.key)) {
+		return
+	}
+
+	const sampleRate = _telemetry.sampleRate ?? 1
+	if (sampleRate < 1 && Math.random() >= sampleRate) {
+		return
+	}
+
+	const properties: Record<string, unknown> = {
+		duration,
+		key: record.key,
+		success: error === undefined
+	}
+	let sessionId: string | undefined
+	let userId: string | undefined
+
+	if (record.type === 'api') {
+		const request = payload[0] as { method?: string } | undefined
+		properties.method = request?.method
+	} else {
+		properties.deferred = interaction?.deferred ?? false
+		properties.guildId = interaction?.guildId ?? undefined
+		sessionId = interaction?.channelId ?? interaction?.guildId ?? undefined
+		userId = interaction?.user?.id
+	}
+
+	analyticsLogger.debug(`Tracking ${record.type} "${record.key}" (${duration}ms)`)
+	Promise.resolve(userId && getUserId(userId))
+		.then((userId) => Analytics.event(EventNames[record.type], { data: properties, sessionId, userId }))
+		.catch((error) => analyticsLogger.warn(`Failed to track ${record.type} "${record.key}":`, error))
+}
+
+// Kept in Flashcore so hashes stay the same across restarts and shards
+function getSalt(): Promise<string> {
+	if (_telemetry?.salt) {
+		return Promise.resolve(_telemetry.salt)
+	}
+
+	_salt ??= Flashcore.update<string | undefined>('salt', (salt) => salt ?? randomBytes(32).toString('hex'), {
+		namespace: NAMESPACE
+	})
+		.then((salt) => salt as string)
+		.catch((error) => {
+			_salt = null
+			throw error
+		})
+
+	return _salt
+}
+
+async function getUserId(id: string) {
+	if (_telemetry?.hashUserIds === false) {
+		return id
+	}
+
+	return createHmac('sha256', await getSalt())
+		.update(id)
+		.digest('hex')
+}
+
+function matchesKey(keys: string[], key: string) {
+	return keys.some((k) => key === k || key.startsWith(k + '/'))
+}
+
+function shouldTrack(type: string, key: string | undefined) {
+	if (!EventNames[type] || !key) {
+		return false
+	}
+
+	const { allow, deny, types } = _telemetry ?? {}
+	if (types && !types.some((t) => RecordTypes[t] === type)) {
+		return false
+	}
+	if (allow && !matchesKey(allow, key)) {
+		return false
+	}
+	if (deny && matchesKey(deny, key)) {
+		return false
+	}
+
+	return true
+}
@@ -21,7 +21,15 @@ export interface ViewOptions extends EventOptions {
 export abstract class BaseEngine {
 	constructor() {}
 
+	/** Sends any buffered events, then stops retrying. Called when Robo stops. */
+	public close(): Promise<void> | void {
+		return this.flush()
+	}
+
 	public abstract event(name: string, options?: EventOptions): Promise<void> | void
 
+	/** Sends any buffered events right away. Engines that don't buffer have nothing to do. */
+	public flush(): Promise<void> | void {}
+
 	public abstract view(page: string, options?: ViewOptions): Promise<void> | void
 }
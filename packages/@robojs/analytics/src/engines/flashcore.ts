@@ -0,0 +1,51 @@
+import { color } from 'robo.js'
+import { analyticsLogger } from '../core/loggers.js'
+import { recordStats, setApiOptions } from '../core/stats.js'
+import { BaseEngine } from './base.js'
+import type { ApiAuthorizer } from '../core/stats.js'
+import type { EventOptions, ViewOptions } from './base.js'
+
+interface FlashcoreAnalyticsOptions {
+	/**
+	 * Serve `/api/analytics/*` routes when `@robojs/server` is installed. Defaults to `false`.
+	 * Pass an `authorize` function to decide who can read them; `true` lets anyone who can reach your server in.
+	 */
+	api?: boolean | { authorize: ApiAuthorizer }
+}
+
+// Constants
+const Prefix = color.dim('[FlashcoreAnalytics]')
+
+/**
+ * Keeps analytics on your own machine by counting events per day in Flashcore.
+ * Read them back with `getTopCommands`, `getActiveUsers` and `getGuildUsage`.
+ */
+export class FlashcoreAnalytics extends BaseEngine {
+	constructor(options?: FlashcoreAnalyticsOptions) {
+		super()
+		const api = options?.api ?? false
+		setApiOptions(api === true ? {} : api || null)
+
+		if (api === true) {
+			analyticsLogger.warn(
+				Prefix,
+				'Analytics API routes are enabled without an `authorize` function, so anyone can read them.'
+			)
+		}
+		analyticsLogger.ready(color.bold('Flashcore'), 'is ready to collect data.')
+	}
+
+	public async event(name: string, options?: EventOptions) {
+		if (!name) {
+			return analyticsLogger.error(Prefix, 'Specify a name to record an event.')
+		}
+
+		analyticsLogger.debug(Prefix, `Recording event ${name}...`)
+		await recordStats('event', name, options ?? {})
+	}
+
+	public async view(page: string, options?: ViewOptions) {
+		analyticsLogger.debug(Prefix, `Recording view ${page}...`)
+		await recordStats('view', page, options ?? {})
+	}
+}
@@ -1,25 +1,37 @@
 import { color } from 'robo.js'
 import { analyticsLogger } from '../core/loggers.js'
+import { DeliveryQueue } from '../core/queue.js'
 import { BaseEngine } from './base.js'
+import type { QueueOptions } from '../core/queue.js'
 import type { EventOptions, ViewOptions } from './base.js'
 
 interface GoogleAnalyticsOptions {
-	measureId: string
-	token: string
+	measureId?: string
+	queue?: QueueOptions
+	token?: string
+}
+
+interface GooglePayload {
+	client_id: string
+	user_id?: number | string
+	events: { name: string; params: unknown }[]
 }
 
 // Constants
 const Host = 'https://www.google-analytics.com'
+const MaxEventsPerRequest = 25
 const Prefix = color.dim('[GoogleAnalytics]')
 
 export class GoogleAnalytics extends BaseEngine {
 	private _measureId: string
+	private _queue: DeliveryQueue<GooglePayload>
 	private _token: string
 
 	constructor(options?: GoogleAnalyticsOptions) {
 		super()
 
 		this._measureId = options?.measureId ?? process.env.GOOGLE_ANALYTICS_MEASURE_ID!
+		this._queue = new DeliveryQueue('GoogleAnalytics', (batch) => this.send(batch), options?.queue)
 		this._token = options?.token ?? process.env.GOOGLE_ANALYTICS_SECRET!
 
 		if (this.verifyRequest()) {
@@ -42,8 +54,8 @@ export class GoogleAnalytics extends BaseEngine {
 			Object.assign(params, options.revenue)
 		}
 
-		// Collect the event
-		await this.collect({
+		// Queue the event
+		this._queue.push({
 			client_id: options?.sessionId ?? randomId(),
 			user_id: options?.userId,
 			events: [{ name, params }]
@@ -67,15 +79,24 @@ export class GoogleAnalytics extends BaseEngine {
 			}
 		}
 
-		// Send the request
-		await this.collect({
+		// Queue the page view
+		this._queue.push({
 			client_id: options?.sessionId ?? randomId(),
 			user_id: options?.userId,
 			events: [event]
 		})
 	}
 
-	private async collect(payload: unknown) {
+	public async close() {
+		await this._queue.close()
+	}
+
+	public async flush() {
+		await this._queue.flush()
+	}
+
+	// Throws when the request can be retried later
+	private async collect(payload: GooglePayload) {
 		// Send the request
 		const response = await fetch(Host + `/mp/collect?measurement_id=${this._measureId}&api_secret=${this._token}`, {
 			method: 'POST',
@@ -85,14 +106,49 @@ export class GoogleAnalytics extends BaseEngine {
 			body: JSON.stringify(payload)
 		})
 
-		// Log the error if the request fails
-		if (!response.ok) {
+		// Rate limits and server errors are worth retrying, anything else means the payload was rejected
+		if (response.status === 429 || response.status >= 500) {
+			throw new Error(Prefix + ` ${response.statusText} ${response.status}`)
+		} else if (!response.ok) {
 			analyticsLogger.error(Prefix, response.statusText, response.status)
 		} else {
 			analyticsLogger.debug(Prefix, 'Event collected successfully:', payload)
 		}
 	}
 
+	/**
+	 * Sends events from the same client and user together, up to 25 per request.
+	 * Resolves with the payloads of requests that failed, so only those are retried.
+	 */
+	private async send(batch: GooglePayload[]) {
+		const groups: { items: GooglePayload[]; payload: GooglePayload }[] = []
+
+		for (const item of batch) {
+			const group = groups.find(
+				({ payload }) =>
+					payload.client_id === item.client_id &&
+					payload.user_id === item.user_id &&
+					payload.events.length + item.events.length <= MaxEventsPerRequest
+			)
+
+			if (group) {
+				group.items.push(item)
+				group.payload.events.push(...item.events)
+			} else {
+				groups.push({ items: [item], payload: { ...item, events: [...item.events] } })
+			}
+		}
+
+		const results = await Promise.allSettled(groups.map(({ payload }) => this.collect(payload)))
+		results.forEach((result) => {
+			if (result.status === 'rejected') {
+				analyticsLogger.debug(Prefix, result.reason)
+			}
+		})
+
+		return groups.filter((_, index) => results[index].status === 'rejected').flatMap(({ items }) => items)
+	}
+
 	private verifyRequest() {
 		if (!this._measureId) {
 			analyticsLogger.warn(Prefix, 'Missing GOOGLE_ANALYTICS_MEASURE_ID enviromnent variable.')
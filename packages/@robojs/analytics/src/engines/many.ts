@@ -1,4 +1,5 @@
 import { BaseEngine } from './base.js'
+import { analyticsLogger } from '../core/loggers.js'
 import type { EventOptions, ViewOptions } from './base.js'
 
 export class ManyEngines extends BaseEngine {
@@ -9,11 +10,31 @@ export class ManyEngines extends BaseEngine {
 		this._engines = engines
 	}
 
+	public async close() {
+		await this.each('close', (engine) => engine.close())
+	}
+
 	public async event(name: string, options?: EventOptions) {
-		await Promise.all(this._engines.map((engine) => engine.event(name, options)))
+		await this.each('event', (engine) => engine.event(name, options))
+	}
+
+	public async flush() {
+		await this.each('flush', (engine) => engine.flush())
 	}
 
 	public async view(page: string, options?: ViewOptions) {
-		await Promise.all(this._engines.map((engine) => engine.view(page, options)))
+		await this.each('view', (engine) => engine.view(page, options))
+	}
+
+	// One engine failing never stops the others from receiving the same call
+	private async each(action: string, callback: (engine: BaseEngine) => Promise<void> | void) {
+		const results = await Promise.allSettled(this._engines.map(async (engine) => callback(engine)))
+
+		results.forEach((result, index) => {
+			if (result.status === 'rejected') {
+				const name = this._engines[index].constructor.name
+				analyticsLogger.warn(`${name} failed to ${action}:`, result.reason)
+			}
+		})
 	}
 }
@@ -1,18 +1,26 @@
 import { BaseEngine } from './base.js'
 import { analyticsLogger } from '../core/loggers.js'
+import { DeliveryQueue } from '../core/queue.js'
 import { color } from 'robo.js'
+import type { QueueOptions } from '../core/queue.js'
 import type { EventOptions, ViewOptions } from './base.js'
 
+interface PlausibleOptions {
+	queue?: QueueOptions
+}
+
 // Constants
 const Host = 'https://plausible.io'
 const Prefix = color.dim('[Plausible]')
 
 export class PlausibleAnalytics extends BaseEngine {
 	private _domain: string
+	private _queue: DeliveryQueue<unknown>
 
-	constructor(domain?: string) {
+	constructor(domain?: string, options?: PlausibleOptions) {
 		super()
 		this._domain = domain ?? process.env.PLAUSIBLE_DOMAIN!
+		this._queue = new DeliveryQueue('Plausible', (batch) => this.send(batch), options?.queue)
 		analyticsLogger.ready(color.bold('Plausible'), 'is ready to collect data.')
 	}
 
@@ -39,7 +47,15 @@ export class PlausibleAnalytics extends BaseEngine {
 			}
 		}
 
-		await this.collect(payload)
+		this._queue.push(payload)
+	}
+
+	public async close() {
+		await this._queue.close()
+	}
+
+	public async flush() {
+		await this._queue.flush()
 	}
 
 	public async view(page: string, options: ViewOptions): Promise<void> {
@@ -60,9 +76,10 @@ export class PlausibleAnalytics extends BaseEngine {
 			}
 		}
 
-		await this.collect(payload)
+		this._queue.push(payload)
 	}
 
+	// Throws when the request can be retried later
 	private async collect(payload: unknown) {
 		const res = await fetch(Host + '/api/event', {
 			method: 'POST',
@@ -75,16 +92,27 @@ export class PlausibleAnalytics extends BaseEngine {
 			body: JSON.stringify(payload)
 		})
 
-		try {
-			if (!res.ok) {
-				throw new Error(Prefix + ` ${res.statusText} ${res.status}`)
-			} else {
-				analyticsLogger.debug(Prefix, `Event was sent successfully.`)
-			}
-		} catch (error) {
-			analyticsLogger.warn(Prefix, error)
+		// Rate limits and server errors are worth retrying, anything else means the payload was rejected
+		if (res.status === 429 || res.status >= 500) {
+			throw new Error(Prefix + ` ${res.statusText} ${res.status}`)
+		} else if (!res.ok) {
+			analyticsLogger.warn(Prefix, res.statusText, res.status)
+		} else {
+			analyticsLogger.debug(Prefix, `Event was sent successfully.`)
 		}
 	}
+
+	// Plausible takes one event per request, so send them side by side and only retry the ones that failed
+	private async send(batch: unknown[]) {
+		const results = await Promise.allSettled(batch.map((payload) => this.collect(payload)))
+		results.forEach((result) => {
+			if (result.status === 'rejected') {
+				analyticsLogger.debug(Prefix, result.reason)
+			}
+		})
+
+		return batch.filter((_, index) => results[index].status === 'rejected')
+	}
 }
 
 function slugify(value: string): string {
@@ -1,37 +1,50 @@
 import { color, composeColors } from 'robo.js'
-import { setAnalytics } from '../core/analytics.js'
+import { Analytics, setAnalytics } from '../core/analytics.js'
+import { setTelemetry } from '../core/telemetry.js'
+import { setAutoTracking } from '../middleware/telemetry.js'
 import { BaseEngine } from '../engines/base.js'
 import { analyticsLogger } from '../core/loggers.js'
 import { GoogleAnalytics } from '../engines/google-analytics.js'
 import { ManyEngines } from '../engines/many.js'
 import { PlausibleAnalytics } from '../engines/plausible.js'
+import type { QueueOptions } from '../core/queue.js'
+import type { TelemetryOptions } from '../core/telemetry.js'
 
 interface PluginOptions {
+	/** Automatically track commands, context menus, components, modals and API routes. */
+	auto?: boolean | TelemetryOptions
 	engine?: BaseEngine
+	/** Batching and retry options for the engines picked from environment variables. */
+	queue?: QueueOptions
 }
 export let pluginOptions: PluginOptions = {}
 
 export default (_client: unknown, options: PluginOptions) => {
 	pluginOptions = options ?? {}
+	setTelemetry(pluginOptions.auto)
+	setAutoTracking(!!pluginOptions.auto)
 
-	if (pluginOptions.engine) {
-		setAnalytics(pluginOptions.engine)
-		return
-	}
+	const { queue } = pluginOptions
 
 	const GAnalytics = process.env.GOOGLE_ANALYTICS_MEASURE_ID
 	const PAnalytics = process.env.PLAUSIBLE_DOMAIN
 
-	if (GAnalytics && PAnalytics) {
-		setAnalytics(new ManyEngines(new GoogleAnalytics(), new PlausibleAnalytics()))
+	if (pluginOptions.engine) {
+		setAnalytics(pluginOptions.engine)
+	} else if (GAnalytics && PAnalytics) {
+		setAnalytics(new ManyEngines(new GoogleAnalytics({ queue }), new PlausibleAnalytics(undefined, { queue })))
 	} else if (GAnalytics) {
-		setAnalytics(new GoogleAnalytics())
+		setAnalytics(new GoogleAnalytics({ queue }))
 	} else if (PAnalytics) {
-		setAnalytics(new PlausibleAnalytics())
+		setAnalytics(new PlausibleAnalytics(undefined, { queue }))
 	} else {
 		analyticsLogger.warn(
 			'Must have at least one analytics engine enabled. See',
 			composeColors(color.bold, color.cyan)('https://robojs.dev/plugins/analytics.')
 		)
+		return
 	}
+
+	// Send anything spooled before the last shutdown
+	Promise.resolve(Analytics.flush()).catch((error) => analyticsLogger.warn('Failed to flush spooled events:', error))
 }
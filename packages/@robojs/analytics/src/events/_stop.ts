@@ -0,0 +1,5 @@
+import { closeAnalytics } from '../core/analytics.js'
+
+export default async () => {
+	await closeAnalytics()
+}
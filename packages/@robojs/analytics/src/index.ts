@@ -1,4 +1,10 @@
 export { GoogleAnalytics } from './engines/google-analytics.js'
 export { PlausibleAnalytics } from './engines/plausible.js'
 export { ManyEngines } from './engines/many.js'
+export { FlashcoreAnalytics } from './engines/flashcore.js'
 export { Analytics } from './core/analytics.js'
+export { DeliveryQueue } from './core/queue.js'
+export { getActiveUsers, getGuildUsage, getTopCommands } from './core/stats.js'
+export type { ActiveUsers, ApiAuthorizer, CommandUsage, GuildUsage, StatsQuery } from './core/stats.js'
+export type { BatchSender, QueueOptions } from './core/queue.js'
+export type { TelemetryOptions, TelemetryType } from './core/telemetry.js'
@@ -0,0 +1,16 @@
+import { trackHandler } from '../core/telemetry.js'
+import type { MiddlewareAfterData, MiddlewareConfig } from 'robo.js'
+
+export const config: MiddlewareConfig = {
+	scope: ['api', 'commands', 'components', 'context', 'modals']
+}
+
+/**
+ * Only set while automatic tracking is enabled via the `auto` plugin option.
+ * Handlers with an `after` hook in scope are always awaited, so it's left out entirely otherwise.
+ */
+export let after: ((data: MiddlewareAfterData) => void) | undefined
+
+export function setAutoTracking(enabled: boolean) {
+	after = enabled ? trackHandler : undefined
+}
@@ -0,0 +1,60 @@
+import { describe, test, expect } from '@jest/globals'
+import { getCatchUpRuns, getMissedRuns, MaxCatchUpRuns } from '../src/core/schedule.js'
+
+describe('Catch-up Scheduling', () => {
+	describe('getMissedRuns', () => {
+		test('should list every run between the last run and now', () => {
+			const since = new Date('2025-01-01T00:30:00Z')
+			const now = new Date('2025-01-01T03:15:00Z')
+
+			const missed = getMissedRuns('0 0 * * * *', since, now, 'UTC')
+
+			expect(missed.map((date) => date.toISOString())).toEqual([
+				'2025-01-01T01:00:00.000Z',
+				'2025-01-01T02:00:00.000Z',
+				'2025-01-01T03:00:00.000Z'
+			])
+		})
+
+		test('should return nothing when no run was missed', () => {
+			const since = new Date('2025-01-01T01:00:00Z')
+			const now = new Date('2025-01-01T01:59:59Z')
+
+			expect(getMissedRuns('0 0 * * * *', since, now, 'UTC')).toEqual([])
+		})
+
+		test('should evaluate the expression in the job timezone', () => {
+			const since = new Date('2025-01-01T00:00:00Z')
+			const now = new Date('2025-01-02T00:00:00Z')
+
+			// Midnight in New York is 05:00 UTC during winter
+			const missed = getMissedRuns('0 0 0 * * *', since, now, 'America/New_York')
+
+			expect(missed.map((date) => date.toISOString())).toEqual(['2025-01-01T05:00:00.000Z'])
+		})
+
+		test('should stop at the catch-up limit', () => {
+			const since = new Date('2025-01-01T00:00:00Z')
+			const now = new Date('2025-01-01T01:00:00Z')
+
+			expect(getMissedRuns('* * * * * *', since, now, 'UTC')).toHaveLength(MaxCatchUpRuns)
+		})
+	})
+
+	describe('getCatchUpRuns', () => {
+		const missed = [new Date('2025-01-01T01:00:00Z'), new Date('2025-01-01T02:00:00Z')]
+
+		test('should run every missed run with "all"', () => {
+			expect(getCatchUpRuns('all', missed)).toBe(2)
+		})
+
+		test('should run once with "once"', () => {
+			expect(getCatchUpRuns('once', missed)).toBe(1)
+			expect(getCatchUpRuns('once', [])).toBe(0)
+		})
+
+		test('should never run with "skip"', () => {
+			expect(getCatchUpRuns('skip', missed)).toBe(0)
+		})
+	})
+})
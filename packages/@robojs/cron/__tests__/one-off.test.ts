@@ -0,0 +1,133 @@
+import { describe, test, expect, afterEach, beforeAll } from '@jest/globals'
+import { Flashcore } from 'robo.js'
+import { Cron } from '../src/core/cron.js'
+import { getIndex, NAMESPACE } from '../src/core/store.js'
+import type { FlashcoreAdapter } from 'robo.js'
+
+const store = new Map<string, unknown>()
+
+// Keys whose next read takes a while, like a slow database would
+const slowReads = new Set<string>()
+
+const adapter: FlashcoreAdapter = {
+	clear: () => store.clear(),
+	delete: (key) => store.delete(key),
+	get: async (key) => {
+		if (slowReads.delete(key)) {
+			await new Promise((resolve) => setTimeout(resolve, 200))
+		}
+		return store.get(key)
+	},
+	has: (key) => store.has(key),
+	init: () => {},
+	keys: (prefix = '') => [...store.keys()].filter((key) => key.startsWith(prefix)),
+	set: (key, value) => {
+		store.set(key, value)
+		return true
+	}
+}
+
+// Track all created cron jobs for cleanup
+const createdJobs: Array<ReturnType<typeof Cron>> = []
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+	const startTime = Date.now()
+	while (!condition()) {
+		if (Date.now() - startTime > timeoutMs) {
+			throw new Error('Timeout waiting for condition')
+		}
+		await new Promise((resolve) => setTimeout(resolve, 25))
+	}
+}
+
+describe('One-off Cron Jobs', () => {
+	beforeAll(async () => {
+		await Flashcore.$init({ adapter })
+	})
+
+	afterEach(() => {
+		for (const job of createdJobs) {
+			job.stop()
+		}
+		createdJobs.length = 0
+	})
+
+	test('should run once with the payload after a delay', async () => {
+		const calls: unknown[] = []
+		const job = Cron.in(
+			1500,
+			(_jobId, payload) => {
+				calls.push(payload)
+			},
+			{ giveawayId: 'abc' }
+		)
+		createdJobs.push(job)
+
+		await waitFor(() => calls.length > 0)
+		await new Promise((resolve) => setTimeout(resolve, 200))
+
+		expect(calls).toEqual([{ giveawayId: 'abc' }])
+		expect(job.lastRun()).toBeInstanceOf(Date)
+	})
+
+	test('should run right away when the date has already passed', async () => {
+		const calls: string[] = []
+		const job = Cron.at(Date.now() - 60_000, (jobId) => {
+			calls.push(jobId)
+		})
+		createdJobs.push(job)
+
+		await waitFor(() => calls.length > 0, 500)
+
+		expect(calls).toHaveLength(1)
+	})
+
+	test('should not run when stopped before it is due', async () => {
+		const calls: string[] = []
+		const job = Cron.at(new Date(Date.now() - 1000), (jobId) => {
+			calls.push(jobId)
+		})
+		job.stop()
+
+		await new Promise((resolve) => setTimeout(resolve, 100))
+
+		expect(calls).toEqual([])
+	})
+
+	test('should not be saved again when an overdue run finishes first', async () => {
+		const calls: string[] = []
+		const job = Cron.at(Date.now() - 1000, (jobId) => {
+			calls.push(jobId)
+		})
+		createdJobs.push(job)
+
+		// Without waiting for the save, the run would finish and clean up while the save is still reading
+		slowReads.add(`${NAMESPACE}__overdue`)
+		await job.save('overdue')
+
+		await waitFor(() => calls.length > 0)
+		await new Promise((resolve) => setTimeout(resolve, 100))
+
+		expect(calls).toEqual(['overdue'])
+		expect(await getIndex()).toEqual([])
+		expect(await Flashcore.get('overdue', { namespace: NAMESPACE })).toBeUndefined()
+	})
+
+	test('should not save one-off jobs that already ran', async () => {
+		const calls: string[] = []
+		const job = Cron.at(Date.now() - 1000, (jobId) => {
+			calls.push(jobId)
+		})
+		createdJobs.push(job)
+
+		await waitFor(() => calls.length > 0)
+		await job.save('already-ran')
+
+		expect(await getIndex()).toEqual([])
+		expect(await Cron.list()).toEqual([])
+	})
+
+	test('should reject invalid dates', () => {
+		expect(() => Cron.at('not a date', () => {})).toThrow('Invalid date')
+	})
+})
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals'
 import { Cron } from '../src/core/cron.js'
+import { cronLogger } from '../src/core/loggers.js'
 import fs from 'node:fs'
 import path from 'node:path'
 import os from 'node:os'
@@ -71,7 +72,7 @@ export default async function testHandler(jobId) {
 
         // Trigger the job manually
         const cronJobAny = cronJob as any
-        cronJobAny.executeFileBasedJob(relativePath, jobId)
+        await cronJobAny.runFileBasedJob(relativePath, jobId)
 
         // Wait for async execution deterministically
         await waitForExecution(1)
@@ -107,7 +108,7 @@ export default async function testHandler(jobId) {
 
       // Trigger the job manually by accessing private method through type assertion
       const cronJobAny = cronJob as any
-      cronJobAny.executeFileBasedJob(testHandlerPath, jobId)
+      await cronJobAny.runFileBasedJob(testHandlerPath, jobId)
 
       // Wait for async execution deterministically
       await waitForExecution(1)
@@ -128,7 +129,7 @@ export default async function testHandler(jobId) {
 
       // Trigger the job manually
       const cronJobAny = cronJob as any
-      cronJobAny.executeFileBasedJob(testHandlerPath, jobId)
+      await cronJobAny.runFileBasedJob(testHandlerPath, jobId)
 
       // Wait for async execution deterministically
       await waitForExecution(1)
@@ -164,7 +165,7 @@ export default async function testHandler(jobId) {
 
       // Trigger the job manually
       const cronJobAny = cronJob as any
-      cronJobAny.executeFileBasedJob(absolutePath, jobId)
+      await cronJobAny.runFileBasedJob(absolutePath, jobId)
 
       // Wait for async execution deterministically
       await waitForExecution(1)
@@ -197,7 +198,7 @@ module.exports = async function testHandler(jobId) {
 
         // Trigger the job manually
         const cronJobAny = cronJob as any
-        cronJobAny.executeFileBasedJob(tmpPath, jobId)
+        await cronJobAny.runFileBasedJob(tmpPath, jobId)
 
         // Wait for async execution deterministically
         await waitForExecution(1)
@@ -236,7 +237,7 @@ module.exports = async function testHandler(jobId) {
 
         // Trigger the job manually
         const cronJobAny = cronJob as any
-        cronJobAny.executeFileBasedJob(tmpPath, jobId)
+        await cronJobAny.runFileBasedJob(tmpPath, jobId)
 
         // Wait for async execution deterministically
         await waitForExecution(1)
@@ -258,9 +259,8 @@ module.exports = async function testHandler(jobId) {
 
   describe('Error Handling', () => {
     test('should log error for non-existent relative path', async () => {
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const errorSpy = jest.spyOn(cronLogger, 'error').mockImplementation(() => {})
       const relativePath = '/nonexistent/handler.js'
-      const jobId = 'test-missing-relative'
 
       // Create cron job with non-existent relative path
       const cronJob = Cron('*/5 * * * *', relativePath)
@@ -268,21 +268,21 @@ module.exports = async function testHandler(jobId) {
 
       // Trigger the job manually
       const cronJobAny = cronJob as any
-      cronJobAny.executeFileBasedJob(relativePath, jobId)
+      await cronJobAny.run()
 
-      // Wait a bit to ensure execution attempt completes
-      await new Promise(resolve => setTimeout(resolve, 200))
-
-      // Verify handler was not executed
+      // Verify handler was not executed and the failure was logged
       expect(global.testExecutions).toEqual([])
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('failed'),
+        expect.objectContaining({ message: expect.stringContaining('does not exist') })
+      )
 
-      consoleSpy.mockRestore()
+      errorSpy.mockRestore()
     })
 
     test('should log error for non-existent absolute path', async () => {
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const errorSpy = jest.spyOn(cronLogger, 'error').mockImplementation(() => {})
       const absolutePath = path.join(os.tmpdir(), 'completely-nonexistent-handler.js')
-      const jobId = 'test-missing-absolute'
 
       // Ensure path doesn't exist
       if (fs.existsSync(absolutePath)) {
@@ -295,15 +295,16 @@ module.exports = async function testHandler(jobId) {
 
       // Trigger the job manually
       const cronJobAny = cronJob as any
-      cronJobAny.executeFileBasedJob(absolutePath, jobId)
-
-      // Wait a bit to ensure execution attempt completes
-      await new Promise(resolve => setTimeout(resolve, 200))
+      await cronJobAny.run()
 
-      // Verify handler was not executed
+      // Verify handler was not executed and the failure was logged
       expect(global.testExecutions).toEqual([])
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('failed'),
+        expect.objectContaining({ message: expect.stringContaining('does not exist') })
+      )
 
-      consoleSpy.mockRestore()
+      errorSpy.mockRestore()
     })
   })
 
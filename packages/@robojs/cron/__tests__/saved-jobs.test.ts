@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals'
+import path from 'node:path'
+import { Flashcore } from 'robo.js'
+import { Cron } from '../src/core/cron.js'
+import { getIndex, NAMESPACE } from '../src/core/store.js'
+import restoreJobs from '../src/events/_start.js'
+import type { FlashcoreAdapter } from 'robo.js'
+
+const store = new Map<string, unknown>()
+
+// Keeps Flashcore in memory so every test starts empty
+const adapter: FlashcoreAdapter = {
+	clear: () => store.clear(),
+	delete: (key) => store.delete(key),
+	get: (key) => store.get(key),
+	has: (key) => store.has(key),
+	init: () => {},
+	keys: (prefix = '') => [...store.keys()].filter((key) => key.startsWith(prefix)),
+	set: (key, value) => {
+		store.set(key, value)
+		return true
+	}
+}
+
+// Track all created cron jobs for cleanup
+const createdJobs: Array<ReturnType<typeof Cron>> = []
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 3000): Promise<void> {
+	const startTime = Date.now()
+	while (!(await condition())) {
+		if (Date.now() - startTime > timeoutMs) {
+			throw new Error('Timeout waiting for condition')
+		}
+		await new Promise((resolve) => setTimeout(resolve, 25))
+	}
+}
+
+async function saveJobData(id: string, data: Record<string, unknown>) {
+	await Flashcore.set(id, data, { namespace: NAMESPACE })
+	await Flashcore.set('jobs', (jobs: string[] = []) => [...jobs, id], { namespace: NAMESPACE })
+}
+
+describe('Saved Cron Jobs', () => {
+	beforeAll(async () => {
+		await Flashcore.$init({ adapter })
+	})
+
+	beforeEach(() => {
+		store.clear()
+	})
+
+	afterEach(async () => {
+		for (const job of createdJobs) {
+			job.stop()
+		}
+		createdJobs.length = 0
+
+		for (const id of await getIndex()) {
+			Cron.get(id)?.stop()
+			await Cron.remove(id)
+		}
+	})
+
+	describe('Cron.list', () => {
+		test('should list saved jobs with their schedule', async () => {
+			const job = Cron('0 0 * * *', () => {}, { payload: { channelId: '123' } })
+			createdJobs.push(job)
+			await job.save('daily-digest')
+
+			const jobs = await Cron.list()
+
+			expect(jobs).toEqual([
+				{
+					cron: '0 0 * * *',
+					id: 'daily-digest',
+					lastRun: null,
+					nextRun: expect.any(Date),
+					once: false,
+					path: undefined,
+					payload: { channelId: '123' }
+				}
+			])
+		})
+
+		test('should leave out removed jobs', async () => {
+			const job = Cron('0 0 * * *', () => {})
+			createdJobs.push(job)
+			await job.save('removed')
+
+			await Cron.remove('removed')
+
+			expect(await Cron.list()).toEqual([])
+			expect(Cron.get('removed')).toBeNull()
+		})
+	})
+
+	describe('Cron.history', () => {
+		test('should record failed runs and keep them after a one-off job finishes', async () => {
+			const job = Cron.at(Date.now() - 1000, () => {
+				throw new Error('Reminder failed')
+			})
+			createdJobs.push(job)
+			await job.save('reminder')
+
+			await waitFor(async () => (await Cron.history('reminder')).length > 0)
+			await waitFor(async () => (await getIndex()).length === 0)
+
+			const [run] = await Cron.history('reminder')
+			expect(run).toEqual({
+				duration: expect.any(Number),
+				end: expect.any(String),
+				error: 'Reminder failed',
+				start: expect.any(String)
+			})
+			expect(await Cron.list()).toEqual([])
+		})
+
+		test('should return nothing for unknown jobs', async () => {
+			expect(await Cron.history('unknown')).toEqual([])
+		})
+	})
+
+	describe('Restoring jobs on start', () => {
+		test('should restore file-based jobs', async () => {
+			const handlerPath = path.resolve(process.cwd(), '__tests__/fixtures/test-handler.mjs')
+			await saveJobData('file-job', { cron: '0 0 * * *', path: handlerPath, payload: 'hello' })
+
+			await restoreJobs()
+
+			expect(Cron.get('file-job')?.nextRun()).toBeInstanceOf(Date)
+			expect(await getIndex()).toEqual(['file-job'])
+		})
+
+		test('should keep function jobs until they are created again', async () => {
+			await saveJobData('function-job', { cron: '0 0 * * *' })
+			await saveJobData('future-one-off', { cron: new Date(Date.now() + 60_000).toISOString(), once: true })
+
+			await restoreJobs()
+
+			expect(await getIndex()).toEqual(['function-job', 'future-one-off'])
+			expect(Cron.get('function-job')).toBeNull()
+		})
+
+		test('should clean up one-off jobs that finished or can no longer run', async () => {
+			const past = new Date(Date.now() - 60_000).toISOString()
+			await saveJobData('finished-one-off', { cron: past, lastRun: past, once: true, path: '/cron/reminder.js' })
+			await saveJobData('overdue-function-one-off', { cron: past, once: true })
+			await Flashcore.set('jobs', (jobs: string[] = []) => [...jobs, 'missing-data'], { namespace: NAMESPACE })
+
+			await restoreJobs()
+
+			expect(await getIndex()).toEqual([])
+			expect(await Flashcore.get('finished-one-off', { namespace: NAMESPACE })).toBeUndefined()
+			expect(await Flashcore.get('overdue-function-one-off', { namespace: NAMESPACE })).toBeUndefined()
+		})
+	})
+})
@@ -1,98 +1,250 @@
 import { cronLogger } from './loggers.js'
+import { getCatchUpRuns, getMissedRuns } from './schedule.js'
+import { addToIndex, getHistory, getIndex, getJobData, NAMESPACE, recordRun, removeJobData } from './store.js'
 import { IS_BUN_RUNTIME } from './utils.js'
 import fs from 'node:fs'
 import path from 'node:path'
 import { pathToFileURL } from 'node:url'
 import { Cron as CronerJob } from 'croner'
-import { color, Flashcore, getState, setState } from 'robo.js'
+import { color, Flashcore, getState, setState, Shards } from 'robo.js'
 import { v4 as uuidv4 } from 'uuid'
+import type { CatchUpPolicy, CronJobData } from './schedule.js'
+import type { CronRun } from './store.js'
 
-const NAMESPACE = '__plugin_cron_'
+export type { CatchUpPolicy } from './schedule.js'
+export type { CronRun } from './store.js'
+
+/** Receives the job ID and the job's `payload`, if any. */
+export type CronJobHandler = (jobId: string, payload?: unknown) => void | Promise<void>
+
+export interface CronJobInfo {
+	/** Cron expression, or an ISO timestamp for one-off jobs. */
+	cron: string
+	id: string
+	lastRun: Date | null
+	/** Next scheduled run, if the job is loaded in this process. */
+	nextRun: Date | null
+	once: boolean
+	path?: string
+	payload?: unknown
+}
+
+export interface CronOptions {
+	/** Run on every shard instead of only the leader shard. Saved along with the job. Defaults to `false`. */
+	allShards?: boolean
+	/** What to do with runs missed while offline. Only applies to saved jobs. Defaults to `skip`. */
+	catchUp?: CatchUpPolicy
+	/** JSON value passed to the handler after the job ID. Saved along with the job. */
+	payload?: unknown
+	/** Skip a run while the previous one is still going. Defaults to `true`. */
+	protect?: boolean
+	/** IANA timezone to evaluate the expression in, such as `America/New_York`. Defaults to the system timezone. */
+	timezone?: string
+}
 
 class CronJob {
 	private cronJob: CronerJob
 	private id: string
 	private path?: string
 	private expression: string
+	private jobFunction: CronJobHandler
+	private lastRunAt: Date | null = null
+	private once: boolean
+	private options: CronOptions
+	private overdueTimer: NodeJS.Timeout | null = null
+	private running = false
+	private saving: Promise<unknown> | null = null
 
-	constructor(cronExpression: string, jobFunction: string | (() => void)) {
+	constructor(cronExpression: string | Date, jobFunction: string | CronJobHandler, options: CronOptions = {}) {
 		this.id = uuidv4()
-		this.expression = cronExpression
+		this.expression = cronExpression instanceof Date ? cronExpression.toISOString() : cronExpression
+		this.once = cronExpression instanceof Date
+		this.options = options
 
 		if (typeof jobFunction === 'string') {
 			this.path = jobFunction
-			this.cronJob = new CronerJob(cronExpression, () => {
-				const jobId = this.id
-				this.executeFileBasedJob(jobFunction, jobId)
-			})
+			this.jobFunction = (jobId, payload) => this.runFileBasedJob(jobFunction, jobId, payload)
 		} else {
-			this.cronJob = new CronerJob(cronExpression, jobFunction)
+			this.jobFunction = jobFunction
+		}
+
+		this.cronJob = new CronerJob(cronExpression, { timezone: options.timezone }, () => this.run())
+
+		// One-off jobs that are already due (such as ones restored after a restart) run as soon as possible
+		if (cronExpression instanceof Date && cronExpression.getTime() <= Date.now()) {
+			this.overdueTimer = setTimeout(() => this.run(), 0)
 		}
 	}
 
-	private executeFileBasedJob(jobPath: string, jobId: string): void {
-		try {
-			// Normalize the relative job path by removing leading slashes
-			const relativeJobPath = jobPath.replace(/^\/+/, '')
-
-			// Determine the absolute path
-			let absolutePath: string
-			if (path.isAbsolute(jobPath) && fs.existsSync(jobPath)) {
-				// Use the absolute path directly if it exists
-				absolutePath = jobPath
+	private async runFileBasedJob(jobPath: string, jobId: string, payload?: unknown): Promise<void> {
+		// Normalize the relative job path by removing leading slashes
+		const relativeJobPath = jobPath.replace(/^\/+/, '')
+
+		// Determine the absolute path
+		let absolutePath: string
+		if (path.isAbsolute(jobPath) && fs.existsSync(jobPath)) {
+			// Use the absolute path directly if it exists
+			absolutePath = jobPath
+		} else {
+			// Resolve relative to .robo/build directory
+			absolutePath = path.resolve(process.cwd(), '.robo', 'build', relativeJobPath)
+		}
+		cronLogger.debug(`Executing cron job handler: ${color.bold(jobPath)}`)
+
+		if (!fs.existsSync(absolutePath) && absolutePath.endsWith('.js') && IS_BUN_RUNTIME) {
+			absolutePath = absolutePath.replace(/\.js$/, '.ts')
+		}
+
+		if (fs.existsSync(absolutePath)) {
+			const fileUrl = pathToFileURL(absolutePath).href
+			const module = await import(fileUrl)
+
+			if (typeof module.default === 'function') {
+				await module.default(jobId, payload)
 			} else {
-				// Resolve relative to .robo/build directory
-				absolutePath = path.resolve(process.cwd(), '.robo', 'build', relativeJobPath)
+				throw new Error(`Missing default export for job: ${color.bold(jobPath)}`)
 			}
-			cronLogger.debug(`Executing cron job handler: ${color.bold(jobPath)}`)
+		} else {
+			throw new Error(`File ${color.bold(jobPath)} does not exist.`)
+		}
+	}
 
-			if (!fs.existsSync(absolutePath) && absolutePath.endsWith('.js') && IS_BUN_RUNTIME) {
-				absolutePath = absolutePath.replace(/\.js$/, '.ts')
-			}
+	// Runs the missed runs allowed by the catch-up policy, one after another
+	private async catchUp(since: Date): Promise<void> {
+		const policy = this.options.catchUp ?? 'skip'
+		if (policy === 'skip' || this.once) {
+			return
+		}
 
-			if (fs.existsSync(absolutePath)) {
-				const fileUrl = pathToFileURL(absolutePath).href
-				import(fileUrl).then((module) => {
-					if (typeof module.default === 'function') {
-						module.default(jobId)
-					} else {
-						throw new Error(`Missing default export for job: ${color.bold(jobPath)}`)
-					}
-				})
-			} else {
-				cronLogger.error(`File ${color.bold(jobPath)} does not exist.`)
+		const missed = getMissedRuns(this.expression, since, new Date(), this.options.timezone)
+		const runs = getCatchUpRuns(policy, missed)
+
+		if (runs > 0) {
+			cronLogger.info(`Catching up on ${runs} missed run(s) of cron job ${color.bold(this.id)}`)
+		}
+		for (let i = 0; i < runs; i++) {
+			await this.run()
+		}
+	}
+
+	private async run(): Promise<void> {
+		// Let a save in progress write the job first, so a one-off run can't clean up its data before the write lands
+		await this.saving
+
+		// Each shard schedules the same jobs, so only the leader runs them unless they're meant for every shard
+		if (!this.options.allShards && !Shards.isLeader()) {
+			return
+		}
+
+		if (this.running && this.options.protect !== false) {
+			cronLogger.warn(`Skipping cron job ${color.bold(this.id)} because its previous run is still in progress.`)
+			return
+		}
+
+		// Only saved jobs keep their runs. Removed jobs are cleared from State, so they stop here too
+		const saved = Cron.get(this.id) === this
+		const start = new Date()
+		let error: unknown
+
+		this.running = true
+		this.lastRunAt = start
+
+		try {
+			await this.jobFunction(this.id, this.options.payload)
+		} catch (e) {
+			error = e
+			cronLogger.error(`Cron job ${color.bold(this.id)} failed:`, e)
+		} finally {
+			this.running = false
+		}
+
+		if (!saved) {
+			return
+		}
+
+		try {
+			const end = new Date()
+			await Flashcore.update<CronJobData>(this.id, (data) => ({ ...data, lastRun: start.toISOString() }), {
+				namespace: NAMESPACE
+			})
+			await recordRun(this.id, {
+				duration: end.getTime() - start.getTime(),
+				end: end.toISOString(),
+				...(error !== undefined && { error: error instanceof Error ? error.message : String(error) }),
+				start: start.toISOString()
+			})
+
+			// One-off jobs are done after their run, but their history stays available
+			if (this.once) {
+				await removeJobData(this.id)
+				setState(`${this.id}`, null, { namespace: NAMESPACE })
 			}
-		} catch (error) {
-			cronLogger.error(error)
+		} catch (e) {
+			cronLogger.error(`Failed to record run of cron job ${color.bold(this.id)}:`, e)
+		}
+	}
+
+	private toData(): CronJobData {
+		return {
+			allShards: this.options.allShards,
+			catchUp: this.options.catchUp,
+			cron: this.expression,
+			lastRun: this.lastRunAt?.toISOString(),
+			once: this.once || undefined,
+			path: this.path,
+			payload: this.options.payload,
+			protect: this.options.protect,
+			timezone: this.options.timezone
 		}
 	}
 
-	async save(id?: string): Promise<string> {
+	save(id?: string): Promise<string> {
+		const saving = this.persist(id)
+		this.saving = saving.catch(() => undefined)
+
+		return saving
+	}
+
+	private async persist(id?: string): Promise<string> {
 		const jobId = id || this.id
+
+		// One-off jobs that already ran before being saved are done, so there's nothing left to restore
+		if (this.once && this.lastRunAt) {
+			cronLogger.debug(`Not saving one-off cron job ${color.bold(jobId)} because it already ran`)
+			return jobId
+		}
+
 		this.id = jobId
 		setState(`${jobId}`, this, { namespace: NAMESPACE })
 
-		if (!this.path) {
-			cronLogger.debug('Only file-based cron jobs can be saved.')
-			return jobId
+		if (!this.path && !id) {
+			cronLogger.warn('Pass an ID when saving function-based cron jobs so they can be matched again after a restart.')
 		}
 
-		await Flashcore.set(jobId, { cron: this.expression, path: this.path }, { namespace: NAMESPACE })
+		// Pick up where a previous process left off
+		const existing = await getJobData(jobId)
+		const previousRun = existing?.lastRun ? new Date(existing.lastRun) : null
+		if (previousRun && (!this.lastRunAt || previousRun > this.lastRunAt)) {
+			this.lastRunAt = previousRun
+		}
 
-		await Flashcore.set(
-			'jobs',
-			(jobs: string[] = []) => {
-				if (!jobs.includes(jobId)) {
-					jobs.push(jobId)
-				}
-				return jobs
-			},
-			{ namespace: NAMESPACE }
-		)
+		await Flashcore.set(jobId, this.toData(), { namespace: NAMESPACE })
+		await addToIndex(jobId)
+
+		if (previousRun && !this.once) {
+			this.catchUp(previousRun).catch((error) => {
+				cronLogger.error(`Failed to catch up on cron job ${color.bold(jobId)}:`, error)
+			})
+		}
 
 		return jobId
 	}
 
+	/** Returns when the job last ran, including runs from before a restart for saved jobs. */
+	lastRun(): Date | null {
+		return this.lastRunAt
+	}
+
 	pause(): void {
 		this.cronJob.pause()
 	}
@@ -102,6 +254,11 @@ class CronJob {
 	}
 
 	stop(): void {
+		if (this.overdueTimer) {
+			clearTimeout(this.overdueTimer)
+			this.overdueTimer = null
+		}
+
 		this.cronJob.stop()
 	}
 
@@ -110,19 +267,76 @@ class CronJob {
 	}
 }
 
-export function Cron(cronExpression: string, jobFunction: string | (() => void)): CronJob {
-	return new CronJob(cronExpression, jobFunction)
+export function Cron(
+	cronExpression: string | Date,
+	jobFunction: string | CronJobHandler,
+	options?: CronOptions
+): CronJob {
+	return new CronJob(cronExpression, jobFunction, options)
+}
+
+/**
+ * Creates a job that runs once at a specific time, passing `payload` to the handler after the job ID.
+ * Save file-based one-off jobs to run them even if your Robo restarts first. Times in the past run right away.
+ */
+Cron.at = (
+	date: Date | number | string,
+	jobFunction: string | CronJobHandler,
+	payload?: unknown,
+	options?: Pick<CronOptions, 'allShards' | 'protect'>
+): CronJob => {
+	const runAt = new Date(date)
+	if (isNaN(runAt.getTime())) {
+		throw new Error(`Invalid date for one-off cron job: ${date}`)
+	}
+
+	return new CronJob(runAt, jobFunction, { ...options, payload })
+}
+
+/** Same as `Cron.at()`, running `ms` milliseconds from now. */
+Cron.in = (
+	ms: number,
+	jobFunction: string | CronJobHandler,
+	payload?: unknown,
+	options?: Pick<CronOptions, 'allShards' | 'protect'>
+): CronJob => {
+	return Cron.at(Date.now() + ms, jobFunction, payload, options)
 }
 
 Cron.get = (id: string): CronJob | null => {
-	return getState(`${id}`, { namespace: NAMESPACE })
+	return getState<CronJob>(`${id}`, { namespace: NAMESPACE }) ?? null
 }
 
-Cron.remove = async (id: string): Promise<void> => {
-	await Flashcore.delete(id, { namespace: NAMESPACE })
-	await Flashcore.set('jobs', (jobs: string[] = []) => jobs.filter((jobId) => jobId !== id), {
-		namespace: NAMESPACE
-	})
+/** Returns the most recent runs of a saved job, oldest first. Kept after one-off jobs finish. */
+Cron.history = (id: string): Promise<CronRun[]> => {
+	return getHistory(id)
+}
+
+/** Lists every saved job, including function jobs waiting to be created again after a restart. */
+Cron.list = async (): Promise<CronJobInfo[]> => {
+	const jobs: CronJobInfo[] = []
 
+	for (const id of await getIndex()) {
+		const data = await getJobData(id)
+		if (!data) {
+			continue
+		}
+
+		jobs.push({
+			cron: data.cron,
+			id,
+			lastRun: data.lastRun ? new Date(data.lastRun) : null,
+			nextRun: Cron.get(id)?.nextRun() ?? null,
+			once: data.once ?? false,
+			path: data.path,
+			payload: data.payload
+		})
+	}
+
+	return jobs
+}
+
+Cron.remove = async (id: string): Promise<void> => {
+	await removeJobData(id, false)
 	setState(`${id}`, null, { namespace: NAMESPACE })
 }
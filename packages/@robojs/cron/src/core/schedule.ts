@@ -0,0 +1,59 @@
+import { Cron as CronerJob } from 'croner'
+
+/**
+ * What to do with runs missed while the Robo was offline, based on the job's last run:
+ * - `all`: run once for every missed run
+ * - `once`: run a single time if any were missed
+ * - `skip`: ignore them and wait for the next scheduled run
+ */
+export type CatchUpPolicy = 'all' | 'once' | 'skip'
+
+/** Job metadata persisted in Flashcore by `CronJob.save()`. */
+export interface CronJobData {
+	allShards?: boolean
+	catchUp?: CatchUpPolicy
+	/** Cron expression, or an ISO timestamp for one-off jobs. */
+	cron: string
+	/** ISO timestamp of the last time the job ran. */
+	lastRun?: string
+	/** Whether this is a one-off job created with `Cron.at()` or `Cron.in()`. */
+	once?: boolean
+	/** Handler file for file-based jobs. Function jobs only keep their metadata until they're created again. */
+	path?: string
+	/** JSON value passed to the handler after the job ID. */
+	payload?: unknown
+	protect?: boolean
+	timezone?: string
+}
+
+// Runs beyond this are dropped when catching up with `all`, so a long outage can't flood the handler
+export const MaxCatchUpRuns = 100
+
+/**
+ * Lists the times a cron expression would have fired after `since` and before `now`, oldest first.
+ * Stops at `MaxCatchUpRuns`.
+ */
+export function getMissedRuns(expression: string, since: Date, now = new Date(), timezone?: string): Date[] {
+	const pattern = new CronerJob(expression, { paused: true, timezone })
+	const missed: Date[] = []
+	let next = pattern.nextRun(since)
+
+	while (next && next < now && missed.length < MaxCatchUpRuns) {
+		missed.push(next)
+		next = pattern.nextRun(next)
+	}
+
+	pattern.stop()
+	return missed
+}
+
+/** Returns how many times to run a job to catch up with its missed runs. */
+export function getCatchUpRuns(policy: CatchUpPolicy, missed: Date[]): number {
+	if (policy === 'all') {
+		return missed.length
+	} else if (policy === 'once') {
+		return Math.min(1, missed.length)
+	}
+
+	return 0
+}
@@ -0,0 +1,66 @@
+import { Flashcore } from 'robo.js'
+import type { CronJobData } from './schedule.js'
+
+export const NAMESPACE = '__plugin_cron_'
+
+// Older runs are dropped once a job's history grows past this
+export const MaxHistory = 50
+
+/** A single run of a saved job, as recorded in its history. */
+export interface CronRun {
+	/** Milliseconds the run took. */
+	duration: number
+	/** ISO timestamp of when the run finished. */
+	end: string
+	/** Error message, if the run failed. */
+	error?: string
+	/** ISO timestamp of when the run started. */
+	start: string
+}
+
+export async function addToIndex(id: string) {
+	await Flashcore.set(
+		'jobs',
+		(jobs: string[] = []) => {
+			if (!jobs.includes(id)) {
+				jobs.push(id)
+			}
+			return jobs
+		},
+		{ namespace: NAMESPACE }
+	)
+}
+
+export async function getHistory(id: string): Promise<CronRun[]> {
+	return (await Flashcore.get<CronRun[]>(historyKey(id), { namespace: NAMESPACE })) ?? []
+}
+
+export async function getIndex(): Promise<string[]> {
+	return (await Flashcore.get<string[]>('jobs', { namespace: NAMESPACE })) ?? []
+}
+
+export async function getJobData(id: string) {
+	return Flashcore.get<CronJobData | undefined>(id, { namespace: NAMESPACE })
+}
+
+export async function recordRun(id: string, run: CronRun) {
+	await Flashcore.update<CronRun[] | undefined>(historyKey(id), (runs) => [...(runs ?? []), run].slice(-MaxHistory), {
+		namespace: NAMESPACE
+	})
+}
+
+/** Deletes a job's metadata and index entry. Its history is kept unless `keepHistory` is `false`. */
+export async function removeJobData(id: string, keepHistory = true) {
+	await Flashcore.delete(id, { namespace: NAMESPACE })
+	await Flashcore.set('jobs', (jobs: string[] = []) => jobs.filter((jobId) => jobId !== id), {
+		namespace: NAMESPACE
+	})
+
+	if (!keepHistory) {
+		await Flashcore.delete(historyKey(id), { namespace: NAMESPACE })
+	}
+}
+
+function historyKey(id: string) {
+	return 'history:' + id
+}
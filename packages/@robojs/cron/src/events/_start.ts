@@ -1,26 +1,39 @@
-import { color, Flashcore, setState } from 'robo.js'
+import { color, Shards } from 'robo.js'
 import { Cron } from '../core/cron.js'
 import { cronLogger } from '../core/loggers.js'
-
-const NAMESPACE = '__plugin_cron_'
+import { getIndex, getJobData, removeJobData } from '../core/store.js'
 
 export default async () => {
-	const jobIndex = (await Flashcore.get<string[]>('jobs', { namespace: NAMESPACE })) || []
+	const jobIndex = await getIndex()
+	const isLeader = Shards.isLeader()
 	cronLogger.debug(`Restoring ${jobIndex.length} cron jobs...`)
 
 	for (const jobId of jobIndex) {
-		const jobData = await Flashcore.get<{ cron: string; path: string }>(jobId, { namespace: NAMESPACE })
+		const jobData = await getJobData(jobId)
 
-		if (jobData) {
-			const { cron, path } = jobData
+		// Jobs that only run on the leader are restored and cleaned up there
+		if (!isLeader && !jobData?.allShards) {
+			continue
+		} else if (jobData?.once && jobData.lastRun) {
+			// One-off job that already ran, but stopped before it could be cleaned up
+			await removeJobData(jobId)
+		} else if (jobData?.path) {
+			const { allShards, catchUp, cron, once, path, payload, protect, timezone } = jobData
 			try {
-				const job = Cron(cron, path)
-				setState(`${jobId}`, job, { namespace: NAMESPACE })
+				const job = Cron(once ? new Date(cron) : cron, path, { allShards, catchUp, payload, protect, timezone })
+				await job.save(jobId)
 				cronLogger.debug(`Restored cron job: ${color.bold(jobId)} (${cron}) - ${path}`)
 			} catch (error) {
 				cronLogger.error(`Failed to restore cron job ${color.bold(jobId)}:`, error)
 				await Cron.remove(jobId)
 			}
+		} else if (jobData?.once && new Date(jobData.cron).getTime() <= Date.now() && !Cron.get(jobId)) {
+			// Function one-off jobs can't run unless they're created again before they're due
+			cronLogger.warn(`Removing function cron job ${color.bold(jobId)} that wasn't created again before it was due`)
+			await removeJobData(jobId)
+		} else if (jobData) {
+			// Function jobs can't be restored from storage; their metadata is picked up when they're saved again
+			cronLogger.debug(`Waiting for function cron job ${color.bold(jobId)} to be created again`)
 		} else {
 			cronLogger.warn(`Job data not found for ID ${color.bold(jobId)}`)
 			await Cron.remove(jobId)
@@ -0,0 +1,136 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, test, expect, beforeEach, afterAll, jest } from '@jest/globals'
+import { loadConfig } from 'robo.js/dist/core/config.js'
+
+const { checkLocales } = await import('../.robo/build/core/check')
+const { i18nLogger } = await import('../.robo/build/core/loggers')
+
+const writeJSON = (p: string, data: unknown, indent: string | number = 4) => {
+	fs.mkdirSync(path.dirname(p), { recursive: true })
+	fs.writeFileSync(p, JSON.stringify(data, null, indent))
+}
+
+const readJSON = (p: string) => JSON.parse(fs.readFileSync(p, 'utf-8'))
+
+describe('@robojs/i18n – check', () => {
+	const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-check-'))
+	const cwdOrig = process.cwd()
+
+	beforeEach(async () => {
+		process.chdir(tmp)
+		fs.rmSync(path.join(tmp, 'locales'), { recursive: true, force: true })
+		fs.rmSync(path.join(tmp, 'src'), { recursive: true, force: true })
+		fs.rmSync(path.join(tmp, 'config'), { recursive: true, force: true })
+		await loadConfig()
+
+		writeJSON(path.join(tmp, 'locales/en-US/app.json'), {
+			hello: 'Hello {$name}!',
+			goodbye: 'Bye {$name}',
+			ping: { name: 'ping', desc: 'Measure latency' }
+		})
+		writeJSON(path.join(tmp, 'locales/es-ES/app.json'), {
+			hello: '¡Hola!',
+			ping: { name: 'ping' },
+			legacy: 'Viejo'
+		})
+
+		fs.mkdirSync(path.join(tmp, 'src/commands'), { recursive: true })
+		fs.writeFileSync(
+			path.join(tmp, 'src/commands/ping.ts'),
+			'export const config = { descriptionKey: \'app:ping.desc\', nameKey: "app:ping.name" }\n' +
+				'export default (i) => t(i, `app:hello`, { name: i.user.username })\n'
+		)
+	})
+
+	afterAll(() => {
+		jest.restoreAllMocks()
+		process.chdir(cwdOrig)
+		fs.rmSync(tmp, { recursive: true, force: true })
+	})
+
+	test('reports missing, extra, placeholder and unused keys', () => {
+		const { fixed, issues } = checkLocales()
+
+		expect(fixed).toEqual([])
+		expect(issues).toEqual(
+			expect.arrayContaining([
+				{ key: 'app:goodbye', locale: 'es-ES', type: 'missing' },
+				{ key: 'app:ping.desc', locale: 'es-ES', type: 'missing' },
+				{ key: 'app:legacy', locale: 'es-ES', type: 'extra' },
+				{ details: 'missing $name', key: 'app:hello', locale: 'es-ES', type: 'placeholder' },
+				{ key: 'app:goodbye', type: 'unused' }
+			])
+		)
+		expect(issues).toHaveLength(5)
+	})
+
+	test('skips unused keys when sourceDir is false', () => {
+		const { issues } = checkLocales({ sourceDir: false })
+
+		expect(issues.some((issue) => issue.type === 'unused')).toBe(false)
+	})
+
+	test('compares against a custom default locale', () => {
+		const { issues } = checkLocales({ defaultLocale: 'es-ES', sourceDir: false })
+
+		expect(issues).toEqual(
+			expect.arrayContaining([
+				{ key: 'app:goodbye', locale: 'en-US', type: 'extra' },
+				{ key: 'app:legacy', locale: 'en-US', type: 'missing' },
+				{ details: 'unexpected $name', key: 'app:hello', locale: 'en-US', type: 'placeholder' }
+			])
+		)
+	})
+
+	test("skips unused keys with a warning when sourceDir doesn't exist", () => {
+		const warnSpy = jest.spyOn(i18nLogger, 'warn').mockImplementation(() => undefined)
+		fs.rmSync(path.join(tmp, 'src'), { recursive: true, force: true })
+
+		const { issues } = checkLocales({ fix: true })
+
+		expect(issues.some((issue) => issue.type === 'unused')).toBe(false)
+		expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('skipping the unused key check'))
+	})
+
+	test("defaults to the plugin's configured default locale", async () => {
+		writeJSON(path.join(tmp, 'config/robo.json'), { plugins: [['@robojs/i18n', { defaultLocale: 'es-ES' }]] })
+		await loadConfig()
+
+		const { issues } = checkLocales({ sourceDir: false })
+
+		expect(issues).toContainEqual({ key: 'app:goodbye', locale: 'en-US', type: 'extra' })
+		expect(issues.some((issue) => issue.locale === 'es-ES')).toBe(false)
+	})
+
+	test('throws when the default locale does not exist', () => {
+		expect(() => checkLocales({ defaultLocale: 'fr-FR' })).toThrow('fr-FR')
+	})
+
+	test('--fix stubs missing keys at the same path and keeps indentation', () => {
+		const { fixed, issues } = checkLocales({ fix: true, sourceDir: false })
+		const filePath = path.join(tmp, 'locales/es-ES/app.json')
+
+		expect(fixed.map((issue) => issue.key).sort()).toEqual(['app:goodbye', 'app:ping.desc'])
+		expect(issues.some((issue) => issue.type === 'missing')).toBe(false)
+		expect(readJSON(filePath)).toEqual({
+			hello: '¡Hola!',
+			ping: { name: 'ping', desc: 'Measure latency' },
+			legacy: 'Viejo',
+			goodbye: 'Bye {$name}'
+		})
+		expect(fs.readFileSync(filePath, 'utf-8')).toContain('\n    "hello"')
+		expect(checkLocales({ sourceDir: false }).issues.some((issue) => issue.type === 'missing')).toBe(false)
+	})
+
+	test('--fix creates files that only exist in the default locale', () => {
+		writeJSON(path.join(tmp, 'locales/en-US/shared/common.json'), { ok: 'OK' }, '\t')
+
+		checkLocales({ fix: true, sourceDir: false })
+
+		const filePath = path.join(tmp, 'locales/es-ES/shared/common.json')
+		expect(readJSON(filePath)).toEqual({ ok: 'OK' })
+		expect(fs.readFileSync(filePath, 'utf-8')).toContain('\n\t"ok"')
+	})
+})
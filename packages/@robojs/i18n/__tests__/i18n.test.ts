@@ -6,7 +6,9 @@ import { CommandConfig } from 'robo.js'
 
 const { clearFormatterCache } = await import('../.robo/build/core/formatter')
 const { loadLocales } = await import('../.robo/build/core/utils')
-const { t, tr, withLocale, createCommandConfig } = await import('../.robo/build/core/lib')
+const { t, tr, withLocale, createCommandConfig, createContextConfig } = await import('../.robo/build/core/lib')
+const { getLocalizations } = await import('../.robo/build/core/localizations')
+const { getFallbackChain } = await import('../.robo/build/core/locale')
 
 const writeJSON = (p: string, data: unknown) => {
 	fs.mkdirSync(path.dirname(p), { recursive: true })
@@ -221,6 +223,19 @@ describe('@robojs/i18n – README usage', () => {
 		)
 	})
 
+	test('Fallbacks: chains are followed recursively, then default', () => {
+		const fallbacks = { 'pt-BR': ['pt'], pt: ['es-ES'], default: ['en-US'] }
+
+		expect(getFallbackChain('pt-BR', fallbacks)).toEqual(['pt-BR', 'pt', 'es-ES', 'en-US'])
+		expect(getFallbackChain('fr-FR', fallbacks)).toEqual(['fr-FR', 'en-US'])
+		expect(getFallbackChain('en-US', fallbacks)).toEqual(['en-US'])
+		expect(getFallbackChain('en-US', undefined)).toEqual(['en-US'])
+	})
+
+	test('Fallbacks: cycles are ignored', () => {
+		expect(getFallbackChain('a', { a: ['b'], b: ['a', 'c'] })).toEqual(['a', 'b', 'c'])
+	})
+
 	test('createCommandConfig(): populates descriptions & localizations from keys', () => {
 		const cfg = createCommandConfig({
 			nameKey: 'commands:ping.name',
@@ -291,4 +306,46 @@ describe('@robojs/i18n – README usage', () => {
 			expect(option?.description).toBeUndefined()
 			expect(option?.descriptionLocalizations).toBeUndefined()
 		})
+
+	test('createCommandConfig(): localizes choices, parent and Sage messages', () => {
+		const cfg = createCommandConfig({
+			nameKey: 'commands:ping.name',
+			descriptionKey: 'commands:ping.desc',
+			parent: { descriptionKey: 'commands:ping.desc' },
+			sage: { cooldownMessageKey: 'app:ping' },
+			options: [
+				{
+					type: 'string',
+					name: 'text',
+					nameKey: 'commands:ping.arg.name',
+					choices: [
+						{ name: 'ping', nameKey: 'app:ping', value: 'ping' },
+						{ name: 'Manual', value: 'manual' }
+					]
+				}
+			]
+		} as const) as CommandConfig
+
+		expect(cfg.nameLocalizations).toEqual({ 'en-US': 'ping', 'es-ES': 'ping' })
+		expect('nameKey' in (cfg as any)).toBe(false)
+		expect(cfg.options?.[0]?.choices).toEqual([
+			{ name: 'Pong!', nameLocalizations: { 'en-US': 'Pong!', 'es-ES': '¡Pong!' }, value: 'ping' },
+			{ name: 'Manual', value: 'manual' }
+		])
+		expect(cfg.parent).toEqual({
+			description: 'Measure latency',
+			descriptionLocalizations: { 'en-US': 'Measure latency', 'es-ES': 'Medir latencia' }
+		})
+		expect(cfg.sage).toEqual({ cooldownMessage: { 'en-US': 'Pong!', 'es-ES': '¡Pong!' } })
+	})
+
+	test('createContextConfig(): fills nameLocalizations', () => {
+		const cfg = createContextConfig({ nameKey: 'commands:ping.arg.name' })
+
+		expect(cfg).toEqual({ nameLocalizations: { 'en-US': 'text', 'es-ES': 'texto' } })
+	})
+
+	test('getLocalizations(): maps every locale with the key', () => {
+		expect(getLocalizations('app:hello' as any)).toEqual({ 'en-US': 'Hello {$name}!', 'es-ES': '¡Hola {$name}!' })
+	})
 })
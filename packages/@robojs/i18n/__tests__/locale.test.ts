@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeAll, afterEach, jest } from '@jest/globals'
+import { Flashcore } from 'robo.js'
+import type { FlashcoreAdapter } from 'robo.js'
+
+const { getCachedPreference, resolveLocale, setUserLocale } = await import('../.robo/build/core/locale')
+
+const NAMESPACE = '@robojs/i18n'
+const store = new Map<string, unknown>()
+
+// Keeps Flashcore in memory, standing in for storage shared with other shards
+const adapter: FlashcoreAdapter = {
+	clear: () => store.clear(),
+	delete: (key) => store.delete(key),
+	get: (key) => store.get(key),
+	has: (key) => store.has(key),
+	init: () => {},
+	set: (key, value) => {
+		store.set(key, value)
+		return true
+	}
+}
+
+const interaction = (userId: string, locale = 'en-US') => ({ guildId: null, locale, user: { id: userId } })
+
+describe('@robojs/i18n – locale preferences', () => {
+	beforeAll(async () => {
+		await Flashcore.$init({ adapter })
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	test('resolveLocale(): reads preferences again once their cache expires', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		await setUserLocale('user-1', 'pt-BR')
+
+		// Another shard changes the preference
+		await Flashcore.set('user:user-1', 'es-ES', { namespace: NAMESPACE })
+		expect(await resolveLocale(interaction('user-1'))).toBe('pt-BR')
+
+		jest.setSystemTime(1_000_000 + 5 * 60_000)
+		expect(await resolveLocale(interaction('user-1'))).toBe('es-ES')
+		expect(getCachedPreference(interaction('user-1'))).toBe('es-ES')
+	})
+
+	test('resolveLocale(): also expires users without a preference', async () => {
+		jest.useFakeTimers({ now: 2_000_000 })
+		expect(await resolveLocale(interaction('user-2', 'fr'))).toBe('fr')
+
+		await Flashcore.set('user:user-2', 'de', { namespace: NAMESPACE })
+		expect(await resolveLocale(interaction('user-2', 'fr'))).toBe('fr')
+
+		jest.setSystemTime(2_000_000 + 5 * 60_000)
+		expect(await resolveLocale(interaction('user-2', 'fr'))).toBe('de')
+	})
+
+	test('getCachedPreference(): drops the least recently used preferences past the limit', async () => {
+		await setUserLocale('user-3', 'pt-BR')
+		await setUserLocale('user-4', 'es-ES')
+		expect(getCachedPreference(interaction('user-3'))).toBe('pt-BR')
+
+		for (let i = 0; i < 9_999; i++) {
+			await resolveLocale(interaction(`filler-${i}`))
+		}
+
+		expect(getCachedPreference(interaction('user-3'))).toBe('pt-BR')
+		expect(getCachedPreference(interaction('user-4'))).toBeNull()
+		expect(await resolveLocale(interaction('user-4'))).toBe('es-ES')
+	})
+})
@@ -1,6 +1,56 @@
 #!/usr/bin/env node
+import { checkLocales } from '~/core/check.js'
 import { i18nLogger } from '~/core/loggers.js'
 import { loadLocales } from '~/core/utils.js'
+import { loadConfig } from 'robo.js/dist/core/config.js'
 
-const time = loadLocales()
-i18nLogger.ready(`Locales built in ${time}ms`)
+const [command, ...args] = process.argv.slice(2)
+
+if (command === 'check') {
+	await check(args)
+} else {
+	const time = loadLocales()
+	i18nLogger.ready(`Locales built in ${time}ms`)
+}
+
+/**
+ * Audits locale files, exiting with code 1 when issues remain so CI can fail on them.
+ * The Robo config is loaded first so the plugin's `defaultLocale` applies.
+ *
+ * Usage: `i18n check [--fix] [--locale <locale>] [--src <dir>] [--no-unused]`
+ */
+async function check(args: string[]) {
+	const getValue = (flag: string) => {
+		const index = args.indexOf(flag)
+		return index === -1 ? undefined : args[index + 1]
+	}
+
+	try {
+		await loadConfig()
+		const { fixed, issues } = checkLocales({
+			defaultLocale: getValue('--locale'),
+			fix: args.includes('--fix'),
+			sourceDir: args.includes('--no-unused') ? false : getValue('--src')
+		})
+
+		for (const issue of issues) {
+			const where = issue.locale ? `[${issue.locale}] ` : ''
+			const details = issue.details ? ` (${issue.details})` : ''
+			i18nLogger.warn(`${where}${issue.type} key "${issue.key}"${details}`)
+		}
+
+		if (fixed.length) {
+			i18nLogger.info(`Stubbed ${fixed.length} missing key${fixed.length === 1 ? '' : 's'} from the default locale`)
+		}
+
+		if (issues.length) {
+			i18nLogger.error(`Found ${issues.length} locale issue${issues.length === 1 ? '' : 's'}`)
+			process.exitCode = 1
+		} else {
+			i18nLogger.ready('All locales are in sync')
+		}
+	} catch (error) {
+		i18nLogger.error(error instanceof Error ? error.message : error)
+		process.exitCode = 1
+	}
+}
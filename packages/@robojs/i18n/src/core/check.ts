@@ -0,0 +1,150 @@
+import { i18nLogger } from './loggers.js'
+import { readLocales } from './utils.js'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, extname, join } from 'node:path'
+import { getPluginOptions } from 'robo.js'
+import type { CheckLocalesOptions, CheckLocalesResult, LocaleData, LocaleIssue, PluginConfig } from './types.js'
+
+/** Matches both typed & untyped MF2 variables, e.g. `{$name}` or `{$count :number}`. */
+const VARIABLE_RE = /\{\s*\$([^\s:}]+)\s*(?:[:}])/g
+
+const SOURCE_EXTENSIONS = ['.cjs', '.js', '.jsx', '.mjs', '.mts', '.ts', '.tsx']
+
+/**
+ * Compares every locale against the default locale and reports keys that are missing, extra, or whose placeholders
+ * differ. Also reports keys that no source file references, unless `sourceDir` is `false` or doesn't exist.
+ *
+ * With `fix`, missing keys are stubbed from the default locale and left out of the returned issues.
+ */
+export function checkLocales(options: CheckLocalesOptions = {}): CheckLocalesResult {
+	const pluginConfig = getPluginOptions(join('@robojs', 'i18n')) as PluginConfig | null
+	const {
+		defaultLocale = pluginConfig?.defaultLocale ?? 'en-US',
+		fix = false,
+		localesDir = join(process.cwd(), 'locales')
+	} = options
+	const sourceDir = options.sourceDir === undefined ? join(process.cwd(), 'src') : options.sourceDir
+	const data = readLocales(localesDir)
+	const baseValues = data.localeValues[defaultLocale]
+
+	if (!baseValues) {
+		throw new Error(`Default locale "${defaultLocale}" was not found in ${localesDir}`)
+	}
+
+	const baseKeys = Object.keys(baseValues)
+	const issues: LocaleIssue[] = []
+
+	for (const locale of data.localeNames.filter((locale) => locale !== defaultLocale)) {
+		const values = data.localeValues[locale]!
+
+		for (const key of baseKeys) {
+			if (values[key] === undefined) {
+				issues.push({ key, locale, type: 'missing' })
+				continue
+			}
+
+			const expected = getPlaceholders(baseValues[key]!)
+			const actual = getPlaceholders(values[key]!)
+			const absent = expected.filter((name) => !actual.includes(name))
+			const unknown = actual.filter((name) => !expected.includes(name))
+
+			if (absent.length || unknown.length) {
+				const details = [
+					absent.length ? `missing ${absent.map((name) => '$' + name).join(', ')}` : null,
+					unknown.length ? `unexpected ${unknown.map((name) => '$' + name).join(', ')}` : null
+				]
+				issues.push({ details: details.filter(Boolean).join('; '), key, locale, type: 'placeholder' })
+			}
+		}
+
+		for (const key of Object.keys(values)) {
+			if (baseValues[key] === undefined) {
+				issues.push({ key, locale, type: 'extra' })
+			}
+		}
+	}
+
+	// Without sources every key would look unused, so skip the check rather than report them all
+	if (sourceDir !== false && !existsSync(sourceDir)) {
+		i18nLogger.warn(`Source folder ${sourceDir} was not found, skipping the unused key check`)
+	} else if (sourceDir !== false) {
+		const sources = getSourceFiles(sourceDir).map((file) => readFileSync(file, 'utf-8'))
+
+		for (const key of baseKeys) {
+			const quoted = [`'${key}'`, `"${key}"`, `\`${key}\``]
+			if (!sources.some((source) => quoted.some((literal) => source.includes(literal)))) {
+				issues.push({ key, type: 'unused' })
+			}
+		}
+	}
+
+	if (!fix) {
+		return { fixed: [], issues }
+	}
+
+	const fixed = issues.filter((issue) => issue.type === 'missing')
+	stubMissingKeys(fixed, data, defaultLocale, localesDir)
+
+	return { fixed, issues: issues.filter((issue) => issue.type !== 'missing') }
+}
+
+/** Collects unique variable names used by a message, or by every message in an array. */
+function getPlaceholders(value: string | string[]): string[] {
+	const names = new Set<string>()
+
+	for (const message of Array.isArray(value) ? value : [value]) {
+		for (const match of message.matchAll(VARIABLE_RE)) {
+			names.add(match[1]!)
+		}
+	}
+
+	return Array.from(names).sort()
+}
+
+/** Recursively collects source files that may reference locale keys. */
+function getSourceFiles(dirPath: string, fileList: string[] = []): string[] {
+	for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+		const fullPath = join(dirPath, entry.name)
+
+		if (entry.isDirectory()) {
+			getSourceFiles(fullPath, fileList)
+		} else if (SOURCE_EXTENSIONS.includes(extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+			fileList.push(fullPath)
+		}
+	}
+
+	return fileList
+}
+
+/** Copies missing keys from the default locale into the same file and path of each locale, keeping file indentation. */
+function stubMissingKeys(missing: LocaleIssue[], data: LocaleData, defaultLocale: string, localesDir: string) {
+	const files = new Map<string, { indent: string; json: Record<string, unknown> }>()
+
+	for (const { key, locale } of missing) {
+		const source = data.localeSources[defaultLocale]![key]!
+		const filePath = join(localesDir, locale!, source.file)
+		let file = files.get(filePath)
+
+		if (!file) {
+			const basePath = join(localesDir, defaultLocale, source.file)
+			const content = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : readFileSync(basePath, 'utf-8')
+			const json = existsSync(filePath) ? (JSON.parse(content) as Record<string, unknown>) : {}
+			file = { indent: content.match(/^([ \t]+)"/m)?.[1] ?? '    ', json }
+			files.set(filePath, file)
+		}
+
+		// Walk down to the parent object, creating nested objects where the default locale has them
+		let node = file.json
+		for (const segment of source.path.slice(0, -1)) {
+			node = (node[segment] ??= {}) as Record<string, unknown>
+		}
+
+		node[source.path[source.path.length - 1]!] = data.localeValues[defaultLocale]![key]
+		i18nLogger.debug(`Stubbed "${key}" for locale "${locale}" from "${defaultLocale}"`)
+	}
+
+	for (const [filePath, { indent, json }] of files) {
+		mkdirSync(dirname(filePath), { recursive: true })
+		writeFileSync(filePath, JSON.stringify(json, null, indent) + '\n', 'utf-8')
+	}
+}
@@ -1,6 +1,8 @@
 // @ts-expect-error - This is a generated file
 import type { LocaleKey, ParamsFor, ReturnOf } from '../../generated/types'
 import { getFormatter } from './formatter.js'
+import { getFallbackChain } from './locale.js'
+import { getDiscordLocalizations, getLocalizations, reportCoverage } from './localizations.js'
 import { i18nLogger } from './loggers.js'
 import {
 	flattenParams,
@@ -15,12 +17,14 @@ import { createCommandConfig as _createCommandConfig, getPluginOptions, State }
 import type {
 	BaseFromLocale,
 	LocaleCommandConfig,
+	LocaleContextConfig,
 	LocaleLike,
+	LocaleSageOptions,
 	MaybeArgs,
 	PluginConfig,
 	ValidatedCommandConfig
 } from './types'
-import type { SmartCommandConfig } from 'robo.js'
+import type { ContextConfig, SmartCommandConfig } from 'robo.js'
 
 let _isLoaded = false
 
@@ -28,9 +32,11 @@ let _isLoaded = false
  * Creates a **localized** command configuration for Robo.js projects.
  *
  * This is a drop-in replacement for `robo.js`’s `createCommandConfig` that:
- * - Accepts **key-based** fields (`nameKey`, `descriptionKey`, and per-option keys).
+ * - Accepts **key-based** fields (`nameKey`, `descriptionKey`, per-option and per-choice keys, `parent` keys for
+ *   subcommand groups, and Sage's `cooldownMessageKey`/`permissionMessageKey`).
  * - Resolves the default strings from the configured `defaultLocale` (plugin option).
- * - Auto-populates `nameLocalizations` and `descriptionLocalizations` for **all** discovered locales.
+ * - Auto-populates `nameLocalizations` and `descriptionLocalizations` for every discovered locale Discord supports,
+ *   warning when a locale only translates some of the command's keys.
  *
  * @param config - A command config that uses **namespaced** locale keys instead of raw strings.
  * @returns A standard `SmartCommandConfig` ready for Robo.js to register.
@@ -82,68 +88,136 @@ let _isLoaded = false
  * - All keys must use the **namespaced** form (`<folders>/<file>:` + `<json-key>`).
  */
 export function createCommandConfig<const C extends LocaleCommandConfig>(config: ValidatedCommandConfig<C>) {
-	// Load locales only once
-	if (!_isLoaded) {
-		loadLocales()
-		_isLoaded = true
+	const { defaultLocale, translate } = prepare()
+	const keys: LocaleKey[] = []
+	const localize = (key: LocaleKey) => {
+		keys.push(key)
+		return getDiscordLocalizations(key)
 	}
 
-	// Validate config
-	const localNames = loadLocalNames()
-	const descriptionKey = config.descriptionKey
-	const pluginConfig = getPluginOptions(join('@robojs', 'i18n')) as PluginConfig
-	const defaultLocale = pluginConfig?.defaultLocale || 'en-US'
-
-	if (descriptionKey) {
-		config.description = t(defaultLocale, descriptionKey) as unknown as string
+	if (config.nameKey) {
+		config.nameLocalizations = { ...config.nameLocalizations, ...localize(config.nameKey) }
 	}
 
-	if (!localNames) {
-		throw new Error('No locales found. Make sure to create locale files in the /locales directory.')
+	if (config.descriptionKey) {
+		config.description = translate(config.descriptionKey)
+		config.descriptionLocalizations = { ...config.descriptionLocalizations, ...localize(config.descriptionKey) }
 	}
 
-	localNames.forEach((locale: string) => {
-		if (descriptionKey) {
-			const description = t(locale, descriptionKey) as unknown as string
-			config.descriptionLocalizations = config.descriptionLocalizations || {}
-			config.descriptionLocalizations[locale] = description
-		}
-	})
-
+	delete config.nameKey
 	delete config.descriptionKey
 
 	if (config && config.options) {
 		config.options.forEach((option) => {
-			localNames.forEach((locale: string) => {
-				const nameKey = option.nameKey
-				const descriptionKey = option.descriptionKey
-				const name = t(locale, nameKey) as unknown as string
-
-				option.nameLocalizations = option.nameLocalizations || {}
-				option.nameLocalizations[locale] = name
-
-				if (descriptionKey) {
-					const description = t(locale, descriptionKey) as unknown as string
-					option.descriptionLocalizations = option.descriptionLocalizations || {}
-					option.descriptionLocalizations[locale] = description
-				}
-			})
+			option.name = translate(option.nameKey)
+			option.nameLocalizations = { ...option.nameLocalizations, ...localize(option.nameKey) }
 
-			option.name = t(defaultLocale, option.nameKey) as unknown as string
 			if (option.descriptionKey) {
 				// @ts-expect-error - LocaleCommandOption omits description, we add it dynamically
-				option.description = t(defaultLocale, option.descriptionKey) as unknown as string
+				option.description = translate(option.descriptionKey)
+				option.descriptionLocalizations = {
+					...option.descriptionLocalizations,
+					...localize(option.descriptionKey)
+				}
 			}
 
+			option.choices?.forEach((choice) => {
+				if (choice.nameKey) {
+					choice.name = translate(choice.nameKey)
+					choice.nameLocalizations = { ...choice.nameLocalizations, ...localize(choice.nameKey) }
+					delete choice.nameKey
+				}
+			})
+
 			delete option.nameKey
 			delete option.descriptionKey
 		})
 	}
 
+	// Subcommands describe their parent command or group, which has no file of its own
+	if (config.parent) {
+		const parent = config.parent
+
+		if (parent.nameKey) {
+			parent.nameLocalizations = { ...parent.nameLocalizations, ...localize(parent.nameKey) }
+		}
+		if (parent.descriptionKey) {
+			parent.description = translate(parent.descriptionKey)
+			parent.descriptionLocalizations = { ...parent.descriptionLocalizations, ...localize(parent.descriptionKey) }
+		}
+
+		delete parent.nameKey
+		delete parent.descriptionKey
+	}
+
+	localizeSage(config.sage)
+	reportCoverage('command', keys, defaultLocale)
+
 	i18nLogger.debug('Creating localized command config:', { config })
 	return _createCommandConfig(config as unknown as SmartCommandConfig<BaseFromLocale<C>>)
 }
 
+/**
+ * Creates a **localized** context menu configuration, filling `nameLocalizations` from `nameKey` for every
+ * Discord-supported locale. Context menu names come from their file name, so only the localizations are generated.
+ *
+ * @example
+ * ```ts
+ * // src/context/user/Report.ts
+ * import { createContextConfig } from '@robojs/i18n'
+ *
+ * export const config = createContextConfig({ nameKey: 'context:report' })
+ * ```
+ */
+export function createContextConfig(config: LocaleContextConfig): ContextConfig {
+	prepare()
+
+	if (config.nameKey) {
+		config.nameLocalizations = { ...config.nameLocalizations, ...getDiscordLocalizations(config.nameKey) }
+		delete config.nameKey
+	}
+
+	localizeSage(config.sage)
+
+	i18nLogger.debug('Creating localized context config:', { config })
+	return config as ContextConfig
+}
+
+/** Loads locales once and resolves strings for the configured default locale. */
+function prepare() {
+	// Load locales only once
+	if (!_isLoaded) {
+		loadLocales()
+		_isLoaded = true
+	}
+
+	if (!loadLocalNames()) {
+		throw new Error('No locales found. Make sure to create locale files in the /locales directory.')
+	}
+
+	const pluginConfig = getPluginOptions(join('@robojs', 'i18n')) as PluginConfig
+	const defaultLocale = pluginConfig?.defaultLocale || 'en-US'
+	const translate = (key: LocaleKey) => t(defaultLocale, key) as unknown as string
+
+	return { defaultLocale, translate }
+}
+
+/** Turns Sage message keys into the per-locale maps Robo.js picks from for each interaction. */
+function localizeSage(sage: false | LocaleSageOptions | undefined) {
+	if (!sage) {
+		return
+	}
+
+	if (sage.cooldownMessageKey) {
+		sage.cooldownMessage = getLocalizations(sage.cooldownMessageKey)
+		delete sage.cooldownMessageKey
+	}
+	if (sage.permissionMessageKey) {
+		sage.permissionMessage = getLocalizations(sage.permissionMessageKey)
+		delete sage.permissionMessageKey
+	}
+}
+
 /**
  * Formats a localized message by key with **strongly-typed params** inferred from your MF2 message.
  *
@@ -197,8 +271,9 @@ export function createCommandConfig<const C extends LocaleCommandConfig>(config:
  * }
  * ```
  *
- * @throws If the locale is unknown (no `/locales/<locale>` loaded) or the key is missing in that locale.
+ * @throws If no locale in the fallback chain is loaded, or none of them has the key.
  * @remarks
+ * - Missing keys fall back through the `fallbacks` plugin option (e.g., `pt-BR → pt → en-US`) before throwing.
  * - You can also pass dotted params directly: `t('en-US', 'common:hello.user', { 'user.name': 'Robo' })`.
  * - If different locales disagree on a param’s kind, the generator safely widens the param type.
  */
@@ -211,17 +286,20 @@ export function t<K extends LocaleKey>(locale: LocaleLike, key: K, params?: Para
 		throw new Error('Locales not loaded. Call loadLocales() first or ensure locale files exist in /locales.')
 	}
 
-	// This function should return the translation for the given locale and key.
-	// For now, we will just return a placeholder string.
-	const localeStr = getLocale(locale)
-	const values = localeValues[localeStr]
-	if (!values) {
-		throw new Error(`Locale "${localeStr}" not found`)
+	// Walk the fallback chain until a locale has this key, formatting with the locale it was found in
+	const requested = getLocale(locale)
+	const chain = getFallbackChain(requested)
+	const localeStr = chain.find((locale) => localeValues[locale]?.[key as unknown as string])
+	if (!localeStr && !chain.some((locale) => localeValues[locale])) {
+		throw new Error(`Locale "${requested}" not found`)
+	}
+	if (!localeStr) {
+		throw new Error(`Translation for key "${String(key)}" not found in locale "${chain.join('" or "')}"`)
 	}
-	const translation = values[key as unknown as string]
-	if (!translation) {
-		throw new Error(`Translation for key "${String(key)}" not found in locale "${localeStr}"`)
+	if (localeStr !== requested) {
+		i18nLogger.debug(`Key "${String(key)}" not found in locale "${requested}", using "${localeStr}"`)
 	}
+	const translation = localeValues[localeStr]![key as unknown as string]!
 
 	if (params) {
 		const flat = flattenParams(params as Record<string, unknown>)
@@ -354,6 +432,7 @@ export function tr<K extends LocaleKey>(locale: LocaleLike, key: K, ...args: May
  * - `withLocale(local, { strict: true })` → `<K>(key: K, ...args: MaybeArgs<K>) => ReturnOf<K>`
  *
  * @param local A `LocaleLike` (string, `{ locale }`, `{ guildLocale }`, or a Discord Interaction).
+ *              Interactions use the user's or guild's stored preference once `resolveLocale` has read it.
  * @param options Optional `{ strict: true }` to get the strict variant.
  *
  * @example
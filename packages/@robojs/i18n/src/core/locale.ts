@@ -0,0 +1,171 @@
+import { i18nLogger } from './loggers.js'
+import { join } from 'node:path'
+import { Flashcore, getPluginOptions } from 'robo.js'
+import type { LocaleTarget, PluginConfig } from './types.js'
+
+const NAMESPACE = '@robojs/i18n'
+
+// Cached preferences are read again after this long, picking up changes made by other shards
+const PREFERENCE_TTL = 5 * 60_000
+
+// Least recently used preferences are dropped past this many
+const MAX_PREFERENCES = 10_000
+
+interface CachedPreference {
+	expiresAt: number
+	locale: string | null
+}
+
+// Stored preferences, cached so synchronous calls like `t(interaction, ...)` can respect them
+const _preferences = new Map<string, CachedPreference>()
+
+/**
+ * Returns every locale to try for a message, in order: the locale itself, its configured fallbacks
+ * (followed recursively, so `pt-BR → pt → en-US` can be split across entries), then `fallbacks.default`.
+ *
+ * @param locale - The requested locale.
+ * @param fallbacks - Fallback map. Defaults to the `fallbacks` plugin option.
+ */
+export function getFallbackChain(locale: string, fallbacks = getPluginConfig()?.fallbacks): string[] {
+	const chain: string[] = []
+	const visit = (locale: string) => {
+		if (chain.includes(locale)) {
+			return
+		}
+
+		chain.push(locale)
+		for (const fallback of fallbacks?.[locale] ?? []) {
+			visit(fallback)
+		}
+	}
+
+	visit(locale)
+	for (const fallback of fallbacks?.default ?? []) {
+		visit(fallback)
+	}
+
+	return chain
+}
+
+/**
+ * Returns a cached stored preference for anything with a `user` or `guildId`, such as an interaction.
+ * Only preferences already read by `resolveLocale` or written by `setUserLocale`/`setGuildLocale` are known here.
+ */
+export function getCachedPreference(input: object): string | null {
+	const userId = 'user' in input ? (input.user as { id?: string } | null)?.id : undefined
+	const guildId = 'guildId' in input ? (input.guildId as string | null) : undefined
+
+	return (
+		(userId ? getCached(preferenceKey({ userId })) : null) ??
+		(guildId ? getCached(preferenceKey({ guildId })) : null) ??
+		null
+	)
+}
+
+/**
+ * Resolves the locale to use for an interaction (or anything with `user`, `guildId`, `locale` or `guildLocale`).
+ *
+ * Order: the user's stored preference, the guild's stored preference, the user's Discord client locale,
+ * the guild's locale, then the `defaultLocale` plugin option.
+ *
+ * Preferences are cached for a few minutes after each read, which also lets `t()` and `withLocale()` respect them
+ * when given the same interaction. Interactions handled by commands, context menus, components and modals are resolved
+ * automatically before your handler runs.
+ *
+ * @example
+ * ```ts
+ * import { resolveLocale, t } from '@robojs/i18n'
+ *
+ * export default async (interaction: ChatInputCommandInteraction) => {
+ *   const locale = await resolveLocale(interaction)
+ *   return t(locale, 'app:hello', { name: interaction.user.username })
+ * }
+ * ```
+ */
+export async function resolveLocale(input: LocaleTarget): Promise<string> {
+	const userId = input.user?.id
+	const guildId = input.guildId
+
+	const preference =
+		(userId ? await getPreference({ userId }) : null) ?? (guildId ? await getPreference({ guildId }) : null)
+
+	return preference ?? input.locale ?? input.guildLocale ?? getPluginConfig()?.defaultLocale ?? 'en-US'
+}
+
+/**
+ * Stores a guild's preferred locale, used over the interaction's locale for every member without their own preference.
+ * Pass `null` to clear it.
+ */
+export async function setGuildLocale(guildId: string, locale: string | null) {
+	await setPreference({ guildId }, locale)
+}
+
+/**
+ * Stores a user's preferred locale, used over their Discord client locale everywhere. Pass `null` to clear it.
+ */
+export async function setUserLocale(userId: string, locale: string | null) {
+	await setPreference({ userId }, locale)
+}
+
+function cachePreference(key: string, locale: string | null) {
+	_preferences.delete(key)
+	_preferences.set(key, { expiresAt: Date.now() + PREFERENCE_TTL, locale })
+
+	if (_preferences.size > MAX_PREFERENCES) {
+		_preferences.delete(_preferences.keys().next().value!)
+	}
+}
+
+/**
+ * Returns a cached preference, or `undefined` if it isn't cached or has expired.
+ */
+function getCached(key: string): string | null | undefined {
+	const cached = _preferences.get(key)
+	if (!cached) {
+		return undefined
+	}
+
+	_preferences.delete(key)
+	if (cached.expiresAt <= Date.now()) {
+		return undefined
+	}
+
+	// Reinserting keeps the map ordered from least to most recently used
+	_preferences.set(key, cached)
+
+	return cached.locale
+}
+
+async function getPreference(target: { guildId: string } | { userId: string }): Promise<string | null> {
+	const key = preferenceKey(target)
+	const cached = getCached(key)
+	if (cached !== undefined) {
+		return cached
+	}
+
+	const locale = (await Flashcore.get<string>(key, { namespace: NAMESPACE })) ?? null
+	cachePreference(key, locale)
+
+	return locale
+}
+
+function getPluginConfig() {
+	return getPluginOptions(join('@robojs', 'i18n')) as PluginConfig | null
+}
+
+function preferenceKey(target: { guildId: string } | { userId: string }) {
+	return 'userId' in target ? `user:${target.userId}` : `guild:${target.guildId}`
+}
+
+async function setPreference(target: { guildId: string } | { userId: string }, locale: string | null) {
+	const key = preferenceKey(target)
+
+	if (locale) {
+		await Flashcore.set(key, locale, { namespace: NAMESPACE })
+	} else {
+		await Flashcore.delete(key, { namespace: NAMESPACE })
+	}
+
+	cachePreference(key, locale)
+	i18nLogger.debug(`Set locale preference ${key} to ${locale}`)
+}
@@ -0,0 +1,83 @@
+// @ts-expect-error - This is a generated file
+import type { LocaleKey } from '../../generated/types'
+import { i18nLogger } from './loggers.js'
+import { loadLocales } from './utils.js'
+import { Locale as DiscordLocale } from 'discord.js'
+import { State } from 'robo.js'
+
+/** Locales Discord accepts in `nameLocalizations` and `descriptionLocalizations`. */
+const DISCORD_LOCALES: string[] = Object.values(DiscordLocale)
+
+// Coverage gaps already reported, so reloading the same command doesn't repeat them
+const _reported = new Set<string>()
+
+/**
+ * Builds a localization map for a key from every loaded locale that defines it, using the raw message text.
+ * Useful anywhere Robo.js accepts a `Record<locale, string>`, such as Sage's `errorMessage` in your config.
+ *
+ * @example
+ * ```ts
+ * // config/robo.ts
+ * import { getLocalizations } from '@robojs/i18n'
+ *
+ * export default {
+ *   sage: { errorMessage: getLocalizations('common:errors.generic') }
+ * }
+ * ```
+ */
+export function getLocalizations(key: LocaleKey): Record<string, string> {
+	const localeValues = getLocaleValues()
+	const localizations: Record<string, string> = {}
+
+	for (const [locale, values] of Object.entries(localeValues)) {
+		const value = values[key as string]
+		if (typeof value === 'string') {
+			localizations[locale] = value
+		}
+	}
+
+	return localizations
+}
+
+/** Same as `getLocalizations`, limited to locales Discord supports for command metadata. */
+export function getDiscordLocalizations(key: LocaleKey): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(getLocalizations(key)).filter(([locale]) => DISCORD_LOCALES.includes(locale))
+	)
+}
+
+/**
+ * Warns about Discord-supported locales that translate some, but not all, of a command's keys.
+ * Locales without any of the keys are left alone, since Discord falls back to the default text for them.
+ */
+export function reportCoverage(kind: string, keys: LocaleKey[], defaultLocale: string) {
+	const localeValues = getLocaleValues()
+	const locales = Object.keys(localeValues).filter(
+		(locale) => locale !== defaultLocale && DISCORD_LOCALES.includes(locale)
+	)
+
+	for (const locale of locales) {
+		const missing = keys.filter((key) => localeValues[locale]?.[key as string] === undefined)
+		const message = `Locale "${locale}" is missing ${missing.length} of ${keys.length} ${kind} strings: ${missing.join(
+			', '
+		)}`
+
+		if (missing.length && missing.length < keys.length && !_reported.has(message)) {
+			_reported.add(message)
+			i18nLogger.warn(message)
+		}
+	}
+}
+
+function getLocaleValues() {
+	let localeValues = State.get<Record<string, Record<string, string | string[]>>>('localeValues', {
+		namespace: '@robojs/i18n'
+	})
+
+	if (!localeValues) {
+		loadLocales()
+		localeValues = State.get('localeValues', { namespace: '@robojs/i18n' })
+	}
+
+	return localeValues ?? {}
+}
@@ -1,6 +1,7 @@
 // @ts-expect-error - This is a generated file
 import type { Locale, LocaleKey, ParamsFor } from '../../generated/types'
-import type { CommandConfig, CommandOption } from 'robo.js'
+import type { ApplicationCommandOptionChoiceData } from 'discord.js'
+import type { CommandConfig, CommandOption, CommandParentConfig, ContextConfig, SageOptions } from 'robo.js'
 
 type Autocomplete<T extends string> = T | (string & NonNullable<unknown>)
 
@@ -16,22 +17,96 @@ export type LocaleLike =
 			guildLocale: Autocomplete<LocaleStr>
 	  }
 
+/** Option choice that can take its display name from a namespaced i18n key. */
+export type LocaleCommandOptionChoice = ApplicationCommandOptionChoiceData<string | number> & {
+	nameKey?: LocaleKey
+}
+
 /** Command option shape that uses namespaced i18n keys for name/description. */
 export interface LocaleCommandOption extends Omit<CommandOption, 'description'> {
+	choices?: readonly LocaleCommandOptionChoice[]
 	nameKey: LocaleKey
 	descriptionKey?: LocaleKey
 }
 
+/** Parent command or subcommand group metadata that uses namespaced i18n keys. */
+export interface LocaleCommandParentConfig extends CommandParentConfig {
+	descriptionKey?: LocaleKey
+	nameKey?: LocaleKey
+}
+
+/** Sage options whose user-facing messages come from namespaced i18n keys. */
+export type LocaleSageOptions = SageOptions & {
+	cooldownMessageKey?: LocaleKey
+	permissionMessageKey?: LocaleKey
+}
+
 /** Command config shape that accepts namespaced i18n keys and optional localized options. */
-export interface LocaleCommandConfig extends Omit<CommandConfig, 'options'> {
+export interface LocaleCommandConfig extends Omit<CommandConfig, 'options' | 'parent' | 'sage'> {
 	descriptionKey?: LocaleKey
 	nameKey?: LocaleKey
 	options?: readonly LocaleCommandOption[]
+	parent?: LocaleCommandParentConfig
+	sage?: false | LocaleSageOptions
+}
+
+/** Context menu config shape that accepts namespaced i18n keys. */
+export interface LocaleContextConfig extends Omit<ContextConfig, 'sage'> {
+	nameKey?: LocaleKey
+	sage?: false | LocaleSageOptions
+}
+
+/** Options for `checkLocales` and the `i18n check` command. */
+export interface CheckLocalesOptions {
+	/** Locale every other locale is compared against. Defaults to the plugin's `defaultLocale`, then `en-US`. */
+	defaultLocale?: string
+	/** Copy missing keys from the default locale into each locale's files. */
+	fix?: boolean
+	/** Folder containing locale files. Defaults to `./locales`. */
+	localesDir?: string
+	/** Folder scanned for key usage. Defaults to `./src`; `false` skips the unused key check. */
+	sourceDir?: string | false
+}
+
+/** Issues found by `checkLocales`, plus the ones `fix` resolved. */
+export interface CheckLocalesResult {
+	fixed: LocaleIssue[]
+	issues: LocaleIssue[]
+}
+
+/** A single problem found by `checkLocales`. Unused keys belong to every locale, so they have no `locale`. */
+export interface LocaleIssue {
+	details?: string
+	key: string
+	locale?: string
+	type: 'extra' | 'missing' | 'placeholder' | 'unused'
+}
+
+/** Locale files parsed by `readLocales`, keyed by locale and then by namespaced key. */
+export interface LocaleData {
+	localeKeys: string[]
+	localeNames: string[]
+	/** Where each key was defined: its file relative to the locale folder and its path within that file. */
+	localeSources: Record<string, Record<string, { file: string; path: string[] }>>
+	localeValues: Record<string, Record<string, string | string[]>>
+}
+
+/** Anything `resolveLocale` can read a locale from, such as a Discord interaction. */
+export interface LocaleTarget {
+	guildId?: string | null
+	guildLocale?: string | null
+	locale?: string | null
+	user?: { id: string } | null
 }
 
 /** Plugin options for `@robojs/i18n` (e.g., `defaultLocale`). */
 export interface PluginConfig {
 	defaultLocale?: string
+	/**
+	 * Locales to try, in order, when a key is missing in the requested locale (e.g., `{ 'pt-BR': ['pt', 'en-US'] }`).
+	 * The `default` entry applies to every locale after its own fallbacks.
+	 */
+	fallbacks?: Record<string, string[]>
 }
 
 type ToCommandOption<O> = O extends LocaleCommandOption
@@ -1,11 +1,12 @@
 import { generateTypes } from './codegen.js'
+import { getCachedPreference } from './locale.js'
 import { i18nLogger } from './loggers.js'
 import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
 import { basename, dirname, extname, join, relative, sep } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { State } from 'robo.js'
 import type { Locale } from '../index.js'
-import type { LocaleLike } from './types.js'
+import type { LocaleData, LocaleLike } from './types.js'
 
 /** Token used to escape dots in ICU argument names during parsing/sanitization. */
 export const DOT_TOKEN = '__RJSI18N_DOT__'
@@ -13,17 +14,17 @@ export const DOT_TOKEN = '__RJSI18N_DOT__'
 /** Also visits **string[]** leaves (keeps arrays intact for i18n array messages). */
 function forEachLeaf(
 	obj: unknown,
-	visitString: (flatKey: string, value: string) => void,
-	visitArray: (flatKey: string, value: string[]) => void,
+	visitString: (flatKey: string, value: string, path: string[]) => void,
+	visitArray: (flatKey: string, value: string[], path: string[]) => void,
 	path: string[] = []
 ): void {
 	if (typeof obj === 'string') {
-		visitString(path.join('.'), obj)
+		visitString(path.join('.'), obj, path)
 		return
 	}
 	if (Array.isArray(obj)) {
 		if (obj.every((v) => typeof v === 'string')) {
-			visitArray(path.join('.'), obj as string[])
+			visitArray(path.join('.'), obj as string[], path)
 		} else {
 			i18nLogger.warn?.('Skipping non-string[] array in locale JSON at path: ' + path.join('.'))
 		}
@@ -84,12 +85,17 @@ export function getAllFilePaths(dirPath: string, fileList: string[] = []): strin
 	return fileList
 }
 
-/** Extracts a locale string from a `LocaleLike` value (string or object with `locale`/`guildLocale`). */
+/**
+ * Extracts a locale string from a `LocaleLike` value (string or object with `locale`/`guildLocale`).
+ * Objects with a `user` or `guildId` use their stored preference instead, once `resolveLocale` has read it.
+ */
 export function getLocale(input: Locale): Locale
 export function getLocale(input: { locale: string } | { guildLocale: string }): string
 export function getLocale(input: LocaleLike): string
 export function getLocale(input: LocaleLike): string {
 	if (typeof input === 'string') return input
+	const preference = getCachedPreference(input)
+	if (preference) return preference
 	if ('locale' in input && typeof input.locale === 'string') return input.locale
 	if ('guildLocale' in input && typeof input.guildLocale === 'string') {
 		return input.guildLocale
@@ -103,27 +109,51 @@ function isPlainObject(v: unknown): v is Record<string, unknown> {
 
 /** Loads locale JSONs, builds **slash-namespaced** & flattened keys, stores values in State, and writes generated types. */
 export function loadLocales() {
-	const LocalesDir = join(process.cwd(), 'locales')
-
 	i18nLogger.debug('Loading locales...')
 	const time = Date.now()
+	const { localeKeys, localeNames, localeValues } = readLocales()
+
+	// Save state for runtime
+	const namespace = '@robojs/i18n'
+	State.set('localeKeys', localeKeys, { namespace })
+	State.set('localeNames', localeNames, { namespace })
+	State.set('localeValues', localeValues, { namespace })
+
+	// Generate types from **namespaced** keys
+	const types = generateTypes(localeNames, Array.from(new Set(localeKeys)), localeValues)
+
+	// Save into package directory
+	const __filename = fileURLToPath(import.meta.url)
+	const __dirname = dirname(join(__filename, '..', '..'))
+	const typesFilePath = join(__dirname, 'generated', 'types.d.ts')
+	mkdirSync(dirname(typesFilePath), { recursive: true })
+	i18nLogger.debug(`Writing types to ${typesFilePath}`)
+	writeFileSync(typesFilePath, types, 'utf-8')
+	return Date.now() - time
+}
 
+/** Reads locale JSONs into **slash-namespaced** & flattened keys, remembering which file and path each key came from. */
+export function readLocales(localesDir = join(process.cwd(), 'locales')): LocaleData {
 	// Recursively collect all files under /locales
-	const localeFiles = getAllFilePaths(LocalesDir)
+	const localeFiles = getAllFilePaths(localesDir)
 
 	// Derive the list of available locales from the first path segment after /locales
 	const localeNames = Array.from(
 		new Set(
 			localeFiles.map((filePath) => {
-				const rel = relative(LocalesDir, filePath)
+				const rel = relative(localesDir, filePath)
 				return rel.split(sep)[0]
 			})
 		)
 	)
 	i18nLogger.debug(`Discovered locales: ${localeNames.join(', ')} from:`, localeFiles)
 
-	const localeValues: Record<string, Record<string, string | string[]>> = {}
-	localeNames.forEach((locale) => (localeValues[locale] = {}))
+	const localeSources: LocaleData['localeSources'] = {}
+	const localeValues: LocaleData['localeValues'] = {}
+	localeNames.forEach((locale) => {
+		localeSources[locale] = {}
+		localeValues[locale] = {}
+	})
 
 	// Collect all discovered **namespaced** keys for typegen
 	const localeKeys: string[] = []
@@ -135,7 +165,7 @@ export function loadLocales() {
 			continue
 		}
 
-		const rel = relative(LocalesDir, localeFile) // e.g. "en/shared/common.json"
+		const rel = relative(localesDir, localeFile) // e.g. "en/shared/common.json"
 		const parts = rel.split(sep)
 		if (parts.length < 2) {
 			// Should always have at least <locale>/<file>
@@ -152,6 +182,7 @@ export function loadLocales() {
 		const dirSegments = fileAndDirs.slice(0, -1) // ["shared"]
 		const namespace = [...dirSegments, fileBase].join('/') // "shared/common" or "common"
 		const prefix = `${namespace}:`
+		const file = fileAndDirs.join(sep)
 
 		const json = JSON.parse(readFileSync(localeFile, 'utf-8')) as Record<string, unknown>
 
@@ -160,7 +191,7 @@ export function loadLocales() {
 
 		forEachLeaf(
 			json,
-			(flatKey, value) => {
+			(flatKey, value, path) => {
 				// Collision check (e.g., both "hello.user" and { hello: { user: … } })
 				if (seenFlat.has(flatKey)) {
 					const msg =
@@ -174,10 +205,11 @@ export function loadLocales() {
 
 				const namespacedKey = `${prefix}${flatKey}` // e.g. "shared/common:hello.user"
 				localeKeys.push(namespacedKey)
+				localeSources[localeName]![namespacedKey] = { file, path }
 				localeValues[localeName]![namespacedKey] = value
 				i18nLogger.debug(`Added key "${namespacedKey}" for locale "${localeName}"`)
 			},
-			(flatKey, arr) => {
+			(flatKey, arr, path) => {
 				if (seenFlat.has(flatKey)) {
 					const msg =
 						`[i18n] Duplicate key after flattening in "${rel}": "${flatKey}". ` +
@@ -190,29 +222,14 @@ export function loadLocales() {
 
 				const namespacedKey = `${prefix}${flatKey}`
 				localeKeys.push(namespacedKey)
+				localeSources[localeName]![namespacedKey] = { file, path }
 				localeValues[localeName]![namespacedKey] = arr
 				i18nLogger.debug(`Added ARRAY key "${namespacedKey}" for locale "${localeName}"`)
 			}
 		)
 	}
 
-	// Save state for runtime
-	const namespace = '@robojs/i18n'
-	State.set('localeKeys', localeKeys, { namespace })
-	State.set('localeNames', localeNames, { namespace })
-	State.set('localeValues', localeValues, { namespace })
-
-	// Generate types from **namespaced** keys
-	const types = generateTypes(localeNames, Array.from(new Set(localeKeys)), localeValues)
-
-	// Save into package directory
-	const __filename = fileURLToPath(import.meta.url)
-	const __dirname = dirname(join(__filename, '..', '..'))
-	const typesFilePath = join(__dirname, 'generated', 'types.d.ts')
-	mkdirSync(dirname(typesFilePath), { recursive: true })
-	i18nLogger.debug(`Writing types to ${typesFilePath}`)
-	writeFileSync(typesFilePath, types, 'utf-8')
-	return Date.now() - time
+	return { localeKeys, localeNames, localeSources, localeValues }
 }
 
 /** Returns the list of discovered locale names from State. */
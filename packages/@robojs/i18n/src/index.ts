@@ -1,6 +1,18 @@
 // @ts-expect-error - This is a generated file
 export type { Locale, LocaleKey, ParamsFor } from '../generated/types'
-export type { LocaleLike, PluginConfig } from './core/types.js'
+export type {
+	CheckLocalesOptions,
+	CheckLocalesResult,
+	LocaleCommandOptionChoice,
+	LocaleContextConfig,
+	LocaleIssue,
+	LocaleLike,
+	LocaleTarget,
+	PluginConfig
+} from './core/types.js'
+export { checkLocales } from './core/check.js'
 export { clearFormatterCache } from './core/formatter.js'
-export { createCommandConfig, t, tr, withLocale } from './core/lib.js'
+export { createCommandConfig, createContextConfig, t, tr, withLocale } from './core/lib.js'
+export { getLocalizations } from './core/localizations.js'
+export { getFallbackChain, resolveLocale, setGuildLocale, setUserLocale } from './core/locale.js'
 export { loadLocales } from './core/utils.js'
@@ -0,0 +1,25 @@
+import { resolveLocale } from '~/core/locale.js'
+import { i18nLogger } from '~/core/loggers.js'
+import type { MiddlewareConfig, MiddlewareData } from 'robo.js'
+import type { LocaleTarget } from '~/core/types.js'
+
+export const config: MiddlewareConfig = {
+	priority: 100,
+	scope: ['commands', 'components', 'context', 'modals']
+}
+
+// Reads stored locale preferences ahead of the handler, so `t(interaction, ...)` can use them synchronously
+export default async (data: MiddlewareData) => {
+	const interaction = data.payload[0] as LocaleTarget | undefined
+
+	if (!interaction || typeof interaction !== 'object') {
+		return
+	}
+
+	// A failed read should never block the handler; it'll just use the interaction's own locale
+	try {
+		await resolveLocale(interaction)
+	} catch (error) {
+		i18nLogger.warn('Failed to read stored locale preferences:', error)
+	}
+}
@@ -0,0 +1,60 @@
+/**
+ * Manual mock for the robo.js modules used by @robojs/server tests.
+ *
+ * Both "robo.js" and "robo.js/unstable.js" resolve here via jest.config.ts moduleNameMapper.
+ * Provides an in-memory Flashcore, `color` helpers, a `logger` with `.fork()` and
+ * middleware helpers that run the handler right away.
+ */
+
+import { jest } from '@jest/globals'
+
+type Options = { namespace?: string; ttl?: number }
+
+const store = new Map<string, unknown>()
+
+function composeKey(key: string, options?: Options) {
+	return options?.namespace ? `${options.namespace}__${key}` : key
+}
+
+export const Flashcore = {
+	clear: () => {
+		store.clear()
+	},
+	get: jest.fn(async <V>(key: string, options?: Options) => store.get(composeKey(key, options)) as V | undefined),
+	set: jest.fn(async (key: string, value: unknown, options?: Options) => {
+		store.set(composeKey(key, options), value)
+
+		return true
+	})
+}
+
+const identity = (text: unknown) => String(text)
+
+export const color = new Proxy({} as Record<string, (text: unknown) => string>, { get: () => identity })
+
+export const composeColors = () => identity
+
+// Minimal logger stub that supports logger.fork('...').debug/info/warn/error
+const baseLogger = {
+	debug: jest.fn(),
+	error: jest.fn(),
+	info: jest.fn(),
+	warn: jest.fn()
+}
+
+export const logger = {
+	...baseLogger,
+	fork: jest.fn(() => ({ ...baseLogger }))
+}
+
+export const getPluginOptions = jest.fn(() => ({}))
+
+export const portal = { apis: [] }
+
+export const Nanocore = { update: jest.fn() }
+
+export const executeMiddleware = jest.fn(async () => [])
+
+export const executeWithAfterHooks = jest.fn(async (_hooks: unknown, _data: unknown, run: () => unknown) => run())
+
+export default { Flashcore, color, composeColors, getPluginOptions, logger, portal }
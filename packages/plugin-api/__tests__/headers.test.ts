@@ -0,0 +1,152 @@
+import { afterAll, afterEach, describe, expect, test } from '@jest/globals'
+import { applyHeaders } from '../src/core/headers.js'
+import { ready } from '../src/core/plugin-utils.js'
+import { pluginOptions } from '../src/events/_start.js'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+function createReq(method = 'GET', headers: Record<string, string> = {}) {
+	return { headers, method } as unknown as IncomingMessage
+}
+
+function createRes() {
+	const res = {
+		ended: false,
+		headers: {} as Record<string, string>,
+		status: 200,
+		end() {
+			res.ended = true
+		},
+		setHeader(name: string, value: string) {
+			res.headers[name] = value
+		},
+		writeHead(status: number) {
+			res.status = status
+		}
+	}
+
+	return res
+}
+
+async function apply(req: IncomingMessage) {
+	const res = createRes()
+	const answered = await applyHeaders(req, res as unknown as ServerResponse)
+
+	return { answered, res }
+}
+
+afterEach(() => {
+	delete pluginOptions.cors
+	delete pluginOptions.securityHeaders
+})
+
+// Lets the plugin stop polling for the server so Jest can exit
+afterAll(async () => {
+	globalThis.roboServer = { ready: true }
+	await ready()
+})
+
+describe('security headers', () => {
+	test('are only sent when enabled', async () => {
+		const { res } = await apply(createReq())
+
+		expect(res.headers).toEqual({})
+	})
+
+	test('use safe defaults', async () => {
+		pluginOptions.securityHeaders = true
+		const { answered, res } = await apply(createReq())
+
+		expect(answered).toBe(false)
+		expect(res.headers).toEqual({
+			'Referrer-Policy': 'no-referrer',
+			'Strict-Transport-Security': 'max-age=15552000; includeSubDomains',
+			'X-Content-Type-Options': 'nosniff',
+			'X-Frame-Options': 'SAMEORIGIN'
+		})
+	})
+
+	test('can be configured or left out', async () => {
+		pluginOptions.securityHeaders = {
+			contentSecurityPolicy: "default-src 'self'",
+			frameOptions: false,
+			hsts: { includeSubDomains: false, maxAge: 60, preload: true },
+			noSniff: false,
+			referrerPolicy: false
+		}
+		const { res } = await apply(createReq())
+
+		expect(res.headers).toEqual({
+			'Content-Security-Policy': "default-src 'self'",
+			'Strict-Transport-Security': 'max-age=60; preload'
+		})
+	})
+})
+
+describe('CORS', () => {
+	test('allows any origin by default', async () => {
+		pluginOptions.cors = true
+		const { answered, res } = await apply(createReq('GET', { origin: 'https://example.com' }))
+
+		expect(answered).toBe(false)
+		expect(res.headers).toEqual({ 'Access-Control-Allow-Origin': '*' })
+	})
+
+	test('only allows listed origins', async () => {
+		pluginOptions.cors = { credentials: true, exposedHeaders: ['RateLimit-Remaining'], origin: ['https://robojs.dev'] }
+
+		const allowed = await apply(createReq('GET', { origin: 'https://robojs.dev' }))
+		expect(allowed.res.headers).toEqual({
+			'Access-Control-Allow-Credentials': 'true',
+			'Access-Control-Allow-Origin': 'https://robojs.dev',
+			'Access-Control-Expose-Headers': 'RateLimit-Remaining',
+			Vary: 'Origin'
+		})
+
+		const denied = await apply(createReq('GET', { origin: 'https://example.com' }))
+		expect(denied.res.headers).toEqual({ Vary: 'Origin' })
+	})
+
+	test('lets a function decide per origin', async () => {
+		pluginOptions.cors = { origin: async (origin) => origin.endsWith('.robojs.dev') }
+		const { res } = await apply(createReq('GET', { origin: 'https://docs.robojs.dev' }))
+
+		expect(res.headers['Access-Control-Allow-Origin']).toBe('https://docs.robojs.dev')
+	})
+
+	test('answers preflight requests', async () => {
+		pluginOptions.cors = { maxAge: 600 }
+		const req = createReq('OPTIONS', {
+			'access-control-request-headers': 'content-type',
+			'access-control-request-method': 'POST',
+			origin: 'https://example.com'
+		})
+		const { answered, res } = await apply(req)
+
+		expect(answered).toBe(true)
+		expect(res.status).toBe(204)
+		expect(res.ended).toBe(true)
+		expect(res.headers).toEqual({
+			'Access-Control-Allow-Headers': 'content-type',
+			'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE',
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Max-Age': '600'
+		})
+	})
+
+	test('answers preflight requests from other origins without CORS headers', async () => {
+		pluginOptions.cors = { origin: 'https://robojs.dev' }
+		const req = createReq('OPTIONS', { 'access-control-request-method': 'POST', origin: 'https://example.com' })
+		const { answered, res } = await apply(req)
+
+		expect(answered).toBe(true)
+		expect(res.status).toBe(204)
+		expect(res.headers).toEqual({ Vary: 'Origin' })
+	})
+
+	test('leaves OPTIONS requests that are not preflights to the route', async () => {
+		pluginOptions.cors = true
+		const { answered } = await apply(createReq('OPTIONS'))
+
+		expect(answered).toBe(false)
+	})
+})
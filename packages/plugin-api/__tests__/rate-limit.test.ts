@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, jest, test } from '@jest/globals'
+import { Flashcore } from 'robo.js'
+import { checkRouteRateLimits, setRouteRateLimits } from '../src/core/rate-limit.js'
+import type { RateLimitOptions } from '../src/core/rate-limit.js'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+function createReq(headers: Record<string, string> = {}, remoteAddress = '10.0.0.1') {
+	return {
+		headers: { host: 'localhost', ...headers },
+		method: 'POST',
+		socket: { remoteAddress },
+		url: '/api/cards'
+	} as unknown as IncomingMessage
+}
+
+function createRes() {
+	const headers = new Map<string, string>()
+	const res = { setHeader: (name: string, value: string) => headers.set(name, value) }
+
+	return { headers, res: res as unknown as ServerResponse }
+}
+
+// Each test gets its own route, since counts are kept for the whole process
+let routeId = 0
+
+function createRoute(options: RateLimitOptions) {
+	const path = `/api/route-${++routeId}`
+	setRouteRateLimits(path, [[path, options]])
+
+	return (req = createReq()) => {
+		const { headers, res } = createRes()
+		return checkRouteRateLimits(path, req, res).then((response) => ({ headers, response }))
+	}
+}
+
+afterEach(() => {
+	jest.useRealTimers()
+})
+
+describe('checkRouteRateLimits', () => {
+	test('sets RateLimit headers and answers with a 429 once the limit is used up', async () => {
+		const hit = createRoute({ limit: 2, window: 30_000 })
+
+		const first = await hit()
+		expect(first.response).toBeNull()
+		expect(Object.fromEntries(first.headers)).toEqual({
+			'RateLimit-Limit': '2',
+			'RateLimit-Policy': '2;w=30',
+			'RateLimit-Remaining': '1',
+			'RateLimit-Reset': '30'
+		})
+
+		await hit()
+		const limited = await hit()
+		expect(limited.response?.status).toBe(429)
+		expect(limited.response?.headers.get('Retry-After')).toBe('30')
+		expect(limited.headers.get('RateLimit-Remaining')).toBe('0')
+		expect(await limited.response?.json()).toEqual({ message: 'Too Many Requests' })
+	})
+
+	test('starts counting again in the next window', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const hit = createRoute({ limit: 1, window: 1_000 })
+
+		await hit()
+		expect((await hit()).response?.status).toBe(429)
+
+		jest.setSystemTime(1_001_000)
+		expect((await hit()).response).toBeNull()
+	})
+
+	test('counts each request once', async () => {
+		const hit = createRoute({ limit: 1 })
+		const req = createReq()
+
+		await hit(req)
+		expect((await hit(req)).response).toBeNull()
+		expect((await hit()).response?.status).toBe(429)
+	})
+
+	test('skips routes without rate limits', async () => {
+		const { headers, res } = createRes()
+
+		expect(await checkRouteRateLimits('/api/unlimited', createReq(), res)).toBeNull()
+		expect(headers.size).toBe(0)
+	})
+
+	test('checks every limit covering a route in order', async () => {
+		const path = `/api/route-${++routeId}`
+		setRouteRateLimits(path, [
+			['*', { limit: 5 }],
+			[path, { limit: 1 }]
+		])
+
+		await checkRouteRateLimits(path, createReq(), createRes().res)
+		const { headers, res } = createRes()
+		const response = await checkRouteRateLimits(path, createReq(), res)
+
+		expect(response?.status).toBe(429)
+		expect(headers.get('RateLimit-Limit')).toBe('1')
+	})
+})
+
+describe('rate limit keys', () => {
+	test('counts clients by IP address', async () => {
+		const hit = createRoute({ limit: 1 })
+
+		await hit(createReq({}, '10.0.0.1'))
+		expect((await hit(createReq({}, '10.0.0.2'))).response).toBeNull()
+		expect((await hit(createReq({}, '10.0.0.1'))).response?.status).toBe(429)
+	})
+
+	test("counts the 'user' key by IP address without getUserId", async () => {
+		const hit = createRoute({ key: 'user', limit: 1 })
+
+		await hit(createReq({ authorization: 'Bearer one' }))
+		expect((await hit(createReq({ authorization: 'Bearer two' }))).response?.status).toBe(429)
+	})
+
+	test("counts the 'user' key by verified user", async () => {
+		const getUserId = jest.fn(async (request: { headers: Headers }) => {
+			return request.headers.get('authorization') === 'Bearer valid' ? 'user-1' : null
+		})
+		const hit = createRoute({ getUserId, key: 'user', limit: 1 })
+
+		await hit(createReq({ authorization: 'Bearer valid' }))
+		expect((await hit(createReq({ authorization: 'Bearer forged' }))).response).toBeNull()
+		expect((await hit(createReq({ authorization: 'Bearer valid' }, '10.0.0.9'))).response?.status).toBe(429)
+	})
+
+	test('counts by custom keys, falling back to the IP address', async () => {
+		const hit = createRoute({ key: (request) => request.headers.get('x-team'), limit: 1 })
+
+		await hit(createReq({ 'x-team': 'red' }, '10.0.0.1'))
+		expect((await hit(createReq({ 'x-team': 'blue' }, '10.0.0.1'))).response).toBeNull()
+		expect((await hit(createReq({ 'x-team': 'red' }, '10.0.0.2'))).response?.status).toBe(429)
+		expect((await hit(createReq({}, '10.0.0.3'))).response).toBeNull()
+	})
+
+	test('ignores X-Forwarded-For unless proxies are trusted', async () => {
+		const hit = createRoute({ limit: 1 })
+
+		await hit(createReq({ 'x-forwarded-for': '1.1.1.1' }))
+		expect((await hit(createReq({ 'x-forwarded-for': '2.2.2.2' }))).response?.status).toBe(429)
+	})
+
+	test('reads the client IP from the right of X-Forwarded-For', async () => {
+		const hit = createRoute({ limit: 1, trustProxy: true })
+
+		// Clients can prepend whatever they want, but the proxy always appends the real address
+		await hit(createReq({ 'x-forwarded-for': 'spoofed-1, 1.1.1.1' }))
+		expect((await hit(createReq({ 'x-forwarded-for': 'spoofed-2, 1.1.1.1' }))).response?.status).toBe(429)
+		expect((await hit(createReq({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2' }))).response).toBeNull()
+	})
+
+	test('skips as many entries as there are trusted proxies', async () => {
+		const hit = createRoute({ limit: 1, trustProxy: 2 })
+
+		await hit(createReq({ 'x-forwarded-for': 'spoofed-1, 1.1.1.1, 10.0.0.5' }))
+		expect((await hit(createReq({ 'x-forwarded-for': 'spoofed-2, 1.1.1.1, 10.0.0.6' }))).response?.status).toBe(429)
+	})
+})
+
+describe('persisted rate limits', () => {
+	test('writes counts to Flashcore in batches', async () => {
+		jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] })
+		jest.mocked(Flashcore.set).mockClear()
+		const hit = createRoute({ limit: 10, persist: true })
+
+		await hit()
+		await hit()
+		await hit()
+		expect(Flashcore.set).not.toHaveBeenCalled()
+
+		await jest.advanceTimersByTimeAsync(1_000)
+		expect(Flashcore.set).toHaveBeenCalledTimes(1)
+		expect(jest.mocked(Flashcore.set).mock.calls[0][1]).toEqual({ count: 3, reset: expect.any(Number) })
+	})
+
+	test('picks up counts from Flashcore', async () => {
+		const path = `/api/route-${routeId + 1}`
+		await Flashcore.set(
+			`${path}:ip:10.0.0.1`,
+			{ count: 5, reset: Date.now() + 60_000 },
+			{
+				namespace: '@robojs/server/rate-limit'
+			}
+		)
+		const hit = createRoute({ limit: 5, persist: true })
+
+		expect((await hit()).response?.status).toBe(429)
+	})
+})
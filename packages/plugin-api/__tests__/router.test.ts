@@ -0,0 +1,79 @@
+import { describe, expect, test } from '@jest/globals'
+import { Router, getAllowedMethods, resolveHandler } from '../src/core/router.js'
+import type { RoboReply, RouteHandler } from '../src/core/types.js'
+import type { RoboRequest } from '../src/core/robo-request.js'
+
+const get: RouteHandler = () => 'get'
+const post: RouteHandler = () => 'post'
+const fallback: RouteHandler = () => 'default'
+
+function call(handler: RouteHandler) {
+	return handler({} as RoboRequest, {} as RoboReply)
+}
+
+describe('Router', () => {
+	test('finds routes with their params and query', () => {
+		const router = new Router()
+		router.addRoute({ handler: get, path: '/api/users/:id' })
+
+		const route = router.find('/api/users/42?tab=posts&sort=new,old')
+
+		expect(route.path).toBe('/api/users/:id')
+		expect(route.params).toEqual({ id: '42' })
+		expect(route.query).toEqual({ sort: ['new', 'old'], tab: 'posts' })
+		expect(call(route.handler)).toBe('get')
+	})
+
+	test('returns null for unknown paths', () => {
+		const router = new Router()
+		router.addRoute({ handler: get, path: '/api/users' })
+
+		expect(router.find('/api/posts')).toBeNull()
+	})
+
+	test('stops finding removed routes', () => {
+		const router = new Router()
+		router.addRoute({ handler: get, path: '/api/users' })
+		router.removeRoute('/api/users')
+
+		expect(router.find('/api/users')).toBeNull()
+		expect(router.stats().numRoutes).toBe(0)
+	})
+})
+
+describe('resolveHandler', () => {
+	test('uses a single function for every method', () => {
+		expect(resolveHandler(get, 'DELETE')).toBe(get)
+	})
+
+	test('picks the handler for the request method', () => {
+		expect(resolveHandler({ GET: get, POST: post }, 'POST')).toBe(post)
+	})
+
+	test('answers HEAD with GET and other methods with default', () => {
+		expect(resolveHandler({ GET: get }, 'HEAD')).toBe(get)
+		expect(resolveHandler({ GET: get, default: fallback }, 'PUT')).toBe(fallback)
+	})
+
+	test('answers unhandled methods with a 405 listing the allowed ones', async () => {
+		const response = call(resolveHandler({ GET: get, POST: post }, 'DELETE')) as Response
+
+		expect(response.status).toBe(405)
+		expect(response.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS')
+		expect(await response.json()).toEqual({ message: 'Method Not Allowed' })
+	})
+
+	test('answers OPTIONS with a 204 listing the allowed methods', () => {
+		const response = call(resolveHandler({ POST: post }, 'OPTIONS')) as Response
+
+		expect(response.status).toBe(204)
+		expect(response.headers.get('Allow')).toBe('POST, OPTIONS')
+	})
+})
+
+describe('getAllowedMethods', () => {
+	test('adds HEAD for GET handlers and always allows OPTIONS', () => {
+		expect(getAllowedMethods({ DELETE: get, GET: get })).toEqual(['GET', 'DELETE', 'HEAD', 'OPTIONS'])
+		expect(getAllowedMethods({ default: fallback })).toEqual(['OPTIONS'])
+	})
+})
@@ -0,0 +1,125 @@
+import { describe, expect, test } from '@jest/globals'
+import { RoboRequest } from '../src/core/robo-request.js'
+import { validateRequest } from '../src/core/validation.js'
+import type { ApiConfig, JsonSchema, ValidationIssue } from '../src/core/types.js'
+import type { IncomingMessage } from 'node:http'
+
+function createRequest(path: string, body?: string) {
+	const req = { headers: { host: 'localhost' }, method: body === undefined ? 'GET' : 'POST', url: path }
+
+	return RoboRequest.from(req as IncomingMessage, { body: body === undefined ? undefined : Buffer.from(body) })
+}
+
+async function getIssues(request: RoboRequest, config: ApiConfig): Promise<ValidationIssue[]> {
+	const response = await validateRequest(request, config)
+	expect(response?.status).toBe(400)
+
+	return (await response.json()).errors
+}
+
+describe('validateRequest', () => {
+	test('coerces query parameters to the expected types', async () => {
+		const request = await createRequest('/api/items?page=2&active=true&tag=a')
+		const config: ApiConfig = {
+			query: {
+				properties: {
+					active: { type: 'boolean' },
+					page: { minimum: 1, type: 'integer' },
+					tag: { items: { type: 'string' }, type: 'array' }
+				},
+				type: 'object'
+			}
+		}
+
+		expect(await validateRequest(request, config)).toBeNull()
+		expect(request.query).toEqual({ active: true, page: 2, tag: ['a'] })
+	})
+
+	test('collects repeated query parameters into arrays', async () => {
+		const request = await createRequest('/api/items?tag=a&tag=b')
+
+		expect(await validateRequest(request, { query: { type: 'object' } })).toBeNull()
+		expect(request.query).toEqual({ tag: ['a', 'b'] })
+	})
+
+	test("doesn't coerce body values", async () => {
+		const request = await createRequest('/api/items', JSON.stringify({ count: '2' }))
+		const config: ApiConfig = { body: { properties: { count: { type: 'number' } }, type: 'object' } }
+
+		expect(await getIssues(request, config)).toEqual([
+			{ location: 'body', message: 'Expected number', path: ['count'] }
+		])
+	})
+
+	test('applies defaults', async () => {
+		const request = await createRequest('/api/items', JSON.stringify({ name: 'Robo' }))
+		const config: ApiConfig = {
+			body: { properties: { limit: { default: 10, type: 'integer' }, name: { type: 'string' } }, type: 'object' }
+		}
+
+		expect(await validateRequest(request, config)).toBeNull()
+		expect(await request.json()).toEqual({ limit: 10, name: 'Robo' })
+	})
+
+	test('reports missing and unexpected properties', async () => {
+		const request = await createRequest('/api/items', JSON.stringify({ extra: true }))
+		const config: ApiConfig = {
+			body: {
+				additionalProperties: false,
+				properties: { name: { type: 'string' } },
+				required: ['name'],
+				type: 'object'
+			}
+		}
+
+		expect(await getIssues(request, config)).toEqual([
+			{ location: 'body', message: 'Unexpected property', path: ['extra'] },
+			{ location: 'body', message: 'Required', path: ['name'] }
+		])
+	})
+
+	test('rejects bodies that are not valid JSON', async () => {
+		const request = await createRequest('/api/items', '{')
+
+		expect(await getIssues(request, { body: { type: 'object' } })).toEqual([
+			{ location: 'body', message: 'Expected a valid JSON body', path: [] }
+		])
+	})
+})
+
+describe('validateRequest with reserved keys', () => {
+	test("doesn't let a __proto__ key change the prototype of the body", async () => {
+		const request = await createRequest('/api/items', '{"__proto__": {"admin": true}, "name": "Robo"}')
+		const config: ApiConfig = { body: { properties: { name: { type: 'string' } }, type: 'object' } }
+
+		expect(await validateRequest(request, config)).toBeNull()
+		const body = await request.json()
+		expect(Object.getPrototypeOf(body)).toBe(Object.prototype)
+		expect(body.admin).toBeUndefined()
+		expect(Object.keys(body)).toEqual(['__proto__', 'name'])
+	})
+
+	test("doesn't let a __proto__ key change the prototype of the query", async () => {
+		const request = await createRequest('/api/items?__proto__=a&__proto__=b')
+
+		expect(await validateRequest(request, { query: { type: 'object' } })).toBeNull()
+		expect(Object.getPrototypeOf(request.query)).toBe(Object.prototype)
+		expect(Object.keys(request.query)).toEqual(['__proto__'])
+	})
+
+	test('treats inherited keys as missing', async () => {
+		const request = await createRequest('/api/items', '{}')
+		const config: ApiConfig = { body: { required: ['toString'], type: 'object' } }
+
+		expect(await getIssues(request, config)).toEqual([{ location: 'body', message: 'Required', path: ['toString'] }])
+	})
+
+	test('applies defaults to keys the prototype already has', async () => {
+		const request = await createRequest('/api/items', '{}')
+		const property: JsonSchema = { default: 'none', type: 'string' }
+		const config: ApiConfig = { body: { properties: { constructor: property }, type: 'object' } }
+
+		expect(await validateRequest(request, config)).toBeNull()
+		expect(await request.json()).toEqual({ constructor: 'none' })
+	})
+})
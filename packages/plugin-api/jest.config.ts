@@ -0,0 +1,29 @@
+import type { Config } from 'jest'
+
+const config: Config = {
+	testEnvironment: 'node',
+	verbose: true,
+	extensionsToTreatAsEsm: ['.ts'],
+	testMatch: ['**/?(*.)+(test).[tj]s?(x)'],
+	transform: {
+		'^.+\\.ts?$': [
+			'ts-jest',
+			{
+				useESM: true,
+				tsconfig: {
+					module: 'ESNext',
+					target: 'ES2022',
+					skipLibCheck: true
+				}
+			}
+		]
+	},
+	moduleNameMapper: {
+		'^robo\\.js(/unstable\\.js)?$': '<rootDir>/__mocks__/robo.js.ts',
+		'^(\\.{1,2}/.*)\\.js$': '$1'
+	},
+	testPathIgnorePatterns: ['<rootDir>/.robo/', '<rootDir>/__benchmarks__/'],
+	watchPathIgnorePatterns: ['<rootDir>/.robo/']
+}
+
+export default config
@@ -1,3 +1,5 @@
+import { applyHeaders } from './headers.js'
+import { checkRouteRateLimits } from './rate-limit.js'
 import { RoboRequest, applyParams } from './robo-request.js'
 import { RoboResponse } from './robo-response.js'
 import { logger } from './logger.js'
@@ -24,23 +26,14 @@ export function createServerHandler(router: Router, vite?: ViteDevServer, onNotF
 	return async (req: IncomingMessage, res: ServerResponse<IncomingMessage>) => {
 		const parsedUrl = url.parse(req.url, true)
 
-		if (pluginOptions.cors) {
-			// CORS Headers (to allow any origin, any method, and any header)
-			res.setHeader('Access-Control-Allow-Origin', '*')
-			res.setHeader('Access-Control-Allow-Methods', '*')
-			res.setHeader('Access-Control-Allow-Headers', '*')
-
-			// Preflight request. Reply successfully:
-			if (req.method === 'OPTIONS') {
-				res.writeHead(200)
-				res.end()
-				return
-			}
+		// CORS preflight requests are answered right away
+		if (await applyHeaders(req, res)) {
+			return
 		}
 
 		// Find matching route and execute handler
 		logger.debug(color.bold(req.method), req.url)
-		const route = router.find(parsedUrl.pathname)
+		const route = router.find(parsedUrl.pathname, req.method)
 
 		// If Vite is available, forward the request to Vite
 		if (!route?.handler && vite) {
@@ -50,8 +43,6 @@ export function createServerHandler(router: Router, vite?: ViteDevServer, onNotF
 		}
 
 		// Prepare request and reply wrappers for easier usage
-		const requestWrapper = await RoboRequest.from(req, { skipBody: !route })
-
 		const replyWrapper: RoboReply = {
 			raw: res,
 			hasSent: false,
@@ -63,6 +54,12 @@ export function createServerHandler(router: Router, vite?: ViteDevServer, onNotF
 				return this.send(RoboResponse.json(data))
 			},
 			send: function (data: BodyInit | Response) {
+				// Handlers may still reply after timing out, by which point the timeout response was sent
+				if (this.hasSent) {
+					logger.debug(`Ignoring reply for ${req.method} ${req.url} because a response was already sent`)
+					return this
+				}
+
 				const response = data instanceof Response ? data : new Response(data)
 
 				// Log errors if status code is 4xx or 5xx
@@ -115,6 +112,27 @@ export function createServerHandler(router: Router, vite?: ViteDevServer, onNotF
 			}
 		}
 
+		// Counted before the body is read, so rate limited clients can't make the server buffer it
+		if (route?.handler) {
+			const limited = await checkRouteRateLimits(route.path, req, res, route.params)
+
+			if (limited) {
+				replyWrapper.send(limited)
+				return
+			}
+		}
+
+		let requestWrapper: RoboRequest
+		try {
+			requestWrapper = await RoboRequest.from(req, { maxBodySize: pluginOptions.maxBodySize, skipBody: !route })
+		} catch (error) {
+			if (error instanceof Response) {
+				replyWrapper.send(error)
+				return
+			}
+			throw error
+		}
+
 		if (route) {
 			applyParams(requestWrapper, route.params)
 		}
@@ -0,0 +1,138 @@
+import { pluginOptions } from '../events/_start.js'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+export interface CorsOptions {
+	/** Headers browsers may send. Defaults to whatever the preflight request asks for. */
+	allowedHeaders?: string[]
+	/** Let browsers send cookies and credentials. Ignored when `origin` is `'*'`. */
+	credentials?: boolean
+	/** Response headers scripts may read. */
+	exposedHeaders?: string[]
+	/** Seconds browsers may cache a preflight response. */
+	maxAge?: number
+	/** Methods browsers may use. Defaults to `GET`, `HEAD`, `POST`, `PUT`, `PATCH` and `DELETE`. */
+	methods?: string[]
+	/**
+	 * Origins allowed to make requests: `'*'` for any, a list of origins, or a function deciding per origin.
+	 * Defaults to `'*'`.
+	 */
+	origin?: '*' | string | string[] | ((origin: string) => boolean | Promise<boolean>)
+}
+
+export interface SecurityHeadersOptions {
+	/** Value of the `Content-Security-Policy` header. Not sent unless set, since a good policy depends on your pages. */
+	contentSecurityPolicy?: string
+	/** Value of the `X-Frame-Options` header, or `false` to leave it out. Defaults to `SAMEORIGIN`. */
+	frameOptions?: 'DENY' | 'SAMEORIGIN' | false
+	/**
+	 * Send `Strict-Transport-Security` so browsers only use HTTPS.
+	 * Defaults to a max age of 180 days, including subdomains.
+	 */
+	hsts?: boolean | { includeSubDomains?: boolean; maxAge?: number; preload?: boolean }
+	/** Send `X-Content-Type-Options: nosniff`. Defaults to `true`. */
+	noSniff?: boolean
+	/** Value of the `Referrer-Policy` header, or `false` to leave it out. Defaults to `no-referrer`. */
+	referrerPolicy?: string | false
+}
+
+const DefaultMethods = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+// 180 days
+const DefaultHstsMaxAge = 15552000
+
+/**
+ * Sets the CORS and security headers enabled in the plugin options.
+ * Returns `true` if this was a CORS preflight request, which is answered here.
+ */
+export async function applyHeaders(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+	if (pluginOptions.securityHeaders) {
+		applySecurityHeaders(res, pluginOptions.securityHeaders === true ? {} : pluginOptions.securityHeaders)
+	}
+
+	if (pluginOptions.cors) {
+		return applyCors(req, res, pluginOptions.cors === true ? {} : pluginOptions.cors)
+	}
+
+	return false
+}
+
+async function applyCors(req: IncomingMessage, res: ServerResponse, options: CorsOptions): Promise<boolean> {
+	const { origin = '*' } = options
+	const requestOrigin = req.headers.origin
+	const isPreflight = req.method === 'OPTIONS' && !!req.headers['access-control-request-method']
+	let allowed = origin === '*'
+
+	if (origin === '*') {
+		res.setHeader('Access-Control-Allow-Origin', '*')
+	} else {
+		// Responses differ per origin, so caches must too
+		res.setHeader('Vary', 'Origin')
+		allowed = !!requestOrigin && (await isOriginAllowed(origin, requestOrigin))
+
+		if (allowed) {
+			res.setHeader('Access-Control-Allow-Origin', requestOrigin)
+
+			if (options.credentials) {
+				res.setHeader('Access-Control-Allow-Credentials', 'true')
+			}
+		}
+	}
+
+	if (allowed && options.exposedHeaders?.length) {
+		res.setHeader('Access-Control-Expose-Headers', options.exposedHeaders.join(', '))
+	}
+
+	if (!isPreflight) {
+		return false
+	}
+
+	if (allowed) {
+		const requestHeaders = req.headers['access-control-request-headers']
+		const allowedHeaders = options.allowedHeaders?.join(', ') ?? requestHeaders
+
+		res.setHeader('Access-Control-Allow-Methods', (options.methods ?? DefaultMethods).join(', '))
+		if (allowedHeaders) {
+			res.setHeader('Access-Control-Allow-Headers', allowedHeaders)
+		}
+		if (options.maxAge !== undefined) {
+			res.setHeader('Access-Control-Max-Age', String(options.maxAge))
+		}
+	}
+
+	// Disallowed origins get no CORS headers, so browsers block the actual request
+	res.writeHead(204)
+	res.end()
+	return true
+}
+
+function applySecurityHeaders(res: ServerResponse, options: SecurityHeadersOptions) {
+	const { frameOptions = 'SAMEORIGIN', hsts = true, noSniff = true, referrerPolicy = 'no-referrer' } = options
+
+	if (options.contentSecurityPolicy) {
+		res.setHeader('Content-Security-Policy', options.contentSecurityPolicy)
+	}
+	if (frameOptions) {
+		res.setHeader('X-Frame-Options', frameOptions)
+	}
+	if (hsts) {
+		const { includeSubDomains = true, maxAge = DefaultHstsMaxAge, preload = false } = hsts === true ? {} : hsts
+		const value = `max-age=${maxAge}` + (includeSubDomains ? '; includeSubDomains' : '') + (preload ? '; preload' : '')
+		res.setHeader('Strict-Transport-Security', value)
+	}
+	if (noSniff) {
+		res.setHeader('X-Content-Type-Options', 'nosniff')
+	}
+	if (referrerPolicy) {
+		res.setHeader('Referrer-Policy', referrerPolicy)
+	}
+}
+
+async function isOriginAllowed(origin: Exclude<CorsOptions['origin'], undefined>, requestOrigin: string) {
+	if (typeof origin === 'function') {
+		return origin(requestOrigin)
+	} else if (Array.isArray(origin)) {
+		return origin.includes(requestOrigin)
+	}
+
+	return origin === requestOrigin
+}
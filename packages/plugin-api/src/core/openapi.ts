@@ -0,0 +1,164 @@
+import { logger } from './logger.js'
+import { RoboResponse } from './robo-response.js'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { RouteHandler } from './types.js'
+
+const OpenApiPath = path.join(process.cwd(), '.robo', 'openapi.json')
+
+export interface OpenApiOptions {
+	/** Serve a page for browsing and trying out API routes in development mode. Defaults to `false`. */
+	explorer?: boolean
+	/** Path to serve the explorer at. Defaults to `/api/docs`, following `prefix`. */
+	explorerPath?: string
+	/** Path to serve the OpenAPI document at. Defaults to `/api/openapi.json`, following `prefix`. */
+	path?: string
+}
+
+/**
+ * Serves the OpenAPI document generated by `robo build`.
+ * Its paths are relative to the API prefix, so the prefix is added as the document's server.
+ */
+export function createOpenApiHandler(prefix: string): RouteHandler {
+	return async () => {
+		try {
+			const document = JSON.parse(await readFile(OpenApiPath, 'utf-8'))
+
+			return { ...document, servers: [{ url: prefix || '/' }] }
+		} catch (error) {
+			logger.debug('Could not read OpenAPI document:', error)
+
+			return RoboResponse.json(
+				{ message: 'OpenAPI document not found. Run `robo build` to generate it.' },
+				{ status: 404 }
+			)
+		}
+	}
+}
+
+/**
+ * Serves a self-contained page listing every operation in the OpenAPI document, with a form to send requests.
+ */
+export function createExplorerHandler(documentPath: string): RouteHandler {
+	// Escape "<" so the path can't close the script tag early
+	const html = ExplorerHtml.replace('__DOCUMENT_PATH__', JSON.stringify(documentPath).replace(/</g, '\\u003c'))
+
+	return () => new RoboResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+const ExplorerHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8" />
+	<meta name="viewport" content="width=device-width, initial-scale=1" />
+	<title>API Explorer</title>
+	<style>
+		body { background: #111318; color: #e6e6e6; font: 14px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; }
+		h1 { font-size: 22px; margin: 0 0 4px; }
+		h2 { border-bottom: 1px solid #2a2e37; font-size: 16px; margin: 32px 0 8px; padding-bottom: 4px; }
+		details { background: #181b21; border: 1px solid #2a2e37; border-radius: 6px; margin: 8px 0; }
+		summary { cursor: pointer; padding: 8px 12px; }
+		code, pre, textarea, input { font: 13px ui-monospace, monospace; }
+		pre { background: #0c0d10; border-radius: 4px; margin: 8px 0 0; overflow: auto; padding: 8px; white-space: pre-wrap; }
+		input, textarea { background: #0c0d10; border: 1px solid #2a2e37; border-radius: 4px; box-sizing: border-box; color: inherit; padding: 4px 6px; width: 100%; }
+		label { display: block; margin: 8px 0 2px; }
+		button { background: #5865f2; border: 0; border-radius: 4px; color: #fff; cursor: pointer; margin-top: 8px; padding: 6px 14px; }
+		.body { padding: 0 12px 12px; }
+		.method { border-radius: 4px; display: inline-block; font-weight: 600; margin-right: 8px; text-align: center; width: 64px; }
+		.get { background: #1f6f43; } .post { background: #1d4f91; } .put { background: #8a5a00; } .patch { background: #6b3fa0; } .delete { background: #9b2c2c; }
+		.muted { color: #9aa0aa; }
+	</style>
+</head>
+<body>
+	<h1 id="title">API Explorer</h1>
+	<div class="muted" id="version"></div>
+	<main id="routes"></main>
+	<script>
+		const documentPath = __DOCUMENT_PATH__
+
+		function element(tag, props, children) {
+			const node = Object.assign(document.createElement(tag), props)
+			for (const child of children || []) node.append(child)
+			return node
+		}
+
+		function renderOperation(base, path, method, operation) {
+			const parameters = operation.parameters || []
+			const inputs = parameters.map((parameter) => {
+				const input = element('input', { placeholder: parameter.schema?.type || 'string' })
+				const label = element('label', { textContent: parameter.name + ' (' + parameter.in + (parameter.required ? ', required' : '') + ')' })
+				return { input, label, parameter }
+			})
+			const body = operation.requestBody ? element('textarea', { rows: 6, value: '{}' }) : null
+			const output = element('pre', { hidden: true })
+			const send = element('button', { textContent: 'Send', type: 'button' })
+
+			send.addEventListener('click', async () => {
+				let url = path
+				const query = new URLSearchParams()
+				for (const { input, parameter } of inputs) {
+					if (!input.value) continue
+					if (parameter.in === 'path') url = url.replace('{' + parameter.name + '}', encodeURIComponent(input.value))
+					else if (parameter.in === 'query') query.append(parameter.name, input.value)
+				}
+
+				output.hidden = false
+				output.textContent = 'Sending...'
+				try {
+					const search = query.toString()
+					const response = await fetch(base.replace(/\\/$/, '') + url + (search ? '?' + search : ''), {
+						body: body ? body.value : undefined,
+						headers: body ? { 'Content-Type': 'application/json' } : undefined,
+						method: method.toUpperCase()
+					})
+					const text = await response.text()
+					let pretty = text
+					try { pretty = JSON.stringify(JSON.parse(text), null, 2) } catch {}
+					output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + pretty
+				} catch (error) {
+					output.textContent = String(error)
+				}
+			})
+
+			const summary = element('summary', {}, [
+				element('span', { className: 'method ' + method, textContent: method.toUpperCase() }),
+				element('code', { textContent: path }),
+				element('span', { className: 'muted', textContent: operation.summary ? '  ' + operation.summary : '' })
+			])
+			const fields = inputs.flatMap(({ input, label }) => [label, input])
+			if (body) fields.push(element('label', { textContent: 'JSON body' }), body)
+			const description = operation.description ? [element('p', { textContent: operation.description })] : []
+
+			return element('details', {}, [summary, element('div', { className: 'body' }, [...description, ...fields, send, output])])
+		}
+
+		fetch(documentPath)
+			.then((response) => response.json())
+			.then((spec) => {
+				const base = spec.servers?.[0]?.url || '/'
+				const groups = {}
+				document.getElementById('title').textContent = spec.info?.title || 'API Explorer'
+				document.getElementById('version').textContent = spec.info?.version ? 'Version ' + spec.info.version : ''
+
+				for (const [path, item] of Object.entries(spec.paths || {})) {
+					for (const [method, operation] of Object.entries(item)) {
+						const tag = operation.tags?.[0] || 'routes'
+						;(groups[tag] = groups[tag] || []).push(renderOperation(base, path, method, operation))
+					}
+				}
+
+				const routes = document.getElementById('routes')
+				for (const [tag, operations] of Object.entries(groups)) {
+					routes.append(element('h2', { textContent: tag }), ...operations)
+				}
+				if (!Object.keys(groups).length) {
+					routes.append(element('p', { className: 'muted', textContent: spec.message || 'No API routes found.' }))
+				}
+			})
+			.catch((error) => {
+				document.getElementById('routes').append(element('pre', { textContent: String(error) }))
+			})
+	</script>
+</body>
+</html>
+`
@@ -0,0 +1,227 @@
+import { logger } from './logger.js'
+import { RoboRequest, applyParams } from './robo-request.js'
+import { RoboResponse } from './robo-response.js'
+import { Flashcore } from 'robo.js'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+type KeyFunction = (request: RoboRequest) => string | null | undefined | Promise<string | null | undefined>
+
+export interface RateLimitOptions {
+	/**
+	 * Returns the ID of the user a request is authenticated as, such as from a verified session.
+	 * Required by the `'user'` key, since credentials sent by clients mean nothing until verified.
+	 */
+	getUserId?: KeyFunction
+	/**
+	 * What requests are counted by: `'ip'` for the client's address, `'user'` for the user returned by `getUserId`,
+	 * or a function returning a key. Requests without a user or key are counted by IP address. Defaults to `'ip'`.
+	 */
+	key?: 'ip' | 'user' | KeyFunction
+	/** Requests allowed per window. Defaults to `60`. */
+	limit?: number
+	/** Keep counts in Flashcore so they survive restarts. Writes are batched, once a second at most. Defaults to `false`. */
+	persist?: boolean
+	/**
+	 * Read the client IP from `X-Forwarded-For`. Set this to the number of proxies in front of the server, or `true` for one.
+	 * Entries are read from the right, since clients can add their own to the left. Only enable this behind proxies that
+	 * append to the header. Defaults to `false`.
+	 */
+	trustProxy?: boolean | number
+	/** Length of a window in milliseconds. Defaults to `60000`, one minute. */
+	window?: number
+}
+
+interface Bucket {
+	count: number
+	reset: number
+}
+
+const FlashcoreNamespace = '@robojs/server/rate-limit'
+
+// Counts waiting to be persisted are written together at most this often
+const PersistInterval = 1_000
+
+// Expired buckets are dropped at most this often
+const SweepInterval = 60_000
+
+const _buckets = new Map<string, Bucket>()
+const _counted = new WeakSet<IncomingMessage>()
+const _routeRateLimits = new Map<string, [string, RateLimitOptions][]>()
+const _unpersisted = new Set<string>()
+let _lastSweep = Date.now()
+let _persistTimer: NodeJS.Timeout | null = null
+let _warnedUserKey = false
+
+/**
+ * Counts a request against the rate limits of the route it matched, setting the `RateLimit-*` headers on the response.
+ * Returns a `429` response with `Retry-After` once a limit is used up, or `null` when the request may continue.
+ *
+ * Engines call this as soon as they know the route, before reading the body, so limited clients can't make the server
+ * buffer it. Requests are only counted once, so route handlers can call it again for engines that don't.
+ */
+export async function checkRouteRateLimits(
+	path: string,
+	req: IncomingMessage,
+	res: ServerResponse,
+	params?: Record<string, string>
+): Promise<RoboResponse | null> {
+	const rateLimits = _routeRateLimits.get(path)
+
+	if (!rateLimits?.length || _counted.has(req)) {
+		return null
+	}
+
+	_counted.add(req)
+	const request = await RoboRequest.from(req, { skipBody: true })
+	if (params) {
+		applyParams(request, params)
+	}
+
+	for (const [scope, options] of rateLimits) {
+		const limited = await checkRateLimit(scope, options, request, res)
+
+		if (limited) {
+			return limited
+		}
+	}
+
+	return null
+}
+
+/**
+ * Sets the rate limits covering a route, in the order they're checked.
+ * Counts are kept per scope, so the same client has separate counts for the global and each route's limits.
+ */
+export function setRouteRateLimits(path: string, rateLimits: [string, RateLimitOptions][]) {
+	_routeRateLimits.set(path, rateLimits)
+}
+
+async function checkRateLimit(
+	scope: string,
+	options: RateLimitOptions,
+	request: RoboRequest,
+	res: ServerResponse
+): Promise<RoboResponse | null> {
+	const { limit = 60, persist = false, window = 60_000 } = options
+	const key = scope + ':' + (await getKey(request, options))
+	const bucket = await hit(key, window, persist)
+	const reset = Math.max(0, Math.ceil((bucket.reset - Date.now()) / 1000))
+
+	// Set on the raw response so they're kept whichever way the handler replies
+	res.setHeader('RateLimit-Limit', String(limit))
+	res.setHeader('RateLimit-Remaining', String(Math.max(0, limit - bucket.count)))
+	res.setHeader('RateLimit-Reset', String(reset))
+	res.setHeader('RateLimit-Policy', `${limit};w=${Math.ceil(window / 1000)}`)
+
+	if (bucket.count <= limit) {
+		return null
+	}
+
+	logger.debug(`Rate limit reached for ${key}`)
+	return RoboResponse.json({ message: 'Too Many Requests' }, { headers: { 'Retry-After': String(reset) }, status: 429 })
+}
+
+function getClientIp(request: RoboRequest, trustProxy: boolean | number) {
+	const hops = trustProxy === true ? 1 : Number(trustProxy) || 0
+	const forwardedFor = request.headers.get('x-forwarded-for')
+
+	if (hops > 0 && forwardedFor) {
+		// Each proxy appends the address it received the request from, so only the last `hops` entries are trustworthy
+		const addresses = forwardedFor.split(',').map((address) => address.trim())
+		return addresses[Math.max(0, addresses.length - hops)]
+	}
+
+	return request.raw.socket?.remoteAddress ?? 'unknown'
+}
+
+async function getKey(request: RoboRequest, options: RateLimitOptions) {
+	const { getUserId, key = 'ip', trustProxy = false } = options
+
+	if (typeof key === 'function') {
+		const custom = await key(request)
+
+		if (custom) {
+			return 'custom:' + custom
+		}
+	} else if (key === 'user' && getUserId) {
+		const userId = await getUserId(request)
+
+		if (userId) {
+			return 'user:' + userId
+		}
+	} else if (key === 'user' && !_warnedUserKey) {
+		_warnedUserKey = true
+		logger.warn(`Rate limits with the 'user' key need a getUserId function. Counting by IP address instead.`)
+	}
+
+	return 'ip:' + getClientIp(request, trustProxy)
+}
+async function hit(key: string, window: number, persist: boolean): Promise<Bucket> {
+	const now = Date.now()
+	sweep(now)
+
+	let bucket = _buckets.get(key)
+
+	if (!bucket && persist) {
+		const stored = await Flashcore.get<Bucket>(key, { namespace: FlashcoreNamespace })
+
+		// Another request may have started counting while this one was reading
+		bucket = _buckets.get(key) ?? stored ?? undefined
+	}
+	if (!bucket || bucket.reset <= now) {
+		bucket = { count: 0, reset: now + window }
+	}
+
+	bucket.count++
+	_buckets.set(key, bucket)
+
+	if (persist) {
+		schedulePersist(key)
+	}
+
+	return bucket
+}
+
+// Writes every count changed since the last write, so busy clients don't cause a Flashcore write per request
+async function persistBuckets() {
+	_persistTimer = null
+	const now = Date.now()
+	const keys = [..._unpersisted]
+	_unpersisted.clear()
+
+	for (const key of keys) {
+		const bucket = _buckets.get(key)
+
+		if (!bucket || bucket.reset <= now) {
+			continue
+		}
+
+		try {
+			await Flashcore.set(key, bucket, { namespace: FlashcoreNamespace, ttl: bucket.reset - now })
+		} catch (error) {
+			logger.warn(`Could not persist rate limit for ${key}:`, error)
+		}
+	}
+}
+
+function schedulePersist(key: string) {
+	_unpersisted.add(key)
+
+	if (!_persistTimer) {
+		_persistTimer = setTimeout(persistBuckets, PersistInterval)
+		_persistTimer.unref()
+	}
+}
+
+function sweep(now: number) {
+	if (now - _lastSweep < SweepInterval) {
+		return
+	}
+
+	_lastSweep = now
+	for (const [key, bucket] of _buckets) {
+		if (bucket.reset <= now) {
+			_buckets.delete(key)
+		}
+	}
+}
@@ -1,19 +1,29 @@
+import { RoboResponse } from './robo-response.js'
+import type { RequestData } from './types.js'
 import type { IncomingMessage } from 'node:http'
 
 const INTERNALS = Symbol('internal request')
 
 interface FromOptions {
 	body?: Buffer
+	/** Bytes the body may take up. Larger bodies are rejected with a `413` response. */
+	maxBodySize?: number
 	skipBody?: boolean
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RequestBody<T extends RequestData> = T extends { body: infer B } ? B : any
+type RequestParams<T extends RequestData> = T extends { params: infer P } ? P : Record<string, string>
+type RequestQuery<T extends RequestData> = T extends { query: infer Q } ? Q : Record<string, string | string[]>
+
 /**
  * Extends the [Web Request API](https://developer.mozilla.org/docs/Web/API/Request) with additional convenience methods.
  */
-export class RoboRequest extends Request {
+export class RoboRequest<T extends RequestData = RequestData> extends Request {
 	[INTERNALS]: {
 		params: Record<string, string>
 		raw: IncomingMessage
+		validated: RequestData
 	}
 
 	private constructor(input: RequestInfo | URL, init: RequestInit = {}) {
@@ -28,24 +38,40 @@ export class RoboRequest extends Request {
 
 		this[INTERNALS] = {
 			params: {},
-			raw: {} as IncomingMessage
+			raw: {} as IncomingMessage,
+			validated: {}
 		}
 	}
 
-	public get params(): Record<string, string> {
-		return this[INTERNALS].params
+	public get params(): RequestParams<T> {
+		return (this[INTERNALS].validated.params ?? this[INTERNALS].params) as RequestParams<T>
 	}
 
-	public get query(): Record<string, string | string[]> {
+	public get query(): RequestQuery<T> {
+		if (this[INTERNALS].validated.query) {
+			return this[INTERNALS].validated.query as RequestQuery<T>
+		}
+
 		const url = new URL(this.url)
 		const query = Object.fromEntries(url.searchParams.entries())
-		return query
+		return query as RequestQuery<T>
 	}
 
 	public get raw(): IncomingMessage {
 		return this[INTERNALS].raw
 	}
 
+	/**
+	 * Parses the body as JSON, or returns the validated body when the route's config has a `body` schema.
+	 */
+	public async json(): Promise<RequestBody<T>> {
+		if ('body' in this[INTERNALS].validated) {
+			return this[INTERNALS].validated.body as RequestBody<T>
+		}
+
+		return super.json()
+	}
+
 	public static async from(req: IncomingMessage, options?: FromOptions): Promise<RoboRequest> {
 		const rawProtoHeader = req.headers['x-forwarded-proto'] // may return "https, http"
 		const rawProto = Array.isArray(rawProtoHeader) ? rawProtoHeader[0] : rawProtoHeader || 'http'
@@ -60,12 +86,7 @@ export class RoboRequest extends Request {
 
 		let body: BodyInit | null = options?.body ?? null
 		if (!options?.skipBody && !options?.body && !['GET', 'HEAD'].includes(method)) {
-			body = await new Promise<Buffer>((resolve, reject) => {
-				const chunks: Buffer[] = []
-				req.on('data', (chunk) => chunks.push(chunk))
-				req.on('end', () => resolve(Buffer.concat(chunks)))
-				req.on('error', reject)
-			})
+			body = await readBody(req, options?.maxBodySize ?? Infinity)
 		}
 
 		const request = new RoboRequest(url, { body: body as BodyInit, headers, method })
@@ -75,10 +96,50 @@ export class RoboRequest extends Request {
 	}
 }
 
+function payloadTooLarge() {
+	return RoboResponse.json({ message: 'Payload Too Large' }, { headers: { Connection: 'close' }, status: 413 })
+}
+
+/**
+ * Buffers a request body, rejecting with a `413` response as soon as it grows past `maxBodySize`.
+ */
+function readBody(req: IncomingMessage, maxBodySize: number): Promise<Buffer> {
+	if (Number(req.headers['content-length']) > maxBodySize) {
+		// Drain the body without keeping it so the response can still be sent
+		req.resume()
+		return Promise.reject(payloadTooLarge())
+	}
+
+	return new Promise<Buffer>((resolve, reject) => {
+		const chunks: Buffer[] = []
+		let size = 0
+
+		const onData = (chunk: Buffer) => {
+			size += chunk.length
+
+			if (size > maxBodySize) {
+				req.off('data', onData)
+				req.resume()
+				reject(payloadTooLarge())
+			} else {
+				chunks.push(chunk)
+			}
+		}
+
+		req.on('data', onData)
+		req.on('end', () => resolve(Buffer.concat(chunks)))
+		req.on('error', reject)
+	})
+}
+
 export function applyParams(request: RoboRequest, params: Record<string, string>) {
 	request[INTERNALS].params = params
 }
 
+export function applyValidation(request: RoboRequest, data: RequestData) {
+	request[INTERNALS].validated = data
+}
+
 export function validateURL(url: string | URL): string {
 	try {
 		return String(new URL(String(url)))
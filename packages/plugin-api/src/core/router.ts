@@ -1,8 +1,11 @@
 import { createRouter } from './radix3.js'
-import type { RouteHandler } from './types.js'
+import { RoboResponse } from './robo-response.js'
+import type { RouteHandler, RouteHandlers, RouteMethod } from './types.js'
+
+export const RouteMethods: RouteMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
 
 interface Route {
-	handler: RouteHandler
+	handler: RouteHandler | RouteHandlers
 	path: string
 }
 
@@ -22,7 +25,10 @@ export class Router {
 		this._routes.push(route)
 	}
 
-	find(path: string): RouteResult {
+	/**
+	 * Finds the route matching a path, along with the handler for the request method.
+	 */
+	find(path: string, method = 'GET'): RouteResult {
 		// Remove query params from the path to avoid param issues.
 		const hasQuery = path.includes('?')
 		const route = this._router.lookup(hasQuery ? path.substring(0, path.indexOf('?')) : path)
@@ -32,7 +38,7 @@ export class Router {
 		}
 
 		return {
-			handler: route.handler as RouteHandler,
+			handler: resolveHandler(route.handler as Route['handler'], method),
 			params: route.params as Record<string, string>,
 			path: route.path as string,
 			query: hasQuery ? parseQuery(path) : {}
@@ -54,6 +60,47 @@ export class Router {
 	}
 }
 
+/**
+ * Lists the methods a route answers, as used in its `Allow` header.
+ */
+export function getAllowedMethods(handlers: RouteHandlers): string[] {
+	const methods: string[] = RouteMethods.filter((method) => handlers[method])
+
+	if (handlers.GET) {
+		methods.push('HEAD')
+	}
+	methods.push('OPTIONS')
+
+	return methods
+}
+
+/**
+ * Picks the handler for a request method. A single function handles every method.
+ *
+ * Otherwise, `HEAD` falls back to `GET` and anything else without a handler falls back to `default`.
+ * Without either, `OPTIONS` gets a `204` and other methods get a `405`, both with an `Allow` header.
+ */
+export function resolveHandler(handler: RouteHandler | RouteHandlers, method = 'GET'): RouteHandler {
+	if (typeof handler === 'function') {
+		return handler
+	}
+
+	const methodHandler = RouteMethods.includes(method as RouteMethod) ? handler[method as RouteMethod] : undefined
+	const resolved = methodHandler ?? (method === 'HEAD' ? handler.GET : undefined) ?? handler.default
+
+	if (resolved) {
+		return resolved
+	}
+
+	const headers = { Allow: getAllowedMethods(handler).join(', ') }
+
+	if (method === 'OPTIONS') {
+		return () => new RoboResponse(null, { headers, status: 204 })
+	}
+
+	return () => RoboResponse.json({ message: 'Method Not Allowed' }, { headers, status: 405 })
+}
+
 const parseQuery = (path: string): Record<string, string | string[]> => {
 	const query: Record<string, string | string[]> = {}
 
@@ -1,3 +1,4 @@
+import type { RateLimitOptions } from './rate-limit.js'
 import type { RoboRequest } from './robo-request.js'
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import type { Duplex } from 'node:stream'
@@ -16,14 +17,124 @@ export interface RoboReply {
 
 export type RouteHandler = (req: RoboRequest, res: RoboReply) => unknown | Promise<unknown>
 
+/** Methods an API route file can export a handler for. `HEAD` and `OPTIONS` are answered automatically. */
+export type RouteMethod = 'DELETE' | 'GET' | 'PATCH' | 'POST' | 'PUT'
+
+/** Handlers exported by an API route file. `default` handles every method without its own export. */
+export type RouteHandlers = Partial<Record<RouteMethod | 'default', RouteHandler>>
+
+/**
+ * Default export of a `_middleware` file, run before every API route in its folder.
+ * Return a value or send a response to end the request early.
+ */
+export type RouteMiddleware = (req: RoboRequest, res: RoboReply) => unknown | Promise<unknown>
+
 export type NotFoundHandler = (req: RoboRequest, res: RoboReply) => unknown | Promise<unknown>
 
 export type WebSocketHandler = (req: IncomingMessage, socket: Duplex, head: Buffer) => void
 
 export interface Api {
-	default: (request: RoboRequest, reply: RoboReply) => unknown | Promise<unknown>
+	config?: ApiConfig
+	default?: RouteHandler
+	DELETE?: RouteHandler
+	GET?: RouteHandler
+	PATCH?: RouteHandler
+	POST?: RouteHandler
+	PUT?: RouteHandler
+}
+
+/**
+ * Config exported by an API route file. Requests are validated against its schemas before any handler runs.
+ */
+export interface ApiConfig extends BaseConfig {
+	/** Schema for JSON request bodies. Skipped for `GET` and `HEAD` requests. */
+	body?: Schema
+	/** Schema for route parameters, such as `id` in `/api/users/[id]`. */
+	params?: Schema
+	/** Schema for query parameters. Keys repeated in the URL are passed as arrays. */
+	query?: Schema
+	/** Rate limit for this route, counted separately from the global one. Set to `false` to skip the global limit. */
+	rateLimit?: boolean | RateLimitOptions
+	/** Milliseconds before the request is answered with a `503`, overriding the global `timeout`. */
+	timeout?: number
 }
 
+/** Anything with a zod-compatible `safeParse` method. */
+export interface ParseSchema<T = unknown> {
+	safeParse: (
+		data: unknown
+	) => { data: T; success: true } | { error: { issues: readonly SchemaIssue[] }; success: false }
+}
+
+export interface SchemaIssue {
+	message: string
+	path: readonly PropertyKey[]
+}
+
+export type JsonSchemaType = 'array' | 'boolean' | 'integer' | 'null' | 'number' | 'object' | 'string'
+
+/**
+ * The subset of JSON Schema checked by the server.
+ * Strings in route and query parameters are coerced to the `type` their schema expects.
+ */
+export interface JsonSchema {
+	additionalProperties?: boolean
+	default?: unknown
+	enum?: readonly unknown[]
+	items?: JsonSchema
+	maximum?: number
+	maxLength?: number
+	minimum?: number
+	minLength?: number
+	pattern?: string
+	properties?: Record<string, JsonSchema>
+	required?: readonly string[]
+	type?: JsonSchemaType | readonly JsonSchemaType[]
+}
+
+export type Schema = JsonSchema | ParseSchema
+
+/** Values a `RoboRequest` holds once validated, used to type its `params`, `query` and `json()`. */
+export interface RequestData {
+	body?: unknown
+	params?: unknown
+	query?: unknown
+}
+
+/** A single mismatch, as listed in the `400` response to an invalid request. */
+export interface ValidationIssue {
+	location: 'body' | 'params' | 'query'
+	message: string
+	path: (number | string)[]
+}
+
+/**
+ * Types a handler's request from the schemas in its route's config.
+ *
+ * @example
+ * ```ts
+ * export const config = {
+ * 	body: z.object({ name: z.string() })
+ * } satisfies ApiConfig
+ *
+ * export const POST = async (request: ValidatedRequest<typeof config>) => {
+ * 	const { name } = await request.json()
+ * }
+ * ```
+ */
+export type ValidatedRequest<C extends ApiConfig> = RoboRequest<{
+	body: InferSchema<C, 'body', unknown, unknown>
+	params: InferSchema<C, 'params', Record<string, string>, Record<string, unknown>>
+	query: InferSchema<C, 'query', Record<string, string | string[]>, Record<string, unknown>>
+}>
+
+// Values checked by JSON Schemas aren't inferred, so they're typed loosely
+type InferSchema<C, K extends string, Fallback, JsonFallback> = C extends Record<K, infer S>
+	? S extends ParseSchema<infer T>
+		? T
+		: JsonFallback
+	: Fallback
+
 export interface ApiEntry extends BaseConfig {
 	subroutes?: Record<string, ApiEntry>
 }
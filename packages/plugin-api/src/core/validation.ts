@@ -0,0 +1,233 @@
+import { applyValidation } from './robo-request.js'
+import { RoboResponse } from './robo-response.js'
+import type { RoboRequest } from './robo-request.js'
+import type {
+	ApiConfig,
+	JsonSchema,
+	JsonSchemaType,
+	ParseSchema,
+	RequestData,
+	Schema,
+	ValidationIssue
+} from './types.js'
+
+type Report = (path: (number | string)[], message: string) => void
+
+/**
+ * Validates a request against the schemas in its route's config, keeping the parsed values on the request.
+ * Returns a `400` response listing every issue when anything doesn't match, or `null` when the request is valid.
+ */
+export async function validateRequest(request: RoboRequest, config?: ApiConfig): Promise<RoboResponse | null> {
+	if (!config?.body && !config?.params && !config?.query) {
+		return null
+	}
+
+	const data: RequestData = {}
+	const issues: ValidationIssue[] = []
+
+	if (config.params) {
+		data.params = parse(config.params, request.params, 'params', issues)
+	}
+	if (config.query) {
+		data.query = parse(config.query, getQuery(request), 'query', issues)
+	}
+	if (config.body && !['GET', 'HEAD'].includes(request.method)) {
+		const body = await readJson(request)
+
+		if (body.valid) {
+			data.body = parse(config.body, body.value, 'body', issues)
+		} else {
+			issues.push({ location: 'body', message: 'Expected a valid JSON body', path: [] })
+		}
+	}
+
+	if (issues.length) {
+		return RoboResponse.json({ errors: issues, message: 'Invalid request' }, { status: 400 })
+	}
+
+	applyValidation(request, data)
+	return null
+}
+
+function parse(schema: Schema, value: unknown, location: ValidationIssue['location'], issues: ValidationIssue[]) {
+	const report: Report = (path, message) => issues.push({ location, message, path })
+
+	if (!isParseSchema(schema)) {
+		// Route and query parameters always arrive as strings
+		return checkJsonSchema(schema, value, [], location !== 'body', report)
+	}
+
+	const result = schema.safeParse(value)
+	if (result.success) {
+		return result.data
+	}
+
+	const { error } = result as Extract<typeof result, { success: false }>
+	for (const issue of error.issues) {
+		report(
+			issue.path.map((key) => (typeof key === 'number' ? key : String(key))),
+			issue.message
+		)
+	}
+}
+
+/**
+ * Checks a value against a JSON Schema, reporting every mismatch.
+ * Returns the value with defaults applied and, if `coerce` is set, strings converted to the expected types.
+ */
+function checkJsonSchema(
+	schema: JsonSchema,
+	input: unknown,
+	path: (number | string)[],
+	coerce: boolean,
+	report: Report
+): unknown {
+	let value = input === undefined ? schema.default : input
+
+	if (schema.type !== undefined) {
+		const types: readonly JsonSchemaType[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+		const candidates = types.map((type) => (coerce ? coerceValue(type, value) : value))
+		const index = types.findIndex((type, i) => isType(type, candidates[i]))
+
+		if (index < 0) {
+			report(path, `Expected ${types.join(' or ')}`)
+			return value
+		}
+		value = candidates[index]
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		report(path, `Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`)
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			report(path, `Expected at least ${schema.minLength} characters`)
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			report(path, `Expected at most ${schema.maxLength} characters`)
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+			report(path, `Expected to match ${schema.pattern}`)
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			report(path, `Expected at least ${schema.minimum}`)
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			report(path, `Expected at most ${schema.maximum}`)
+		}
+	}
+
+	if (Array.isArray(value) && schema.items) {
+		value = value.map((item, i) => checkJsonSchema(schema.items, item, [...path, i], coerce, report))
+	}
+
+	if (isType('object', value) && (schema.properties || schema.required || schema.additionalProperties === false)) {
+		const properties = schema.properties ?? {}
+		const result: Record<string, unknown> = {}
+
+		for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+			if (Object.hasOwn(properties, key)) {
+				setProperty(result, key, checkJsonSchema(properties[key], item, [...path, key], coerce, report))
+			} else if (schema.additionalProperties === false) {
+				report([...path, key], 'Unexpected property')
+			} else {
+				setProperty(result, key, item)
+			}
+		}
+
+		for (const [key, item] of Object.entries(properties)) {
+			if (getProperty(result, key) === undefined && item.default !== undefined) {
+				setProperty(result, key, item.default)
+			}
+		}
+
+		for (const key of schema.required ?? []) {
+			if (getProperty(result, key) === undefined) {
+				report([...path, key], 'Required')
+			}
+		}
+
+		value = result
+	}
+
+	return value
+}
+
+function coerceValue(type: JsonSchemaType, value: unknown) {
+	if (type === 'array') {
+		return value === undefined || Array.isArray(value) ? value : [value]
+	}
+	if (typeof value !== 'string') {
+		return value
+	}
+
+	if ((type === 'integer' || type === 'number') && value.trim() !== '') {
+		return Number(value)
+	} else if (type === 'boolean' && (value === 'true' || value === 'false')) {
+		return value === 'true'
+	}
+
+	return value
+}
+
+// Only own properties count, so keys such as `constructor` don't resolve to inherited values
+function getProperty(target: object, key: string): unknown {
+	return Object.hasOwn(target, key) ? target[key as keyof typeof target] : undefined
+}
+
+function isParseSchema(schema: Schema): schema is ParseSchema {
+	return typeof (schema as ParseSchema).safeParse === 'function'
+}
+
+function isType(type: JsonSchemaType, value: unknown) {
+	switch (type) {
+		case 'array':
+			return Array.isArray(value)
+		case 'integer':
+			return Number.isInteger(value)
+		case 'null':
+			return value === null
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value)
+		case 'object':
+			return typeof value === 'object' && value !== null && !Array.isArray(value)
+		default:
+			return typeof value === type
+	}
+}
+
+// Keys such as `__proto__` become plain properties instead of replacing the object's prototype
+function setProperty(target: object, key: string, value: unknown) {
+	Object.defineProperty(target, key, { configurable: true, enumerable: true, value, writable: true })
+}
+
+/** Query parameters with repeated keys collected into arrays. */
+function getQuery(request: RoboRequest) {
+	const query: Record<string, string | string[]> = {}
+
+	for (const [key, value] of new URL(request.url).searchParams) {
+		const existing = getProperty(query, key)
+		setProperty(
+			query,
+			key,
+			existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value]
+		)
+	}
+
+	return query
+}
+
+// Reads from a clone so the handler can still use `text()` or `formData()` itself
+async function readJson(request: RoboRequest): Promise<{ valid: boolean; value?: unknown }> {
+	const text = await request.clone().text()
+
+	try {
+		return { valid: true, value: text ? JSON.parse(text) : undefined }
+	} catch {
+		return { valid: false }
+	}
+}
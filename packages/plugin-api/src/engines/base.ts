@@ -1,4 +1,4 @@
-import type { NotFoundHandler, RouteHandler, WebSocketHandler } from '../core/types.js'
+import type { NotFoundHandler, RouteHandler, RouteHandlers, WebSocketHandler } from '../core/types.js'
 import type { Server } from 'node:http'
 import type { ViteDevServer } from 'vite'
 
@@ -36,9 +36,9 @@ export abstract class BaseEngine {
 	 * Registers a route handler for the given path.
 	 *
 	 * @param path The path to register the handler for. (e.g. `/api/test`)
-	 * @param handler The handler function to call when the path is requested.
+	 * @param handler The handler function to call when the path is requested, or handlers keyed by HTTP method.
 	 */
-	public abstract registerRoute(path: string, handler: RouteHandler): void | Promise<void>
+	public abstract registerRoute(path: string, handler: RouteHandler | RouteHandlers): void | Promise<void>
 
 	public abstract registerWebsocket(path: string, handler: WebSocketHandler): void | Promise<void>
 
@@ -1,11 +1,15 @@
 import { handlePublicFile } from '../core/handler.js'
+import { applyHeaders } from '../core/headers.js'
 import { logger } from '../core/logger.js'
+import { checkRouteRateLimits } from '../core/rate-limit.js'
 import { RoboRequest, applyParams } from '../core/robo-request.js'
+import { resolveHandler } from '../core/router.js'
+import { pluginOptions } from '../events/_start.js'
 import { BaseEngine } from './base.js'
 import { createReadStream } from 'node:fs'
 import url from 'node:url'
 import { color, composeColors } from 'robo.js'
-import type { NotFoundHandler, RoboReply, RouteHandler } from '../core/types.js'
+import type { NotFoundHandler, RoboReply, RouteHandler, RouteHandlers } from '../core/types.js'
 import type { InitOptions, StartOptions } from './base.js'
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
 import type { ViteDevServer } from 'vite'
@@ -23,16 +27,61 @@ export class FastifyEngine extends BaseEngine {
 
 		this._server.removeAllContentTypeParsers()
 		this._server.addContentTypeParser('*', (_req, payload, done) => {
+			const { maxBodySize = Infinity } = pluginOptions
 			const chunks: Buffer[] = []
-			payload.on('data', (chunk) => {
-				chunks.push(chunk)
-			})
+			let size = 0
+
+			const onData = (chunk: Buffer) => {
+				size += chunk.length
+
+				if (size > maxBodySize) {
+					// Drain the rest without keeping it so the 413 response can still be sent
+					payload.off('data', onData)
+					payload.removeAllListeners('end')
+					payload.resume()
+					done(Object.assign(new Error('Payload Too Large'), { statusCode: 413 }), undefined)
+				} else {
+					chunks.push(chunk)
+				}
+			}
+
+			payload.on('data', onData)
 			payload.on('end', () => {
 				done(null, Buffer.concat(chunks))
 			})
 		})
 
+		// CORS preflight requests are answered right away
+		this._server.addHook('onRequest', async (request, reply) => {
+			if (await applyHeaders(request.raw, reply.raw)) {
+				reply.hijack()
+				return
+			}
+
+			// Counted before the body is parsed, so rate limited clients can't make the server buffer it
+			const routePath = request.routeOptions?.url
+			const limited = routePath
+				? await checkRouteRateLimits(routePath, request.raw, reply.raw, request.params as Record<string, string>)
+				: null
+
+			if (limited) {
+				reply.hijack()
+				limited.headers.forEach((value, key) => {
+					reply.raw.setHeader(key, value)
+				})
+				reply.raw.statusCode = limited.status
+				reply.raw.end(await limited.text())
+			}
+		})
+
 		this._server.setErrorHandler((error, _request, reply) => {
+			// Client errors, such as bodies over the size limit, keep their status code
+			if (error.statusCode >= 400 && error.statusCode < 500) {
+				logger.debug(error.message)
+				reply.status(error.statusCode).send({ message: error.message })
+				return
+			}
+
 			logger.error(error)
 			reply.status(500).send({ ok: false })
 		})
@@ -93,7 +142,7 @@ export class FastifyEngine extends BaseEngine {
 		return this._isRunning
 	}
 
-	public registerRoute(path: string, handler: RouteHandler): void {
+	public registerRoute(path: string, handler: RouteHandler | RouteHandlers): void {
 		this._server.route({
 			method: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'],
 			url: path,
@@ -109,11 +158,22 @@ export class FastifyEngine extends BaseEngine {
 						return this
 					},
 					json: function (data: unknown) {
+						if (this.hasSent) {
+							logger.debug(`Ignoring reply for ${request.method} ${request.url} because a response was already sent`)
+							return this
+						}
+
 						reply.header('Content-Type', 'application/json').send(JSON.stringify(data))
 						this.hasSent = true
 						return this
 					},
 					send: function (data: Response | string) {
+						// Handlers may still reply after timing out, by which point the timeout response was sent
+						if (this.hasSent) {
+							logger.debug(`Ignoring reply for ${request.method} ${request.url} because a response was already sent`)
+							return this
+						}
+
 						if (data instanceof Response) {
 							reply.hijack()
 
@@ -121,8 +181,9 @@ export class FastifyEngine extends BaseEngine {
 								logger.error(data)
 							}
 
-							data.headers.forEach(([key, value]) => {
-								reply.header(key, value)
+							// Hijacked replies skip Fastify's headers, so write them to the raw response
+							data.headers.forEach((value, key) => {
+								this.raw.setHeader(key, value)
 							})
 
 							this.raw.statusCode = data.status
@@ -143,7 +204,7 @@ export class FastifyEngine extends BaseEngine {
 
 				try {
 					logger.debug(color.bold(request.method), request.raw.url)
-					const result = await handler(requestWrapper, replyWrapper)
+					const result = await resolveHandler(handler, request.method)(requestWrapper, replyWrapper)
 
 					if (!replyWrapper.hasSent && result instanceof Response) {
 						replyWrapper.send(result)
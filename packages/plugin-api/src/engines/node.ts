@@ -4,7 +4,7 @@ import { Router } from '../core/router.js'
 import { BaseEngine } from '../engines/base.js'
 import http from 'node:http'
 import { color, composeColors } from 'robo.js'
-import type { NotFoundHandler, RouteHandler, WebSocketHandler } from '../core/types.js'
+import type { NotFoundHandler, RouteHandler, RouteHandlers, WebSocketHandler } from '../core/types.js'
 import type { InitOptions, StartOptions } from '../engines/base.js'
 import type { ViteDevServer } from 'vite'
 
@@ -52,7 +52,7 @@ export class NodeEngine extends BaseEngine {
 		return this._isRunning
 	}
 
-	public registerRoute(path: string, handler: RouteHandler) {
+	public registerRoute(path: string, handler: RouteHandler | RouteHandlers) {
 		this._router?.addRoute({ handler, path })
 }
 
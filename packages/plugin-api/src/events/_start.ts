@@ -1,25 +1,44 @@
 import { logger } from '../core/logger.js'
+import { createExplorerHandler, createOpenApiHandler } from '../core/openapi.js'
+import { checkRouteRateLimits, setRouteRateLimits } from '../core/rate-limit.js'
+import { RoboResponse } from '../core/robo-response.js'
+import { RouteMethods } from '../core/router.js'
 import { hasDependency } from '../core/runtime-utils.js'
 import { setConfig, setEngine } from '../core/server.js'
+import { validateRequest } from '../core/validation.js'
 import { existsSync } from 'node:fs'
 import path from 'node:path'
 import { color, portal } from 'robo.js'
-import { Nanocore } from 'robo.js/unstable.js'
+import { Nanocore, executeMiddleware, executeWithAfterHooks } from 'robo.js/unstable.js'
+import type { RoboRequest } from '../core/robo-request.js'
+import type { ApiConfig, RoboReply, RouteHandler, RouteHandlers } from '../core/types.js'
+import type { CorsOptions, SecurityHeadersOptions } from '../core/headers.js'
+import type { OpenApiOptions } from '../core/openapi.js'
+import type { RateLimitOptions } from '../core/rate-limit.js'
 import type { BaseEngine } from '../engines/base.js'
+import type { Api, HandlerRecord } from 'robo.js'
 import type { Client } from 'discord.js'
 import type { ViteDevServer } from 'vite'
 
 const PATH_REGEX = new RegExp(/\[(.+?)\]/g)
 
 export interface PluginConfig {
-    cors?: boolean
+    cors?: boolean | CorsOptions
     engine?: BaseEngine
     hostname?: string
+    maxBodySize?: number
+    openapi?: boolean | OpenApiOptions
     port?: number
     prefix?: string | null | false
+    rateLimit?: boolean | RateLimitOptions
+    securityHeaders?: boolean | SecurityHeadersOptions
+    timeout?: number
     vite?: ViteDevServer
 }
 
+// 1 MB, same as Fastify's default
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024
+
 export let pluginOptions: PluginConfig = {}
 
 export default async (_client: Client, options: PluginConfig) => {
@@ -30,6 +49,9 @@ export default async (_client: Client, options: PluginConfig) => {
     if (pluginOptions.prefix === undefined) {
         pluginOptions.prefix = '/api'
     }
+    if (pluginOptions.maxBodySize === undefined) {
+        pluginOptions.maxBodySize = DEFAULT_MAX_BODY_SIZE
+    }
     if (!pluginOptions.engine) {
         pluginOptions.engine = await getDefaultEngine()
     }
@@ -88,12 +110,33 @@ export default async (_client: Client, options: PluginConfig) => {
     const prefix = pluginOptions.prefix ?? ''
     const paths: string[] = []
 
+    // `_middleware` files run before every route in their folder instead of being routes themselves
+    const routeMiddleware = portal.apis.filter((api) => isRouteMiddleware(api.key))
+
     portal.apis.forEach((api) => {
+        if (isRouteMiddleware(api.key)) {
+            return
+        }
+
         const key = prefix + '/' + api.key.replace(PATH_REGEX, ':$1')
         paths.push(key)
-        engine.registerRoute(key, api.handler.default)
+        setRouteRateLimits(key, getRateLimits(api))
+        engine.registerRoute(key, getRouteHandlers(key, api, getScopedMiddleware(api.key, [...routeMiddleware.values()])))
     })
 
+    // Serve the OpenAPI document generated by `robo build` in development, or anywhere when enabled
+    const serveOpenApi = pluginOptions.openapi ?? process.env.NODE_ENV === 'development'
+    if (serveOpenApi) {
+        const openapi = typeof pluginOptions.openapi === 'object' ? pluginOptions.openapi : {}
+        const documentPath = openapi.path ?? (prefix || '') + '/openapi.json'
+        registerBuiltInRoute(documentPath, createOpenApiHandler(prefix || ''), paths, [...routeMiddleware.values()])
+
+        if (openapi.explorer && process.env.NODE_ENV !== 'production') {
+            const explorerPath = openapi.explorerPath ?? (prefix || '') + '/docs'
+            registerBuiltInRoute(explorerPath, createExplorerHandler(documentPath), paths, [...routeMiddleware.values()])
+        }
+    }
+
     logger.debug(`Starting server...`)
     await engine.start({ hostname, port })
 
@@ -103,6 +146,174 @@ export default async (_client: Client, options: PluginConfig) => {
 		Nanocore.update('watch', { localUrl })
 }
 
+/**
+ * Registers a GET route provided by this plugin, unless an API route file already uses its path.
+ * It's rate limited and runs the `_middleware` handlers covering its path, the same as API routes.
+ */
+function registerBuiltInRoute(
+    routePath: string,
+    handler: RouteHandler,
+    paths: string[],
+    routeMiddleware: HandlerRecord<Api>[]
+) {
+    if (paths.includes(routePath)) {
+        logger.warn(`Skipping built-in route ${color.bold(routePath)} because an API route already uses it.`)
+        return
+    }
+
+    const prefix = pluginOptions.prefix || ''
+    const key = (routePath.startsWith(prefix + '/') ? routePath.slice(prefix.length) : routePath).replace(/^\/+/, '')
+    const scopedMiddleware = getScopedMiddleware(key, routeMiddleware)
+
+    paths.push(routePath)
+    setRouteRateLimits(routePath, getRateLimits())
+    pluginOptions.engine.registerRoute(routePath, {
+        GET: async (request, reply) => {
+            const limited = await checkRouteRateLimits(routePath, request.raw, reply.raw, request.params)
+            if (limited) {
+                return limited
+            }
+
+            const ended = await runRouteMiddleware(key, scopedMiddleware, request, reply)
+            return ended ? ended.result : handler(request, reply)
+        }
+    })
+}
+
+/**
+ * Collects the `default` and method handlers exported by an API route file, each wrapped in middleware.
+ */
+function getRouteHandlers(path: string, api: HandlerRecord<Api>, routeMiddleware: HandlerRecord<Api>[]): RouteHandlers {
+    const handlers: RouteHandlers = {}
+
+    for (const key of ['default', ...RouteMethods] as const) {
+        const handler = api.handler[key]
+
+        if (handler) {
+            handlers[key] = withMiddleware(path, api, handler, routeMiddleware)
+        }
+    }
+
+    return handlers
+}
+
+/**
+ * Returns the `_middleware` files covering an API route, outermost folder first.
+ */
+function getScopedMiddleware(key: string, routeMiddleware: HandlerRecord<Api>[]): HandlerRecord<Api>[] {
+    return routeMiddleware
+        .map((middleware) => ({ folder: middleware.key.split('/').slice(0, -1).join('/'), middleware }))
+        .filter(({ folder }) => !folder || key === folder || key.startsWith(folder + '/'))
+        .sort((a, b) => a.folder.split('/').length - b.folder.split('/').length || a.folder.length - b.folder.length)
+        .map(({ middleware }) => middleware)
+}
+
+function isRouteMiddleware(key: string) {
+    return key.split('/').pop() === '_middleware'
+}
+
+/**
+ * Runs `_middleware` handlers in order until one ends the request, returning what that one returned.
+ */
+async function runRouteMiddleware(
+    key: string,
+    routeMiddleware: HandlerRecord<Api>[],
+    request: RoboRequest,
+    reply: RoboReply
+): Promise<{ result: unknown } | null> {
+    for (const middleware of routeMiddleware) {
+        const result = await middleware.handler.default?.(request, reply)
+
+        if (reply.hasSent || reply.raw.writableEnded || result !== undefined) {
+            logger.debug(`Route middleware ended API route: ${color.bold(key)}`)
+            return { result }
+        }
+    }
+
+    return null
+}
+
+/**
+ * Lists the rate limits covering an API route: the global one unless the route opts out, then the route's own.
+ * Routes provided by this plugin only have the global one.
+ */
+function getRateLimits(api?: HandlerRecord<Api>): [string, RateLimitOptions][] {
+    const { rateLimit } = (api?.handler.config ?? {}) as ApiConfig
+    const rateLimits: [string, RateLimitOptions][] = []
+
+    if (pluginOptions.rateLimit && rateLimit !== false) {
+        rateLimits.push(['*', pluginOptions.rateLimit === true ? {} : pluginOptions.rateLimit])
+    }
+    if (rateLimit) {
+        rateLimits.push([api.key, rateLimit === true ? {} : rateLimit])
+    }
+
+    return rateLimits
+}
+
+/**
+ * Runs the route's `_middleware` handlers, then middleware scoped to API routes, around the route handler.
+ * Rate limited requests get a 429 before any of them run.
+ * A `_middleware` handler ends the request by returning a value or sending a response.
+ * Aborted requests get a 403 unless the middleware already sent a response.
+ * Requests that don't match the schemas in the route's config get a 400 instead of reaching the handler.
+ * Requests taking longer than the route's or global `timeout` get a 503.
+ */
+function withMiddleware(
+    path: string,
+    api: HandlerRecord<Api>,
+    handler: Api['default'],
+    routeMiddleware: HandlerRecord<Api>[]
+): RouteHandler {
+    const timeout = (api.handler.config as ApiConfig)?.timeout ?? pluginOptions.timeout
+
+    const run: RouteHandler = async (request, reply) => {
+        // Already counted by engines that check before reading the body
+        const limited = await checkRouteRateLimits(path, request.raw, reply.raw, request.params)
+        if (limited) {
+            return limited
+        }
+
+        const ended = await runRouteMiddleware(api.key, routeMiddleware, request, reply)
+        if (ended) {
+            return ended.result
+        }
+
+        const payload = [request, reply]
+        const afterHooks = await executeMiddleware(api, payload)
+
+        if (!afterHooks) {
+            logger.debug(`Middleware aborted API route: ${color.bold(api.key)}`)
+            return reply.hasSent ? undefined : RoboResponse.json({ message: 'Forbidden' }, { status: 403 })
+        }
+
+        return executeWithAfterHooks(afterHooks, { payload, record: api }, async () => {
+            const invalid = await validateRequest(request, api.handler.config as ApiConfig)
+            return invalid ?? handler(request, reply)
+        })
+    }
+
+    if (!timeout) {
+        return run
+    }
+
+    return async (request, reply) => {
+        let timer: NodeJS.Timeout
+        const timedOut = new Promise<RoboResponse>((resolve) => {
+            timer = setTimeout(() => {
+                logger.warn(`API route ${color.bold(api.key)} timed out after ${timeout}ms`)
+                resolve(RoboResponse.json({ message: 'Request timed out' }, { status: 503 }))
+            }, timeout)
+        })
+
+        try {
+            return await Promise.race([run(request, reply), timedOut])
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+}
+
 async function getDefaultEngine() {
     // Return Fastify if available
     const isFastifyAvailable = await hasDependency('fastify')
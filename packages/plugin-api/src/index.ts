@@ -1,4 +1,7 @@
 export * from './core/types.js'
+export type { CorsOptions, SecurityHeadersOptions } from './core/headers.js'
+export type { OpenApiOptions } from './core/openapi.js'
+export type { RateLimitOptions } from './core/rate-limit.js'
 export { Server } from './core/server.js'
 export { RoboRequest } from './core/robo-request.js'
 export { RoboResponse } from './core/robo-response.js'
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { Cooldowns } from '../src/core/cooldown.js'
+import { FLASHCORE_KEYS } from '../src/core/constants.js'
+import { FlashcoreMemoryAdapter } from '../src/core/flashcore-memory.js'
+import { Globals } from '../src/core/globals.js'
+import type { CommandInteraction } from 'discord.js'
+
+let adapter: FlashcoreMemoryAdapter
+
+function createInteraction(userId = 'user-1', guildId = 'guild-1') {
+	return { channelId: 'channel-1', guildId, user: { id: userId } } as unknown as CommandInteraction
+}
+
+beforeEach(() => {
+	adapter = new FlashcoreMemoryAdapter()
+	Globals.registerFlashcore(adapter)
+})
+
+afterEach(async () => {
+	jest.useRealTimers()
+	await Cooldowns.reset('test', 'user-1')
+	await Cooldowns.reset('test', 'user-2')
+	await Cooldowns.reset('test')
+})
+
+describe('Cooldowns.consume', () => {
+	test('allows up to the burst within a window', async () => {
+		const interaction = createInteraction()
+		const cooldown = { burst: 2, window: 10_000 }
+
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBeGreaterThan(0)
+	})
+
+	test('keeps separate buckets per user', async () => {
+		const cooldown = { window: 10_000 }
+
+		expect(await Cooldowns.consume('test', cooldown, createInteraction('user-1'))).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, createInteraction('user-2'))).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, createInteraction('user-1'))).toBeGreaterThan(0)
+	})
+
+	test('only lets one of several concurrent uses through', async () => {
+		const interaction = createInteraction()
+		const cooldown = { persist: true, window: 10_000 }
+
+		const results = await Promise.all([
+			Cooldowns.consume('test', cooldown, interaction),
+			Cooldowns.consume('test', cooldown, interaction),
+			Cooldowns.consume('test', cooldown, interaction)
+		])
+
+		expect(results.filter((remaining) => remaining === 0)).toHaveLength(1)
+	})
+
+	test('allows use again once the window passes', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const interaction = createInteraction()
+		const cooldown = { window: 5_000 }
+
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(5_000)
+
+		jest.setSystemTime(1_005_001)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+	})
+
+	test('persists buckets with a TTL matching the window', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const setSpy = jest.spyOn(adapter, 'set')
+
+		await Cooldowns.consume('test', { persist: true, window: 5_000 }, createInteraction())
+
+		expect(setSpy).toHaveBeenCalledWith(`${FLASHCORE_KEYS.cooldown}__test:user:user-1:5000`, [1_000_000], 5_000)
+
+		jest.setSystemTime(1_005_001)
+		expect(adapter.keys()).toHaveLength(0)
+	})
+
+	test('enforces several windows for the same scope', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const interaction = createInteraction()
+		const cooldown = [
+			{ burst: 3, persist: true, window: 3_600_000 },
+			{ burst: 2, persist: true, window: 10_000 }
+		]
+
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(10_000)
+
+		// The short window has passed, but the hourly cap still remembers both uses
+		jest.setSystemTime(1_010_001)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+		jest.setSystemTime(1_020_002)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(3_600_000 - 20_002)
+		expect(await adapter.get(`${FLASHCORE_KEYS.cooldown}__test:user:user-1:3600000`)).toHaveLength(3)
+	})
+
+	test('restores persisted buckets after a restart', async () => {
+		const cooldown = { persist: true, window: 10_000 }
+		await adapter.set(`${FLASHCORE_KEYS.cooldown}__test:user:user-2:10000`, [Date.now()], 10_000)
+
+		expect(await Cooldowns.consume('test', cooldown, createInteraction('user-2'))).toBeGreaterThan(0)
+	})
+})
+
+describe('Cooldowns.reset', () => {
+	test('clears a bucket so it can be used again', async () => {
+		const interaction = createInteraction()
+		const cooldown = { persist: true, window: 10_000 }
+
+		await Cooldowns.consume('test', cooldown, interaction)
+		await Cooldowns.reset('test', 'user-1')
+
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+	})
+
+	test('clears every window of a handler', async () => {
+		const interaction = createInteraction()
+		const cooldown = [
+			{ persist: true, window: 10_000 },
+			{ persist: true, window: 60_000 }
+		]
+
+		await Cooldowns.consume('test', cooldown, interaction)
+		await Cooldowns.reset('test', 'user-1')
+
+		expect(adapter.keys()).toHaveLength(0)
+		expect(await Cooldowns.consume('test', cooldown, interaction)).toBe(0)
+	})
+})
@@ -0,0 +1,82 @@
+import { afterAll, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Flashcore } from '../src/core/flashcore.js'
+import { exportFlashcore, importFlashcore } from '../src/core/flashcore-backup.js'
+import { FlashcoreMemoryAdapter } from '../src/core/flashcore-memory.js'
+import { Globals } from '../src/core/globals.js'
+
+let adapter: FlashcoreMemoryAdapter
+let dir: string
+
+beforeEach(async () => {
+	adapter = new FlashcoreMemoryAdapter()
+	Globals.registerFlashcore(adapter)
+	dir ??= await mkdtemp(path.join(tmpdir(), 'flashcore-backup-'))
+})
+
+afterAll(async () => {
+	jest.useRealTimers()
+	await rm(dir, { force: true, recursive: true })
+})
+
+describe('exportFlashcore', () => {
+	test('round-trips values and namespaces', async () => {
+		const file = path.join(dir, 'round-trip.json')
+		await Flashcore.set('plain', { a: 1 })
+		await Flashcore.set('vote', 'yes', { namespace: 'polls' })
+
+		expect(await exportFlashcore(file)).toBe(2)
+
+		Globals.registerFlashcore(new FlashcoreMemoryAdapter())
+		expect(await importFlashcore(file)).toBe(2)
+		expect(await Flashcore.get('plain')).toEqual({ a: 1 })
+		expect(await Flashcore.get('vote', { namespace: 'polls' })).toBe('yes')
+	})
+
+	test('keeps when values expire', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const file = path.join(dir, 'ttl.ndjson')
+		await Flashcore.set('session', 'abc', { ttl: 10_000 })
+		await Flashcore.set('forever', 'xyz')
+
+		await exportFlashcore(file)
+		const lines = (await readFile(file, 'utf-8'))
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line))
+		expect(lines).toContainEqual({ expiresAt: 1_010_000, key: 'session', value: 'abc' })
+		expect(lines).toContainEqual({ key: 'forever', value: 'xyz' })
+
+		// Restored with only the time that was left
+		jest.setSystemTime(1_004_000)
+		const restored = new FlashcoreMemoryAdapter()
+		Globals.registerFlashcore(restored)
+		await importFlashcore(file)
+		expect(restored.getExpiresAt('session')).toBe(1_010_000)
+		expect(restored.getExpiresAt('forever')).toBeUndefined()
+		jest.useRealTimers()
+	})
+
+	test('skips values that expired since the export', async () => {
+		jest.useFakeTimers({ now: 1_000_000 })
+		const file = path.join(dir, 'expired.json')
+		await Flashcore.set('session', 'abc', { ttl: 1_000 })
+		await Flashcore.set('forever', 'xyz')
+		await exportFlashcore(file)
+
+		jest.setSystemTime(1_002_000)
+		Globals.registerFlashcore(new FlashcoreMemoryAdapter())
+		expect(await importFlashcore(file)).toBe(1)
+		expect(await Flashcore.has('session')).toBe(false)
+		jest.useRealTimers()
+	})
+
+	test('refuses to export while values from older versions are unlisted', async () => {
+		Object.assign(adapter, { countUnlisted: () => 3 })
+		const file = path.join(dir, 'legacy.json')
+
+		await expect(exportFlashcore(file)).rejects.toThrow('3 values from an older version')
+	})
+})
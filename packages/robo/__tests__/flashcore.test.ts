@@ -0,0 +1,143 @@
+import { afterAll, beforeEach, describe, expect, test } from '@jest/globals'
+import { createHash } from 'node:crypto'
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { gzipSync } from 'node:zlib'
+import { Flashcore } from '../src/core/flashcore.js'
+import { FlashcoreFileAdapter } from '../src/core/flashcore-fs.js'
+import { FlashcoreMemoryAdapter } from '../src/core/flashcore-memory.js'
+import { Globals } from '../src/core/globals.js'
+
+const tempDirs: string[] = []
+
+async function createFileAdapter() {
+	const dataDir = await mkdtemp(path.join(tmpdir(), 'flashcore-'))
+	tempDirs.push(dataDir)
+
+	const adapter = new FlashcoreFileAdapter({ dataDir })
+	await adapter.init()
+
+	return adapter
+}
+
+// Writes a file the way older versions did, without the key alongside the value
+async function writeLegacyFile(dataDir: string, key: string, value: unknown) {
+	const fileName = createHash('sha256').update(key).digest('hex')
+	await writeFile(path.join(dataDir, fileName), gzipSync(JSON.stringify(value)))
+}
+
+afterAll(async () => {
+	await Promise.all(tempDirs.map((dir) => rm(dir, { force: true, recursive: true })))
+})
+
+describe('Flashcore locks', () => {
+	beforeEach(() => {
+		Globals.registerFlashcore(new FlashcoreMemoryAdapter())
+	})
+
+	test('throws instead of deadlocking when a transaction sets its own key', async () => {
+		await expect(
+			Flashcore.transaction(['count'], async () => {
+				await Flashcore.set('count', 1)
+			})
+		).rejects.toThrow('locked by the surrounding transaction')
+	})
+
+	test('throws when an update deletes its own key', async () => {
+		await expect(
+			Flashcore.update<number>('count', async (value) => {
+				await Flashcore.delete('count')
+				return (value ?? 0) + 1
+			})
+		).rejects.toThrow('locked by the surrounding transaction')
+	})
+
+	test('still allows other keys inside a transaction', async () => {
+		await Flashcore.transaction(['count'], async (tx) => {
+			tx.set('count', 1)
+			await Flashcore.set('other', 2)
+		})
+
+		expect(await Flashcore.get('count')).toBe(1)
+		expect(await Flashcore.get('other')).toBe(2)
+	})
+
+	test('keeps TTLs set inside a transaction', async () => {
+		const adapter = new FlashcoreMemoryAdapter()
+		Globals.registerFlashcore(adapter)
+		const before = Date.now()
+
+		await Flashcore.transaction(
+			['session'],
+			async (tx) => {
+				tx.set('session', 'abc', { ttl: 60_000 })
+			},
+			{ namespace: 'auth' }
+		)
+
+		expect(await Flashcore.get('session', { namespace: 'auth' })).toBe('abc')
+		expect(adapter.getExpiresAt('auth__session')).toBeGreaterThanOrEqual(before + 60_000)
+	})
+})
+
+describe('FlashcoreFileAdapter', () => {
+	test('handles concurrent writes of the same key', async () => {
+		const adapter = await createFileAdapter()
+		const results = await Promise.all(Array.from({ length: 10 }, (_, i) => adapter.set('key', i)))
+
+		expect(results.every(Boolean)).toBe(true)
+		expect(await adapter.get('key')).toEqual(expect.any(Number))
+		expect((await readdir(adapter.dataDir)).filter((file) => file.endsWith('.tmp'))).toEqual([])
+	})
+
+	test('lists keys and skips expired ones', async () => {
+		const adapter = await createFileAdapter()
+		await adapter.set('polls__a', 1)
+		await adapter.set('polls__b', 2, 1)
+		await adapter.set('other', 3)
+		await new Promise((resolve) => setTimeout(resolve, 5))
+
+		expect(await adapter.keys('polls__')).toEqual(['polls__a'])
+		expect((await adapter.keys()).sort()).toEqual(['other', 'polls__a'])
+	})
+
+	test('reports when values expire', async () => {
+		const adapter = await createFileAdapter()
+		const before = Date.now()
+		await adapter.set('session', 'abc', 60_000)
+		await adapter.set('forever', 'xyz')
+
+		expect(await adapter.getExpiresAt('session')).toBeGreaterThanOrEqual(before + 60_000)
+		expect(await adapter.getExpiresAt('forever')).toBeUndefined()
+		expect(await adapter.getExpiresAt('missing')).toBeUndefined()
+	})
+
+	test('counts older files and rewrites them once read by key', async () => {
+		const adapter = await createFileAdapter()
+		await writeLegacyFile(adapter.dataDir, 'legacy', { hello: 'world' })
+		await adapter.set('current', 1)
+
+		expect(await adapter.keys()).toEqual(['current'])
+		expect(await adapter.countUnlisted()).toBe(1)
+
+		expect(await adapter.get('legacy')).toEqual({ hello: 'world' })
+		expect((await adapter.keys()).sort()).toEqual(['current', 'legacy'])
+		expect(await adapter.countUnlisted()).toBe(0)
+	})
+
+	test("doesn't keep an index built from failed reads", async () => {
+		const adapter = await createFileAdapter()
+		await adapter.set('a', 1)
+
+		// Reading a directory fails like an unreadable file would
+		const unreadable = path.join(adapter.dataDir, 'unreadable')
+		await mkdir(unreadable)
+		expect(await adapter.keys()).toEqual(['a'])
+
+		await rm(unreadable, { recursive: true })
+		await new FlashcoreFileAdapter({ dataDir: adapter.dataDir }).set('b', 2)
+
+		expect((await adapter.keys()).sort()).toEqual(['a', 'b'])
+	})
+})
@@ -0,0 +1,198 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Compiler } from '../src/cli/utils/compiler.js'
+import { discordLogger } from '../src/core/constants.js'
+import { executeMiddleware, executeWithAfterHooks } from '../src/core/middleware.js'
+import Portal from '../src/core/portal.js'
+import type { HandlerRecord } from '../src/types/index.js'
+
+// Middleware as the compiler would output them, each recording when it runs
+const Middleware: Record<string, string> = {
+	log: `
+		export default () => { globalThis.middlewareRuns.push('log') }
+		export const after = () => { globalThis.middlewareRuns.push('log:after') }
+	`,
+	auth: `
+		export const config = { priority: 10 }
+		export default ({ payload }) => {
+			globalThis.middlewareRuns.push('auth')
+			return payload[0] === 'abort' ? { abort: true } : undefined
+		}
+	`,
+	api: `
+		export const config = { scope: 'api' }
+		export default () => { globalThis.middlewareRuns.push('api') }
+	`,
+	admin: `
+		export const config = { scope: { keys: ['admin'], types: ['commands'] } }
+		export default () => { globalThis.middlewareRuns.push('admin') }
+	`,
+	moderation: `
+		export const config = { scope: { modules: ['moderation'] } }
+		export default () => { globalThis.middlewareRuns.push('moderation') }
+	`,
+	outcome: `
+		export const config = { priority: -5 }
+		export const after = ({ error, result }) => {
+			globalThis.middlewareRuns.push('outcome:after')
+			if (error?.message === 'recover') {
+				return { error: undefined, result: 'recovered' }
+			}
+			if (error?.message === 'wrap') {
+				return { error: new Error('wrapped') }
+			}
+			if (result === 'replace') {
+				return { result: 'replaced' }
+			}
+		}
+	`,
+	broken: `
+		export default () => { globalThis.middlewareRuns.push('broken') }
+		export const after = () => { throw new Error('Hook failed') }
+	`
+}
+
+const Files: Record<string, string> = {
+	'package.json': JSON.stringify({ type: 'module' }),
+	...Object.fromEntries(
+		Object.entries(Middleware).map(([name, contents]) => [`.robo/build/middleware/${name}.js`, contents])
+	),
+	'.robo/manifest.json': JSON.stringify({
+		api: {},
+		commands: {},
+		components: {},
+		context: { message: {}, user: {} },
+		events: {},
+		middleware: Object.keys(Middleware).map((name) => ({ __path: `/.robo/build/middleware/${name}.js` })),
+		modals: {}
+	})
+}
+
+const globals = globalThis as typeof globalThis & { middlewareRuns: string[] }
+const originalCwd = process.cwd()
+let projectDir: string
+
+function createRecord(type: HandlerRecord['type'], key: string, module?: string): HandlerRecord {
+	return { handler: {}, key, module, path: '', type }
+}
+
+async function runMiddleware(record: HandlerRecord, payload: unknown[] = []) {
+	const afterHooks = await executeMiddleware(record, payload)
+
+	return { afterHooks, runs: globals.middlewareRuns }
+}
+
+beforeAll(async () => {
+	projectDir = await mkdtemp(path.join(tmpdir(), 'robo-middleware-'))
+
+	for (const [file, contents] of Object.entries(Files)) {
+		await mkdir(path.dirname(path.join(projectDir, file)), { recursive: true })
+		await writeFile(path.join(projectDir, file), contents)
+	}
+
+	process.chdir(projectDir)
+	await Compiler.useManifest()
+	await Portal.open()
+})
+
+beforeEach(() => {
+	globals.middlewareRuns = []
+})
+
+afterAll(async () => {
+	jest.restoreAllMocks()
+	process.chdir(originalCwd)
+	await rm(projectDir, { force: true, recursive: true })
+})
+
+describe('executeMiddleware', () => {
+	test('runs higher priorities first and keeps file order otherwise', async () => {
+		const { runs } = await runMiddleware(createRecord('command', 'ping'))
+
+		expect(runs).toEqual(['auth', 'log', 'broken'])
+	})
+
+	test('returns after hooks in the order their middleware ran', async () => {
+		const { afterHooks } = await runMiddleware(createRecord('command', 'ping'))
+
+		expect(afterHooks.map((middleware) => path.basename(middleware.path, '.js'))).toEqual(['log', 'broken', 'outcome'])
+	})
+
+	test('runs for every Discord handler but not API routes by default', async () => {
+		for (const type of ['component', 'context', 'event', 'modal'] as const) {
+			globals.middlewareRuns = []
+			expect((await runMiddleware(createRecord(type, 'test'))).runs).toEqual(['auth', 'log', 'broken'])
+		}
+
+		globals.middlewareRuns = []
+		expect((await runMiddleware(createRecord('api', 'users'))).runs).toEqual(['api'])
+	})
+
+	test('matches keys and modules, including nested ones', async () => {
+		expect((await runMiddleware(createRecord('command', 'admin'))).runs).toContain('admin')
+
+		globals.middlewareRuns = []
+		expect((await runMiddleware(createRecord('command', 'admin/ban'))).runs).toContain('admin')
+
+		globals.middlewareRuns = []
+		expect((await runMiddleware(createRecord('command', 'administrator'))).runs).not.toContain('admin')
+
+		globals.middlewareRuns = []
+		expect((await runMiddleware(createRecord('context', 'admin'))).runs).not.toContain('admin')
+
+		globals.middlewareRuns = []
+		expect((await runMiddleware(createRecord('event', 'messageCreate', 'moderation/spam'))).runs).toContain(
+			'moderation'
+		)
+	})
+
+	test('stops and returns null when middleware aborts', async () => {
+		const { afterHooks, runs } = await runMiddleware(createRecord('command', 'ping'), ['abort'])
+
+		expect(afterHooks).toBeNull()
+		expect(runs).toEqual(['auth'])
+	})
+})
+
+describe('executeWithAfterHooks', () => {
+	const data = { payload: [] as unknown[], record: createRecord('command', 'ping') }
+
+	async function getAfterHooks() {
+		const afterHooks = await executeMiddleware(data.record, data.payload)
+		globals.middlewareRuns = []
+
+		return afterHooks
+	}
+
+	test('calls handlers directly without hooks', () => {
+		expect(executeWithAfterHooks([], data, () => 'sync')).toBe('sync')
+	})
+
+	test('runs hooks in reverse order and logs their errors without changing the outcome', async () => {
+		const errorSpy = jest.spyOn(discordLogger, 'error').mockImplementation(() => undefined)
+
+		expect(await executeWithAfterHooks(await getAfterHooks(), data, () => 'result')).toBe('result')
+		expect(globals.middlewareRuns).toEqual(['outcome:after', 'log:after'])
+		expect(errorSpy).toHaveBeenCalledWith('Middleware after hook error:', new Error('Hook failed'))
+	})
+
+	test('lets hooks replace the result', async () => {
+		jest.spyOn(discordLogger, 'error').mockImplementation(() => undefined)
+
+		expect(await executeWithAfterHooks(await getAfterHooks(), data, () => 'replace')).toBe('replaced')
+	})
+
+	test('lets hooks recover from or replace errors', async () => {
+		jest.spyOn(discordLogger, 'error').mockImplementation(() => undefined)
+		const afterHooks = await getAfterHooks()
+		const fail = (message: string) => () => {
+			throw new Error(message)
+		}
+
+		expect(await executeWithAfterHooks(afterHooks, data, fail('recover'))).toBe('recovered')
+		await expect(executeWithAfterHooks(afterHooks, data, fail('wrap'))).rejects.toThrow('wrapped')
+		await expect(executeWithAfterHooks(afterHooks, data, fail('boom'))).rejects.toThrow('boom')
+	})
+})
@@ -0,0 +1,152 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Compiler } from '../src/cli/utils/compiler.js'
+import { FLASHCORE_KEYS, flashcoreLogger } from '../src/core/constants.js'
+import { Flashcore } from '../src/core/flashcore.js'
+import { FlashcoreMemoryAdapter } from '../src/core/flashcore-memory.js'
+import { Globals } from '../src/core/globals.js'
+import { getAppliedVersion, runMigrations } from '../src/core/migrations.js'
+
+// Migrations as the compiler would output them, each recording when it runs
+const Files: Record<string, string> = {
+	'package.json': JSON.stringify({ type: 'module' }),
+	'.robo/build/migrations/users/1.js': `
+		export default async (context) => {
+			globalThis.migrationRuns.push('users/1')
+			await context.set('profile', { name: await context.get('name') })
+			await context.delete('name')
+		}
+	`,
+	'.robo/build/migrations/users/2.js': `
+		export default async (context) => {
+			globalThis.migrationRuns.push('users/2')
+			const profile = await context.get('profile')
+			await context.set('profile', { ...profile, tag: profile.name.toUpperCase() })
+		}
+	`,
+	'.robo/build/migrations/broken/1.js': `
+		export default async (context) => {
+			globalThis.migrationRuns.push('broken/1')
+			await context.set('ok', true)
+		}
+	`,
+	'.robo/build/migrations/broken/2.js': `
+		export default () => {
+			globalThis.migrationRuns.push('broken/2')
+			throw new Error('Broken migration')
+		}
+	`,
+	'.robo/manifest.json': JSON.stringify({
+		migrations: {
+			broken: [
+				{ __path: '/.robo/build/migrations/broken/1.js', namespace: ['broken'], version: 1 },
+				{ __path: '/.robo/build/migrations/broken/2.js', namespace: ['broken'], version: 2 }
+			],
+			users: [
+				{ __path: '/.robo/build/migrations/users/1.js', namespace: ['users'], version: 1 },
+				{ __path: '/.robo/build/migrations/users/2.js', namespace: ['users'], version: 2 }
+			]
+		}
+	})
+}
+
+const globals = globalThis as typeof globalThis & { migrationRuns: string[] }
+const originalCwd = process.cwd()
+let projectDir: string
+
+beforeAll(async () => {
+	projectDir = await mkdtemp(path.join(tmpdir(), 'robo-migrations-'))
+
+	for (const [file, contents] of Object.entries(Files)) {
+		await mkdir(path.dirname(path.join(projectDir, file)), { recursive: true })
+		await writeFile(path.join(projectDir, file), contents)
+	}
+
+	process.chdir(projectDir)
+	await Compiler.useManifest()
+})
+
+beforeEach(async () => {
+	globals.migrationRuns = []
+	jest.spyOn(flashcoreLogger, 'error').mockImplementation(() => undefined)
+	Globals.registerFlashcore(new FlashcoreMemoryAdapter())
+	await Flashcore.set('name', 'robo', { namespace: 'users' })
+})
+
+afterAll(async () => {
+	jest.restoreAllMocks()
+	process.chdir(originalCwd)
+	await rm(projectDir, { force: true, recursive: true })
+})
+
+describe('runMigrations', () => {
+	test('runs pending migrations in order and records the last version', async () => {
+		const results = await runMigrations()
+
+		expect(globals.migrationRuns).toEqual(['broken/1', 'broken/2', 'users/1', 'users/2'])
+		expect(results.find((result) => result.namespace === 'users')).toEqual({
+			changes: [
+				{ key: 'profile', type: 'set', value: { name: 'robo' } },
+				{ key: 'name', type: 'delete' },
+				{ key: 'profile', type: 'set', value: { name: 'robo', tag: 'ROBO' } }
+			],
+			fromVersion: 0,
+			namespace: 'users',
+			toVersion: 2
+		})
+		expect(await Flashcore.get('profile', { namespace: 'users' })).toEqual({ name: 'robo', tag: 'ROBO' })
+		expect(await getAppliedVersion('users')).toBe(2)
+	})
+
+	test('skips versions that were already applied', async () => {
+		await Flashcore.set('profile', { name: 'robo' }, { namespace: 'users' })
+		await Flashcore.set('users', 1, { namespace: FLASHCORE_KEYS.migrations })
+		await Flashcore.set('broken', 2, { namespace: FLASHCORE_KEYS.migrations })
+
+		const results = await runMigrations()
+
+		expect(globals.migrationRuns).toEqual(['users/2'])
+		expect(results).toEqual([expect.objectContaining({ fromVersion: 1, namespace: 'users', toVersion: 2 })])
+	})
+
+	test('only retries namespaces that still have pending versions', async () => {
+		await runMigrations()
+		globals.migrationRuns = []
+
+		expect(await runMigrations()).toEqual([expect.objectContaining({ namespace: 'broken' })])
+		expect(globals.migrationRuns).toEqual(['broken/2'])
+	})
+
+	test('stops a namespace at the last version that succeeded', async () => {
+		const results = await runMigrations()
+		const broken = results.find((result) => result.namespace === 'broken')
+
+		expect(broken.error).toEqual(new Error('Broken migration'))
+		expect(broken.toVersion).toBe(1)
+		expect(flashcoreLogger.error).toHaveBeenCalledWith(expect.stringContaining('v2 failed'), broken.error)
+		expect(await getAppliedVersion('broken')).toBe(1)
+		expect(await Flashcore.get('ok', { namespace: 'broken' })).toBe(true)
+		expect(await getAppliedVersion('users')).toBe(2)
+	})
+})
+
+describe('runMigrations with dryRun', () => {
+	test('reports changes without writing them or recording versions', async () => {
+		const results = await runMigrations({ dryRun: true })
+
+		expect(results.find((result) => result.namespace === 'users').toVersion).toBe(2)
+		expect(await Flashcore.get('name', { namespace: 'users' })).toBe('robo')
+		expect(await Flashcore.get('profile', { namespace: 'users' })).toBeUndefined()
+		expect(await getAppliedVersion('users')).toBeUndefined()
+	})
+
+	test('lets later migrations read what earlier ones would have written', async () => {
+		const results = await runMigrations({ dryRun: true })
+		const users = results.find((result) => result.namespace === 'users')
+
+		expect(users.error).toBeUndefined()
+		expect(users.changes.at(-1)).toEqual({ key: 'profile', type: 'set', value: { name: 'robo', tag: 'ROBO' } })
+	})
+})
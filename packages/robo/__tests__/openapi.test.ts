@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import type { Manifest } from '../src/types/index.js'
+
+const originalCwd = process.cwd()
+let generateOpenApi: (manifest: Manifest) => Promise<void>
+let projectDir: string
+
+async function generate(api: Manifest['api']) {
+	await generateOpenApi({ api } as Manifest)
+
+	return JSON.parse(await readFile(path.join(projectDir, '.robo', 'openapi.json'), 'utf-8'))
+}
+
+beforeAll(async () => {
+	projectDir = await mkdtemp(path.join(tmpdir(), 'robo-openapi-'))
+	await mkdir(path.join(projectDir, '.robo'))
+	await writeFile(path.join(projectDir, 'package.json'), JSON.stringify({ name: 'test-robo', version: '1.2.3' }))
+
+	// The output path is resolved from the working directory when the module loads
+	process.chdir(projectDir)
+	;({ generateOpenApi } = await import('../src/cli/utils/openapi.js'))
+})
+
+afterAll(async () => {
+	process.chdir(originalCwd)
+	await rm(projectDir, { force: true, recursive: true })
+})
+
+describe('generateOpenApi', () => {
+	test('describes the project and each route', async () => {
+		const document = await generate({
+			health: { __path: '/.robo/build/api/health.js', docs: { GET: 'Checks the server\nReturns ok' }, methods: ['GET'] }
+		})
+
+		expect(document.info).toEqual({ title: 'test-robo', version: '1.2.3' })
+		expect(document.openapi).toBe('3.1.0')
+		expect(document.paths['/health']).toEqual({
+			get: {
+				description: 'Checks the server\nReturns ok',
+				responses: { 200: { description: 'Successful response' } },
+				summary: 'Checks the server',
+				tags: ['health']
+			}
+		})
+	})
+
+	test('lists every method for default handlers', async () => {
+		const document = await generate({ echo: { __path: '/.robo/build/api/echo.js', methods: ['default', 'POST'] } })
+
+		expect(Object.keys(document.paths['/echo'])).toEqual(['get', 'post', 'put', 'patch', 'delete'])
+	})
+
+	test('turns dynamic segments into path params', async () => {
+		const document = await generate({
+			users: {
+				subroutes: {
+					'[id]': {
+						__path: '/.robo/build/api/users/[id].js',
+						methods: ['GET'],
+						schemas: { params: { properties: { id: { format: 'uuid', type: 'string' } }, type: 'object' } }
+					}
+				}
+			}
+		})
+
+		expect(document.paths['/users/{id}'].get.parameters).toEqual([
+			{ in: 'path', name: 'id', required: true, schema: { format: 'uuid', type: 'string' } }
+		])
+	})
+
+	test('names catch-all params without their dots', async () => {
+		const document = await generate({
+			docs: { subroutes: { '[...slug]': { __path: '/.robo/build/api/docs/[...slug].js', methods: ['GET'] } } }
+		})
+
+		expect(Object.keys(document.paths)).toEqual(['/docs/{slug}'])
+		expect(document.paths['/docs/{slug}'].get.parameters).toEqual([
+			{ in: 'path', name: 'slug', required: true, schema: { type: 'string' } }
+		])
+	})
+
+	test('adds query params and request bodies from schemas', async () => {
+		const body = { properties: { name: { type: 'string' } }, type: 'object' }
+		const query = { properties: { limit: { type: 'number' }, q: { type: 'string' } }, required: ['q'], type: 'object' }
+		const document = await generate({
+			search: { __path: '/.robo/build/api/search.js', methods: ['GET', 'POST'], schemas: { body, query } }
+		})
+		const { get, post } = document.paths['/search']
+
+		expect(get.parameters).toEqual([
+			{ in: 'query', name: 'limit', required: false, schema: { type: 'number' } },
+			{ in: 'query', name: 'q', required: true, schema: { type: 'string' } }
+		])
+		expect(get.requestBody).toBeUndefined()
+		expect(post.requestBody).toEqual({ content: { 'application/json': { schema: body } } })
+		expect(post.responses[400]).toEqual({ description: 'Invalid request' })
+	})
+
+	test('skips middleware and removes the document when there are no routes', async () => {
+		await generate({ ping: { __path: '/.robo/build/api/ping.js' } })
+		await generateOpenApi({
+			api: { _middleware: { __path: '/.robo/build/api/_middleware.js' } }
+		} as unknown as Manifest)
+
+		await expect(readFile(path.join(projectDir, '.robo', 'openapi.json'))).rejects.toThrow('ENOENT')
+	})
+})
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, jest, test } from '@jest/globals'
+import { localize } from '../src/cli/utils/utils.js'
+import { FLASHCORE_KEYS } from '../src/core/constants.js'
+import { FlashcoreMemoryAdapter } from '../src/core/flashcore-memory.js'
+import { Globals } from '../src/core/globals.js'
+import { Permissions, enforcePermissions } from '../src/core/permissions.js'
+import type { CommandInteraction } from 'discord.js'
+
+let adapter: FlashcoreMemoryAdapter
+
+function createInteraction(userId = 'user-1', locale = 'en-US', contextMenu = false) {
+	return {
+		channel: null,
+		deferred: false,
+		guildId: 'guild-1',
+		guildLocale: 'fr',
+		inGuild: () => true,
+		isContextMenuCommand: () => contextMenu,
+		locale,
+		member: null,
+		replied: false,
+		reply: jest.fn(async () => null),
+		user: { id: userId }
+	} as unknown as CommandInteraction & { reply: jest.Mock }
+}
+
+beforeAll(() => {
+	adapter = new FlashcoreMemoryAdapter()
+	Globals.registerFlashcore(adapter)
+})
+
+describe('enforcePermissions', () => {
+	test('skips guild lookups for handlers without a policy or overrides', async () => {
+		const getSpy = jest.spyOn(adapter, 'get')
+
+		expect(await enforcePermissions(createInteraction(), 'ping', undefined, {})).toBe(false)
+		expect(await enforcePermissions(createInteraction(), 'ping', undefined, {})).toBe(false)
+		expect(getSpy.mock.calls.map(([key]) => key)).toEqual([`${FLASHCORE_KEYS.permissions}__overridden`])
+		getSpy.mockRestore()
+	})
+
+	test('applies guild overrides to handlers without a policy', async () => {
+		await Permissions.set('ban', 'guild-1', { users: ['user-2'] })
+		const denied = createInteraction('user-1')
+
+		expect(await enforcePermissions(denied, 'ban', undefined, {})).toBe(true)
+		expect(await enforcePermissions(createInteraction('user-2'), 'ban', undefined, {})).toBe(false)
+		expect(denied.reply).toHaveBeenCalledWith(
+			expect.objectContaining({ content: "You don't have permission to use this command." })
+		)
+	})
+
+	test("replies with the guild override's message", async () => {
+		await Permissions.set('kick', 'guild-1', { message: 'Moderators only', users: ['user-2'] })
+		const interaction = createInteraction('user-1')
+
+		expect(await enforcePermissions(interaction, 'kick', { message: 'Admins only', users: ['user-3'] }, {})).toBe(true)
+		expect(interaction.reply).toHaveBeenCalledWith(expect.objectContaining({ content: 'Moderators only' }))
+	})
+
+	test('mentions context menus by default when denying them', async () => {
+		const interaction = createInteraction('user-1', 'en-US', true)
+
+		expect(await enforcePermissions(interaction, 'Report', { users: ['user-2'] }, {})).toBe(true)
+		expect(interaction.reply).toHaveBeenCalledWith(
+			expect.objectContaining({ content: "You don't have permission to use this context menu." })
+		)
+	})
+
+	test('replies in the user locale', async () => {
+		const interaction = createInteraction('user-1', 'de')
+		const message = { de: 'Nein', 'en-US': 'No' }
+
+		expect(await enforcePermissions(interaction, 'admin', { message, users: ['user-2'] }, {})).toBe(true)
+		expect(interaction.reply).toHaveBeenCalledWith(expect.objectContaining({ content: 'Nein' }))
+	})
+})
+
+describe('localize', () => {
+	const message = { 'en-US': 'Hello', fr: 'Bonjour', ja: 'こんにちは' }
+
+	test("prefers the user's locale, then the guild's", () => {
+		expect(localize(message, { guildLocale: 'fr', locale: 'ja' })).toBe('こんにちは')
+		expect(localize(message, { guildLocale: 'fr', locale: 'de' })).toBe('Bonjour')
+	})
+
+	test('falls back to en-US, then the first message, then the fallback', () => {
+		expect(localize(message, { guildLocale: null, locale: 'de' })).toBe('Hello')
+		expect(localize({ fr: 'Bonjour' }, { guildLocale: null, locale: 'de' })).toBe('Bonjour')
+		expect(localize({}, { guildLocale: null, locale: 'de' }, 'Default')).toBe('Default')
+		expect(localize('Plain', { guildLocale: null, locale: 'de' })).toBe('Plain')
+	})
+})
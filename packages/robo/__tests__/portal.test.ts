@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, test } from '@jest/globals'
+import { Collection } from 'discord.js'
+import { Globals } from '../src/core/globals.js'
+import Portal from '../src/core/portal.js'
+import type { Component, HandlerRecord, Modal } from '../src/types/index.js'
+
+const portal = new Portal()
+
+function createRecords<T>(type: 'component' | 'modal', keys: string[]) {
+	return new Collection(keys.map((key) => [key, { handler: {}, key, path: `/${key}.js`, type } as HandlerRecord<T>]))
+}
+
+function match(customId: string) {
+	const result = portal.matchComponent(customId)
+
+	return result && { key: result.record.key, params: result.params }
+}
+
+beforeAll(() => {
+	const components = createRecords<Component>('component', [
+		'vote/[choice]',
+		'vote/yes',
+		'poll/[id]/[action]',
+		'poll/[id]/results',
+		'docs/[...path]',
+		'ticket/[id]'
+	])
+	const modals = createRecords<Modal>('modal', ['feedback/[topic]'])
+
+	Globals.registerPortal(new Collection(), new Collection(), new Collection(), new Collection(), [], components, modals)
+})
+
+describe('Portal.matchComponent', () => {
+	test('prefers exact matches', () => {
+		expect(match('vote/yes')).toEqual({ key: 'vote/yes', params: {} })
+	})
+
+	test('fills params from matching segments', () => {
+		expect(match('vote/no')).toEqual({ key: 'vote/[choice]', params: { choice: 'no' } })
+		expect(match('poll/7/close')).toEqual({ key: 'poll/[id]/[action]', params: { action: 'close', id: '7' } })
+	})
+
+	test('prefers static segments over params', () => {
+		expect(match('poll/7/results')).toEqual({ key: 'poll/[id]/results', params: { id: '7' } })
+	})
+
+	test('lets catch-all segments take every remaining segment', () => {
+		expect(match('docs/intro')).toEqual({ key: 'docs/[...path]', params: { path: 'intro' } })
+		expect(match('docs/guides/setup/discord')).toEqual({
+			key: 'docs/[...path]',
+			params: { path: 'guides/setup/discord' }
+		})
+	})
+
+	test('requires at least one segment for catch-alls', () => {
+		expect(match('docs')).toBeNull()
+		expect(match('docs/')).toBeNull()
+	})
+
+	test("doesn't match when the segment count differs", () => {
+		expect(match('ticket')).toBeNull()
+		expect(match('ticket/1/close')).toBeNull()
+		expect(match('poll/7')).toBeNull()
+	})
+
+	test("doesn't match empty segments or unknown routes", () => {
+		expect(match('ticket/')).toBeNull()
+		expect(match('shop/item')).toBeNull()
+		expect(match('')).toBeNull()
+	})
+})
+
+describe('Portal.matchModal', () => {
+	test('matches modal routes separately from components', () => {
+		expect(portal.matchModal('feedback/bugs')?.params).toEqual({ topic: 'bugs' })
+		expect(portal.matchModal('vote/yes')).toBeNull()
+	})
+})
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from '@jest/globals'
+import { devStatusCommand } from '../src/core/debug.js'
+import { registerClient } from '../src/core/robo.js'
+import { Shards } from '../src/core/shard.js'
+import type { APIEmbed, Client } from 'discord.js'
+
+const Day = 86_400_000
+
+// A client for shard 1 of 2, as the sharding manager would start it in either mode
+function createClient(uptime = Day + 3_600_000 + 60_000 + 1000) {
+	const stats = [
+		{ guilds: 10, ids: [0], memory: 50 * 1024 * 1024, ping: 20, uptime: 2 * Day + 5 * 3_600_000 },
+		{ guilds: 5, ids: [1], memory: 40 * 1024 * 1024, ping: 30, uptime }
+	]
+
+	return {
+		guilds: { cache: { size: 5 } },
+		shard: { broadcastEval: async () => stats, count: 2, ids: [1] },
+		uptime,
+		ws: { ping: 30 }
+	} as unknown as Client
+}
+
+afterEach(() => {
+	registerClient(undefined as unknown as Client)
+	delete process.env.SHARDING_MANAGER
+	delete process.env.SHARDS
+})
+
+describe('Shards', () => {
+	test('acts as a single shard without sharding', () => {
+		expect(Shards.isSharded()).toBe(false)
+		expect(Shards.ids()).toEqual([0])
+		expect(Shards.count()).toBe(1)
+		expect(Shards.isLeader()).toBe(true)
+	})
+
+	test("detects sharding from the client's shard info", () => {
+		registerClient(createClient())
+
+		expect(Shards.isSharded()).toBe(true)
+		expect(Shards.ids()).toEqual([1])
+		expect(Shards.count()).toBe(2)
+		expect(Shards.isLeader()).toBe(false)
+	})
+
+	test('reads shards from the environment before the client exists', () => {
+		process.env.SHARDING_MANAGER = 'true'
+		process.env.SHARDS = '[2,3]'
+
+		expect(Shards.isSharded()).toBe(true)
+		expect(Shards.ids()).toEqual([2, 3])
+	})
+})
+
+describe('devStatusCommand', () => {
+	test('lists every shard with uptimes split into days and hours', async () => {
+		registerClient(createClient())
+		const { embeds } = await devStatusCommand()
+		const fields = (embeds[0] as APIEmbed).fields ?? []
+
+		expect(fields.find((field) => field.name === 'Uptime')?.value).toBe('1 days, 1 hours, 1 minutes, 1 seconds')
+		expect(fields.find((field) => field.name.startsWith('Shards'))).toEqual({
+			inline: false,
+			name: 'Shards (2, 15 guilds)',
+			value: [
+				'**#0** 20ms · 10 guilds · 50.00 MB · 2 days, 5 hours',
+				'**#1** 30ms · 5 guilds · 40.00 MB · 1 days, 1 hours, 1 minutes, 1 seconds'
+			].join('\n')
+		})
+	})
+})
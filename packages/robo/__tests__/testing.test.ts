@@ -0,0 +1,226 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from '@jest/globals'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { Flashcore } from '../src/core/flashcore.js'
+import { Permissions } from '../src/core/permissions.js'
+import { FLASHCORE_KEYS } from '../src/core/constants.js'
+import { createTestRobo, FlashcoreMemoryAdapter } from '../src/testing/index.js'
+import type { TestRobo, TestRoboOptions } from '../src/testing/index.js'
+
+// A built Robo with a handler of each kind, written as the compiler would output them
+const Files: Record<string, string> = {
+	'package.json': JSON.stringify({ type: 'module' }),
+	'.robo/build/commands/ping.js': `export default () => 'Pong!'`,
+	'.robo/build/commands/echo.js': `
+		export const config = { cooldown: { window: 60000 } }
+		export default (interaction) => interaction.options.getString('text')
+	`,
+	'.robo/build/commands/slow.js': `
+		export default async (interaction) => {
+			await interaction.deferReply({ ephemeral: true })
+			await interaction.editReply('Done')
+		}
+	`,
+	'.robo/build/commands/admin/ban.js': `export default () => 'Banned'`,
+	'.robo/build/commands/color.js': `
+		const Colors = ['green', 'red', 'blue']
+		export const autocomplete = (interaction) => {
+			const query = interaction.options.getFocused()
+			return Colors.filter((color) => color.startsWith(query)).map((color) => ({ name: color, value: color }))
+		}
+		export default (interaction) => 'You picked ' + interaction.options.getString('color')
+	`,
+	'.robo/build/components/vote/[choice].js': `
+		export default async (interaction, params) => {
+			await interaction.reply({ content: 'Voted ' + params.choice, ephemeral: true })
+		}
+	`,
+	'.robo/build/modals/feedback.js': `
+		export default async (interaction) => {
+			await interaction.reply('Thanks: ' + interaction.fields.getTextInputValue('message'))
+		}
+	`,
+	'.robo/build/events/_start.js': `export default () => { globalThis.testingEvents.push('_start') }`,
+	'.robo/build/events/_stop.js': `export default () => { globalThis.testingEvents.push('_stop') }`,
+	'.robo/build/events/guildCreate.js': `
+		export default async (guild) => {
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			globalThis.testingEvents.push('guildCreate:' + guild.id)
+		}
+	`,
+	'.robo/build/migrations/greetings/1.js': `
+		export default async (context) => {
+			globalThis.testingEvents.push('migration')
+			await context.set('greeting', 'Hello')
+		}
+	`,
+	'.robo/manifest.json': JSON.stringify({
+		__robo: { config: null, language: 'javascript', type: 'robo' },
+		api: {},
+		commands: {
+			admin: {
+				subcommands: {
+					ban: { __auto: true, __path: '/.robo/build/commands/admin/ban.js', description: 'Bans a member' }
+				}
+			},
+			color: { __auto: true, __path: '/.robo/build/commands/color.js', description: 'Pick a color' },
+			echo: { __auto: true, __path: '/.robo/build/commands/echo.js', description: 'Repeats text' },
+			ping: { __auto: true, __path: '/.robo/build/commands/ping.js', description: 'Pong!' },
+			slow: { __auto: true, __path: '/.robo/build/commands/slow.js', description: 'Takes a while' }
+		},
+		components: { 'vote/[choice]': { __path: '/.robo/build/components/vote/[choice].js' } },
+		context: { message: {}, user: {} },
+		events: {
+			_start: [{ __path: '/.robo/build/events/_start.js' }],
+			_stop: [{ __path: '/.robo/build/events/_stop.js' }],
+			guildCreate: [{ __path: '/.robo/build/events/guildCreate.js' }]
+		},
+		middleware: [],
+		migrations: {
+			greetings: [{ __path: '/.robo/build/migrations/greetings/1.js', namespace: ['greetings'], version: 1 }]
+		},
+		modals: { feedback: { __path: '/.robo/build/modals/feedback.js' } },
+		permissions: [],
+		scopes: []
+	})
+}
+
+const globals = globalThis as typeof globalThis & { testingEvents: string[] }
+const originalCwd = process.cwd()
+let projectDir: string
+let robo: TestRobo | null = null
+
+beforeAll(async () => {
+	projectDir = await mkdtemp(path.join(tmpdir(), 'robo-testing-'))
+
+	for (const [file, contents] of Object.entries(Files)) {
+		await mkdir(path.dirname(path.join(projectDir, file)), { recursive: true })
+		await writeFile(path.join(projectDir, file), contents)
+	}
+
+	process.chdir(projectDir)
+})
+
+afterEach(async () => {
+	await robo?.stop()
+	robo = null
+})
+
+afterAll(async () => {
+	process.chdir(originalCwd)
+	await rm(projectDir, { force: true, recursive: true })
+})
+
+async function start(options: TestRoboOptions = {}) {
+	globals.testingEvents = []
+	robo = await createTestRobo({ logLevel: 'error', ...options })
+
+	return robo
+}
+
+describe('createTestRobo', () => {
+	test('runs migrations and _start on boot and _stop when stopped', async () => {
+		const robo = await start()
+		expect(globals.testingEvents).toEqual(['migration', '_start'])
+		expect(await Flashcore.get('greeting', { namespace: 'greetings' })).toBe('Hello')
+
+		await robo.stop()
+		expect(globals.testingEvents).toEqual(['migration', '_start', '_stop'])
+	})
+
+	test('replies with what a command returns', async () => {
+		const robo = await start()
+		const result = await robo.command('ping')
+
+		expect(result.replied).toBe(true)
+		expect(result.lastReply?.content).toBe('Pong!')
+		expect(result.responses.map((response) => response.type)).toEqual(['reply'])
+	})
+
+	test('passes options to commands and applies their cooldowns', async () => {
+		const robo = await start()
+		const first = await robo.command('echo', { options: { text: 'Hello' } })
+		const second = await robo.command('echo', { options: { text: 'Again' } })
+		const otherUser = await robo.command('echo', { options: { text: 'Hi' }, user: { id: '200' } })
+
+		expect(first.lastReply?.content).toBe('Hello')
+		expect(second.lastReply?.content).not.toBe('Again')
+		expect(second.ephemeral).toBe(true)
+		expect(otherUser.lastReply?.content).toBe('Hi')
+	})
+
+	test('records deferrals and edits', async () => {
+		const robo = await start()
+		const result = await robo.command('slow')
+
+		expect(result.deferred).toBe(true)
+		expect(result.ephemeral).toBe(true)
+		expect(result.lastReply?.content).toBe('Done')
+		expect(result.responses.map((response) => response.type)).toEqual(['deferReply', 'editReply'])
+	})
+
+	test('returns autocomplete choices', async () => {
+		const robo = await start()
+		const result = await robo.autocomplete('color', { options: { color: 'gr' } })
+
+		expect(result.choices).toEqual([{ name: 'green', value: 'green' }])
+	})
+
+	test('routes components with their params', async () => {
+		const robo = await start()
+		const result = await robo.component('vote/yes')
+
+		expect(result.lastReply?.content).toBe('Voted yes')
+		expect(result.ephemeral).toBe(true)
+	})
+
+	test('passes modal fields to the handler', async () => {
+		const robo = await start()
+		const result = await robo.modal('feedback', { fields: { message: 'Nice bot' } })
+
+		expect(result.lastReply?.content).toBe('Thanks: Nice bot')
+	})
+
+	test('waits for event handlers to finish', async () => {
+		const robo = await start()
+		await robo.event('guildCreate', { id: '300' })
+
+		expect(globals.testingEvents).toContain('guildCreate:300')
+	})
+
+	test('starts each Robo with empty Flashcore data', async () => {
+		await start()
+		await Flashcore.set('key', 'value')
+		await robo?.stop()
+
+		await start()
+		expect(await Flashcore.get('key')).toBeUndefined()
+	})
+
+	test("keeps data in adapters it didn't create", async () => {
+		const flashcore = new FlashcoreMemoryAdapter()
+		await start({ flashcore })
+		await Flashcore.set('key', 'value')
+		await robo?.stop()
+
+		expect(await flashcore.get('key')).toBe('value')
+		expect(await flashcore.get(`${FLASHCORE_KEYS.migrations}__greetings`)).toBe(1)
+
+		await start({ flashcore })
+		expect(globals.testingEvents).toEqual(['_start'])
+		expect(await Flashcore.get('key')).toBe('value')
+	})
+
+	test('applies guild overrides set for subcommand keys', async () => {
+		const robo = await start()
+		await Permissions.set('admin/ban', 'guild-1', { message: 'Moderators only', users: ['200'] })
+
+		const denied = await robo.command('admin ban', { guildId: 'guild-1' })
+		const allowed = await robo.command('admin ban', { guildId: 'guild-1', user: { id: '200' } })
+
+		expect(denied.lastReply?.content).toBe('Moderators only')
+		expect(denied.ephemeral).toBe(true)
+		expect(allowed.lastReply?.content).toBe('Banned')
+	})
+})
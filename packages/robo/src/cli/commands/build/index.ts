@@ -13,6 +13,7 @@ import { Compiler } from '../../utils/compiler.js'
 import { Flashcore } from '../../../core/flashcore.js'
 import { bold } from '../../../core/color.js'
 import { buildPublicDirectory } from '../../utils/public.js'
+import { generateOpenApi } from '../../utils/openapi.js'
 import { discordLogger, FLASHCORE_KEYS } from '../../../core/constants.js'
 import type { LoggerOptions } from '../../../core/logger.js'
 
@@ -94,7 +95,11 @@ export async function buildAction(files: string[], options: BuildCommandOptions)
 	}
 
 	// Initialize Flashcore to persist build error data
-	await Flashcore.$init({ keyvOptions: config.flashcore?.keyv, namespaceSeparator: config.flashcore?.namespaceSeparator })
+	await Flashcore.$init({
+		adapter: config.flashcore?.adapter,
+		keyvOptions: config.flashcore?.keyv,
+		namespaceSeparator: config.flashcore?.namespaceSeparator
+	})
 
 	// Use the Robo Compiler to generate .robo/build
 	const compileTime = await Compiler.buildCode({
@@ -113,6 +118,9 @@ export async function buildAction(files: string[], options: BuildCommandOptions)
 	const manifest = await generateManifest(generatedFiles, 'robo')
 	logger.debug(`Generated manifest in ${Date.now() - manifestTime}ms`)
 
+	// Describe API routes for @robojs/server
+	await generateOpenApi(manifest)
+
 	if (!options.dev) {
 		// Build /public for production if available
 		await buildPublicDirectory()
@@ -173,7 +173,11 @@ async function devAction(_args: string[], options: DevCommandOptions) {
 
 	// Get state saved to disk as the default
 	const stateStart = Date.now()
-	await Flashcore.$init({ keyvOptions: config.flashcore?.keyv, namespaceSeparator: config.flashcore?.namespaceSeparator })
+	await Flashcore.$init({
+		adapter: config.flashcore?.adapter,
+		keyvOptions: config.flashcore?.keyv,
+		namespaceSeparator: config.flashcore?.namespaceSeparator
+	})
 	const persistedState = (await Flashcore.get<Record<string, unknown>>(FLASHCORE_KEYS.state)) ?? {}
 	logger.debug(`State loaded in ${Date.now() - stateStart}ms`)
 
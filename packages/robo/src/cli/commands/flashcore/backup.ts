@@ -0,0 +1,53 @@
+import { Command } from '../../utils/cli-handler.js'
+import { color } from '../../../core/color.js'
+import { createBackup } from '../../../core/flashcore-backup.js'
+import { logger } from '../../../core/logger.js'
+import { initFlashcore } from '../../utils/flashcore.js'
+import path from 'node:path'
+
+const command = new Command('backup')
+	.description('Creates a rolling backup of Flashcore data.')
+	.option('-d', '--dir', 'directory to write backups to (default: .robo/backups)')
+	.option('-k', '--keep', 'number of backups to keep (default: 7)')
+	.option('-s', '--silent', 'do not print anything')
+	.option('-v', '--verbose', 'print more information for debugging')
+	.option('-h', '--help', 'Shows the available command options')
+	.handler(backupAction)
+export default command
+
+interface BackupCommandOptions {
+	dir?: string
+	keep?: string
+	silent?: boolean
+	verbose?: boolean
+}
+
+async function backupAction(_args: string[], options: BackupCommandOptions) {
+	logger({
+		enabled: !options.silent,
+		level: options.verbose ? 'debug' : 'info'
+	}).debug('Backing up Flashcore data...')
+	logger.debug('CLI options:', options)
+	logger.debug(`Current working directory:`, process.cwd())
+
+	const keep = options.keep ? parseInt(options.keep) : undefined
+	if (keep !== undefined && (isNaN(keep) || keep < 1)) {
+		logger.error(`${color.bold('--keep')} must be a positive number.`)
+		process.exit(1)
+	}
+
+	// CLI options take priority over the backup config
+	const config = await initFlashcore()
+	const backupOptions = {
+		directory: options.dir ?? config.flashcore?.backup?.directory,
+		keep: keep ?? config.flashcore?.backup?.keep
+	}
+
+	try {
+		const file = await createBackup(backupOptions)
+		logger.ready(`Backup saved to ${color.bold(path.relative(process.cwd(), file))}`)
+	} catch (error) {
+		logger.error('Failed to back up Flashcore data:', error)
+		process.exit(1)
+	}
+}
@@ -0,0 +1,53 @@
+import { Command } from '../../utils/cli-handler.js'
+import { color } from '../../../core/color.js'
+import { exportFlashcore } from '../../../core/flashcore-backup.js'
+import { logger } from '../../../core/logger.js'
+import { initFlashcore, parseNamespaces } from '../../utils/flashcore.js'
+import path from 'node:path'
+import type { FlashcoreExportFormat } from '../../../core/flashcore-backup.js'
+
+const command = new Command('export')
+	.description('Exports Flashcore data to a JSON or NDJSON file.')
+	.option('-f', '--format', 'file format to write (json, ndjson). Inferred from the file extension by default')
+	.option('-n', '--namespace', 'only export these namespaces (comma separated)')
+	.option('-s', '--silent', 'do not print anything')
+	.option('-v', '--verbose', 'print more information for debugging')
+	.option('-h', '--help', 'Shows the available command options')
+	.positionalArgs(true)
+	.handler(exportAction)
+export default command
+
+interface ExportCommandOptions {
+	format?: FlashcoreExportFormat
+	namespace?: string
+	silent?: boolean
+	verbose?: boolean
+}
+
+async function exportAction(args: string[], options: ExportCommandOptions) {
+	logger({
+		enabled: !options.silent,
+		level: options.verbose ? 'debug' : 'info'
+	}).debug('Exporting Flashcore data...')
+	logger.debug('CLI options:', options)
+	logger.debug(`Current working directory:`, process.cwd())
+
+	if (options.format && !['json', 'ndjson'].includes(options.format)) {
+		logger.error(
+			`Invalid format ${color.bold(String(options.format))}. Use ${color.bold('json')} or ${color.bold('ndjson')}.`
+		)
+		process.exit(1)
+	}
+
+	const file = path.resolve(args[0] ?? `flashcore-${Date.now()}.${options.format ?? 'json'}`)
+	const namespaces = parseNamespaces(options.namespace)
+	await initFlashcore()
+
+	try {
+		const count = await exportFlashcore(file, { format: options.format, namespaces })
+		logger.ready(`Exported ${color.bold(String(count))} entries to ${color.bold(path.relative(process.cwd(), file))}`)
+	} catch (error) {
+		logger.error('Failed to export Flashcore data:', error)
+		process.exit(1)
+	}
+}
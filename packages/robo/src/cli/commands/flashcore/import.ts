@@ -0,0 +1,56 @@
+import { Command } from '../../utils/cli-handler.js'
+import { color } from '../../../core/color.js'
+import { importFlashcore } from '../../../core/flashcore-backup.js'
+import { logger } from '../../../core/logger.js'
+import { initFlashcore } from '../../utils/flashcore.js'
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import type { FlashcoreExportFormat } from '../../../core/flashcore-backup.js'
+
+const command = new Command('import')
+	.description('Imports Flashcore data from a JSON or NDJSON file.')
+	.option('-c', '--clear', 'delete all existing data before importing')
+	.option('-f', '--format', 'file format to read (json, ndjson). Inferred from the file extension by default')
+	.option('-s', '--silent', 'do not print anything')
+	.option('-v', '--verbose', 'print more information for debugging')
+	.option('-h', '--help', 'Shows the available command options')
+	.positionalArgs(true)
+	.handler(importAction)
+export default command
+
+interface ImportCommandOptions {
+	clear?: boolean
+	format?: FlashcoreExportFormat
+	silent?: boolean
+	verbose?: boolean
+}
+
+async function importAction(args: string[], options: ImportCommandOptions) {
+	logger({
+		enabled: !options.silent,
+		level: options.verbose ? 'debug' : 'info'
+	}).debug('Importing Flashcore data...')
+	logger.debug('CLI options:', options)
+	logger.debug(`Current working directory:`, process.cwd())
+
+	if (!args[0]) {
+		logger.error(`Please specify a file to import. Example: ${color.bold('robo flashcore import backup.json')}`)
+		process.exit(1)
+	}
+
+	const file = path.resolve(args[0])
+	if (!existsSync(file)) {
+		logger.error(`File not found: ${color.bold(file)}`)
+		process.exit(1)
+	}
+
+	await initFlashcore()
+
+	try {
+		const count = await importFlashcore(file, { clear: options.clear, format: options.format })
+		logger.ready(`Imported ${color.bold(String(count))} entries from ${color.bold(path.relative(process.cwd(), file))}`)
+	} catch (error) {
+		logger.error('Failed to import Flashcore data:', error)
+		process.exit(1)
+	}
+}
@@ -0,0 +1,12 @@
+import { Command } from '../../utils/cli-handler.js'
+import backup from './backup.js'
+import exportCommand from './export.js'
+import importCommand from './import.js'
+import migrate from './migrate.js'
+
+const command = new Command('flashcore')
+	.addCommand(backup)
+	.addCommand(exportCommand)
+	.addCommand(importCommand)
+	.addCommand(migrate)
+export default command
@@ -0,0 +1,74 @@
+import { Command } from '../../utils/cli-handler.js'
+import { color } from '../../../core/color.js'
+import { logger } from '../../../core/logger.js'
+import { runMigrations } from '../../../core/migrations.js'
+import { Compiler } from '../../utils/compiler.js'
+import { initFlashcore } from '../../utils/flashcore.js'
+import type { MigrationResult } from '../../../types/index.js'
+
+const command = new Command('migrate')
+	.description('Runs pending Flashcore migrations.')
+	.option('-d', '--dry-run', 'show what would change without writing anything')
+	.option('-s', '--silent', 'do not print anything')
+	.option('-v', '--verbose', 'print more information for debugging')
+	.option('-h', '--help', 'Shows the available command options')
+	.handler(migrateAction)
+export default command
+
+const Indent = '   '
+
+interface MigrateCommandOptions {
+	'dry-run'?: boolean
+	silent?: boolean
+	verbose?: boolean
+}
+
+async function migrateAction(_args: string[], options: MigrateCommandOptions) {
+	logger({
+		enabled: !options.silent,
+		level: options.verbose ? 'debug' : 'info'
+	}).debug('Running Flashcore migrations...')
+	logger.debug('CLI options:', options)
+	logger.debug(`Current working directory:`, process.cwd())
+	const dryRun = !!options['dry-run']
+
+	// Migrations are read from the build manifest, so the Robo needs to have been built first
+	await Promise.all([initFlashcore(), Compiler.useManifest()])
+
+	const results = await runMigrations({ dryRun })
+	if (!results.length) {
+		logger.info('No pending migrations. Flashcore is up to date!')
+		return
+	}
+
+	logger.log('')
+	results.forEach((result) => printResult(result, dryRun))
+	logger.log('')
+
+	if (results.some((result) => result.error)) {
+		logger.error('Some migrations failed. Fix them and run this command again.')
+		process.exit(1)
+	} else if (dryRun) {
+		logger.info('Dry run complete. No data was changed.')
+	} else {
+		logger.ready('Migrations applied successfully!')
+	}
+}
+
+function printResult(result: MigrationResult, dryRun: boolean) {
+	const status = result.error ? color.red('✗') : color.green('✓')
+	const versions = `v${result.fromVersion} → v${result.toVersion}`
+	logger.log(Indent, status, color.bold(result.namespace), color.dim(versions), dryRun ? color.dim('(dry run)') : '')
+
+	for (const change of result.changes) {
+		if (change.type === 'delete') {
+			logger.log(Indent + Indent, color.red('- delete'), change.key)
+		} else {
+			logger.log(Indent + Indent, color.yellow('~ set'), change.key)
+		}
+	}
+
+	if (!result.changes.length) {
+		logger.log(Indent + Indent, color.dim('No changes'))
+	}
+}
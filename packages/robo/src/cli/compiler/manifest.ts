@@ -83,6 +83,14 @@ export async function useManifest(options?: UseManifestOptions): Promise<Manifes
 					path: basePath
 				}
 			})
+			Object.keys(manifest.components ?? {}).forEach((key) => {
+				manifest.components[key].__auto = true
+				manifest.components[key].__path = manifest.components[key].__path?.replaceAll('\\', path.sep)
+				manifest.components[key].__plugin = {
+					name,
+					path: basePath
+				}
+			})
 			Object.keys(manifest.context?.message ?? {}).forEach((key) => {
 				manifest.context.message[key].__auto = true
 				manifest.context.message[key].__path = manifest.context.message[key].__path?.replaceAll('\\', path.sep)
@@ -111,6 +119,21 @@ export async function useManifest(options?: UseManifestOptions): Promise<Manifes
 				...middleware,
 				__path: middleware.__path?.replaceAll('\\', path.sep)
 			}))
+			Object.keys(manifest.migrations ?? {}).forEach((key) => {
+				manifest.migrations[key] = manifest.migrations[key].map((migration) => ({
+					...pluginInfo,
+					...migration,
+					__path: migration.__path?.replaceAll('\\', path.sep)
+				}))
+			})
+			Object.keys(manifest.modals ?? {}).forEach((key) => {
+				manifest.modals[key].__auto = true
+				manifest.modals[key].__path = manifest.modals[key].__path?.replaceAll('\\', path.sep)
+				manifest.modals[key].__plugin = {
+					name,
+					path: basePath
+				}
+			})
 
 			if (manifest.__robo?.seed?.hook) {
 				manifest.__robo.seed.hook = manifest.__robo.seed.hook.replaceAll('\\', path.sep)
@@ -7,6 +7,7 @@ import build from './commands/build/index.js'
 import cloud from './commands/cloud/index.js'
 import dev from './commands/dev.js'
 import deploy from './commands/deploy.js'
+import flashcore from './commands/flashcore/index.js'
 import invite from './commands/invite.js'
 import login from './commands/login.js'
 import logout from './commands/logout.js'
@@ -32,6 +33,7 @@ command.addCommand(upgrade)
 command.addCommand(deploy)
 command.addCommand(invite)
 command.addCommand(cloud)
+command.addCommand(flashcore)
 command.addCommand(login)
 command.addCommand(logout)
 command.addCommand(why)
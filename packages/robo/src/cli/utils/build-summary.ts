@@ -105,6 +105,21 @@ export function printBuildSummary(manifest: Manifest, totalSize: number, startTi
 			'\n' + color.bold(color.magenta(type + typeSpacing + autoSymbol)) + `${color.bold(event).padEnd(maxLength + 1)}`
 	}
 
+	for (const [routeType, routes] of [
+		['Component', manifest.components],
+		['Modal', manifest.modals]
+	] as const) {
+		for (const [route, routeData] of Object.entries(routes ?? {})) {
+			const autoSymbol = routeData.__auto ? '  Δ ' : '    '
+			if (routeData.__auto) {
+				autoGeneratedExists = true
+			}
+
+			const typeSpacing = ' '.repeat(maxTypeNameLength - routeType.length + 1)
+			summary += '\n' + color.bold(color.cyan(routeType + typeSpacing + autoSymbol)) + color.bold(route)
+		}
+	}
+
 	// Format sizing information
 	let sizeText = ''
 	if (totalSize < 1024 * 1024) {
@@ -318,10 +318,15 @@ export function findCommandDifferences(
 }
 
 function hasChangedFields(obj1: CommandEntry, obj2: CommandEntry): boolean {
-	const fieldsToCompare: (keyof CommandEntry)[] = ['description', 'options']
+	const fieldsToCompare: (keyof CommandEntry)[] = [
+		'description',
+		'descriptionLocalizations',
+		'nameLocalizations',
+		'options'
+	]
 
 	for (const field of fieldsToCompare) {
-		if (field === 'options') {
+		if (field !== 'description') {
 			if (JSON.stringify(obj1[field]) !== JSON.stringify(obj2[field])) {
 				return true
 			}
@@ -0,0 +1,31 @@
+import { loadConfig } from '../../core/config.js'
+import { Env } from '../../core/env.js'
+import { Flashcore } from '../../core/flashcore.js'
+import { Mode } from '../../core/mode.js'
+import type { Config } from '../../types/index.js'
+
+/**
+ * Connects Flashcore to the adapter configured for this Robo, so CLI commands read and write the same data it does.
+ */
+export async function initFlashcore(): Promise<Config> {
+	const config = await loadConfig()
+	await Env.load({ mode: Mode.get() })
+	await Flashcore.$init({
+		adapter: config.flashcore?.adapter,
+		keyvOptions: config.flashcore?.keyv,
+		namespaceSeparator: config.flashcore?.namespaceSeparator
+	})
+
+	return config
+}
+
+/**
+ * Splits namespaces passed as a CLI option, such as `--namespace polls,profiles`.
+ */
+export function parseNamespaces(value: unknown): string[] | undefined {
+	if (typeof value !== 'string') {
+		return undefined
+	}
+
+	return value.split(/[\s,]+/).filter(Boolean)
+}
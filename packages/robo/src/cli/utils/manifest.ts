@@ -8,6 +8,7 @@ import {
 	CommandEntry,
 	CommandOption,
 	CommandOptionTypes,
+	ComponentEntry,
 	Config,
 	SeedEnvVariableConfig,
 	SeedHookHandler,
@@ -15,6 +16,8 @@ import {
 	EventConfig,
 	Manifest,
 	MiddlewareEntry,
+	MigrationEntry,
+	ModalEntry,
 	Plugin,
 	Scope
 } from '../../types/index.js'
@@ -30,6 +33,7 @@ import { Compiler } from './compiler.js'
 import { IS_BUN_RUNTIME } from './runtime-utils.js'
 import { PermissionsString } from 'discord.js'
 import { getContextType, getIntegrationType } from './commands.js'
+import { getApiMetadata, getApiSchemas } from './openapi.js'
 
 // TODO:
 // - Ensure base manifest is always up to date (function-based instead of default object)
@@ -45,6 +49,7 @@ export const BASE_MANIFEST: Manifest = {
 	},
 	api: {},
 	commands: {},
+	components: {},
 	context: {
 		message: {},
 		user: {}
@@ -52,6 +57,7 @@ export const BASE_MANIFEST: Manifest = {
 	events: {},
 	permissions: [],
 	middleware: [],
+	modals: {},
 	scopes: []
 }
 
@@ -88,6 +94,20 @@ const mergeEvents = (baseEvents: Record<string, EventConfig[]>, newEvents: Recor
 	return mergedEvents
 }
 
+const mergeMigrations = (
+	baseMigrations: Record<string, MigrationEntry[]> = {},
+	newMigrations: Record<string, MigrationEntry[]> = {}
+) => {
+	const mergedMigrations = { ...baseMigrations }
+
+	for (const namespace in newMigrations) {
+		const migrations = [...(mergedMigrations[namespace] ?? []), ...newMigrations[namespace]]
+		mergedMigrations[namespace] = migrations.sort((a, b) => a.version - b.version)
+	}
+
+	return mergedMigrations
+}
+
 // Normalize manifest/env hook variable formats into a consistent shape for serialization.
 function normalizeSeedEnvVariables(
 	variables: Record<string, SeedEnvVariableConfig | string> | undefined
@@ -196,6 +216,9 @@ export async function generateManifest(generatedDefaults: DefaultGen, type: 'plu
 	const context = await generateEntries<CommandEntry>('context', Object.keys(generatedDefaults?.context ?? {}))
 	const events = await generateEntries<EventConfig>('events', Object.keys(generatedDefaults?.events ?? {}))
 	const middleware = Object.values(await generateEntries<MiddlewareEntry>('middleware', [])).flat()
+	const components = await generateEntries<ComponentEntry>('components', [])
+	const modals = await generateEntries<ModalEntry>('modals', [])
+	const migrations = await generateEntries<MigrationEntry>('migrations', [])
 	const { isTypeScript } = Compiler.isTypescriptProject()
 
 	const newManifest: Manifest = {
@@ -218,6 +241,10 @@ export async function generateManifest(generatedDefaults: DefaultGen, type: 'plu
 			...pluginsManifest.commands,
 			...commands
 		} as Record<string, CommandConfig>,
+		components: {
+			...pluginsManifest.components,
+			...components
+		},
 		context: {
 			message: {
 				...pluginsManifest.context?.message,
@@ -229,7 +256,12 @@ export async function generateManifest(generatedDefaults: DefaultGen, type: 'plu
 			}
 		},
 		events: mergeEvents(pluginsManifest.events, events),
-		middleware: [...pluginsManifest.middleware, ...middleware]
+		middleware: [...pluginsManifest.middleware, ...middleware],
+		migrations: mergeMigrations(pluginsManifest.migrations, migrations),
+		modals: {
+			...pluginsManifest.modals,
+			...modals
+		}
 	}
 
 	// Smartly detect permissions and scopes
@@ -239,6 +271,10 @@ export async function generateManifest(generatedDefaults: DefaultGen, type: 'plu
 	// Make sure newManifest commands are in alphabetical order
 	newManifest.api = Object.fromEntries(Object.entries(newManifest.api).sort(([a], [b]) => a.localeCompare(b)))
 	newManifest.commands = Object.fromEntries(Object.entries(newManifest.commands).sort(([a], [b]) => a.localeCompare(b)))
+	newManifest.components = Object.fromEntries(
+		Object.entries(newManifest.components).sort(([a], [b]) => a.localeCompare(b))
+	)
+	newManifest.modals = Object.fromEntries(Object.entries(newManifest.modals).sort(([a], [b]) => a.localeCompare(b)))
 	newManifest.events = Object.fromEntries(Object.entries(newManifest.events).sort(([a], [b]) => a.localeCompare(b)))
 
 	// Our new source of truth is ready!
@@ -285,6 +321,10 @@ async function readPluginManifest(plugins: Plugin[]): Promise<Manifest> {
 				...pluginsManifest.commands,
 				...manifest.commands
 			},
+			components: {
+				...pluginsManifest.components,
+				...manifest.components
+			},
 			context: {
 				message: {
 					...pluginsManifest.context?.message,
@@ -297,6 +337,11 @@ async function readPluginManifest(plugins: Plugin[]): Promise<Manifest> {
 			},
 			events: mergeEvents(pluginsManifest.events, manifest.events),
 			middleware: [...(pluginsManifest.middleware ?? []), ...(manifest.middleware ?? [])],
+			migrations: mergeMigrations(pluginsManifest.migrations, manifest.migrations),
+			modals: {
+				...pluginsManifest.modals,
+				...manifest.modals
+			},
 			permissions: [
 				...(pluginsManifest.permissions as PermissionsString[]),
 				...(validPermissions ? (manifest.permissions as PermissionsString[]) : [])
@@ -367,13 +412,15 @@ function generateScopes(config: Config, newManifest: Manifest): Scope[] {
 	return [...new Set(scopes)].filter((scope) => scope)
 }
 
+type HandlerType = 'api' | 'commands' | 'components' | 'context' | 'events' | 'middleware' | 'migrations' | 'modals'
+
 interface ScanDirOptions {
 	buildDirectory?: string
 	recurseModules?: boolean
 	recursionKeys?: string[]
 	recursionModuleKeys?: string[]
 	recursionPath?: string
-	type: 'api' | 'commands' | 'context' | 'events' | 'middleware'
+	type: HandlerType
 }
 
 type ScanDirPredicate = (fileKeys: string[], fullPath: string, moduleKeys: string[]) => Promise<void>
@@ -536,8 +583,10 @@ async function generateEntries<T>(
 ): Promise<Record<'message' | 'user', Record<string, T>>>
 async function generateEntries<T>(type: 'events', generatedKeys: string[]): Promise<Record<string, T[]>>
 async function generateEntries<T>(type: 'middleware', generatedKeys: string[]): Promise<Record<string, T>>
+async function generateEntries<T>(type: 'components' | 'modals', generatedKeys: string[]): Promise<Record<string, T>>
+async function generateEntries<T>(type: 'migrations', generatedKeys: string[]): Promise<Record<string, T[]>>
 async function generateEntries<T>(
-	type: 'api' | 'commands' | 'context' | 'events' | 'middleware',
+	type: HandlerType,
 	generatedKeys: string[]
 ): Promise<Record<string, T | T[] | Record<string, T>>> {
 	try {
@@ -554,6 +603,7 @@ async function generateEntries<T>(
 				const module = await import(importPath)
 				let entry = {
 					...getValue(type, module.config),
+					...(type === 'api' ? await getApiMetadata(module, fullPath) : {}),
 					__auto: isGenerated ? true : undefined,
 					__module: moduleKeys.join('/') || undefined,
 					__path: fullPath.replace(process.cwd(), '')
@@ -613,7 +663,7 @@ async function generateEntries<T>(
 						parentCommand.subcommands[fileKeys[1]] = parentSubcommand as T
 					}
 
-					parentSubcommand.subcommands[fileKeys[2]] = entry
+					parentSubcommand.subcommands[fileKeys[2]] = withoutParent(entry as CommandEntry, parentSubcommand) as T
 				}
 
 				// If this is a second level command, find the parent command and add it as a subcommand
@@ -633,7 +683,7 @@ async function generateEntries<T>(
 						parentCommand = { subcommands: {} }
 						entries[fileKeys[0]] = parentCommand as T
 					}
-					parentCommand.subcommands[fileKeys[1]] = entry
+					parentCommand.subcommands[fileKeys[1]] = withoutParent(entry as CommandEntry, parentCommand) as T
 				}
 
 				// Top-level commands are simpler single objects uwu
@@ -646,6 +696,41 @@ async function generateEntries<T>(
 					entries[fileKeys.join('/')] = entry
 				}
 
+				// Migrations are grouped by namespace and ordered by version, e.g. "/src/migrations/xp/2.js"
+				if (type === 'migrations') {
+					const namespace = fileKeys.slice(0, -1)
+					const version = Number(fileKeys[fileKeys.length - 1])
+
+					if (!namespace.length || !Number.isInteger(version) || version < 1) {
+						const migrationPath = color.bold(`/src/${type}/${fileKeys.join('/')}`)
+						logger.error(
+							'Migrations must be named after their version within a namespace folder! Source: ' + migrationPath
+						)
+						process.exit(1)
+					}
+
+					const namespaceKey = namespace.join('/')
+					const namespaceEntries = ((entries[namespaceKey] as MigrationEntry[]) ?? []).concat({
+						...entry,
+						namespace,
+						version
+					})
+					entries[namespaceKey] = namespaceEntries.sort((a, b) => a.version - b.version) as T[]
+				}
+
+				// Components and modals are keyed by their custom ID route, e.g. "roadmap/sync/[guildId]/cancel"
+				if (type === 'components' || type === 'modals') {
+					const routeKeys = fileKeys[fileKeys.length - 1] === 'index' ? fileKeys.slice(0, -1) : fileKeys
+					const routeKey = routeKeys.join('/')
+
+					if (entries[routeKey]) {
+						const routePath = color.bold(`/src/${type}/${routeKey}`)
+						logger.error(`Duplicate ${type.slice(0, -1)} route found! Source: ` + routePath)
+						process.exit(1)
+					}
+					entries[routeKey] = entry
+				}
+
 				// API Routes are infinitely nested objects
 				if (type === 'api') {
 					if (fileKeys.length > 1) {
@@ -692,11 +777,21 @@ async function generateEntries<T>(
 	}
 }
 
+/**
+ * Moves a subcommand's `parent` config onto its parent entry, since parents have no file to configure them.
+ */
+function withoutParent(entry: CommandEntry, parentEntry: CommandEntry): CommandEntry {
+	const { parent, ...rest } = entry
+
+	if (parent) {
+		Object.assign(parentEntry, parent)
+	}
+
+	return rest
+}
+
 type AllConfig = CommandConfig & EventConfig
-function getValue<T extends AllConfig>(
-	type: 'api' | 'commands' | 'context' | 'events' | 'middleware',
-	config: BaseConfig
-): T {
+function getValue<T extends AllConfig>(type: HandlerType, config: BaseConfig): T {
 	const value = {} as T
 	if (!config) {
 		return value
@@ -783,6 +878,12 @@ function getValue<T extends AllConfig>(
 				value.sage = (config as CommandConfig).sage
 			}
 		}
+		if ((config as CommandConfig).nameLocalizations) {
+			value.nameLocalizations = (config as CommandConfig).nameLocalizations
+		}
+		if ((config as CommandConfig).parent) {
+			value.parent = (config as CommandConfig).parent
+		}
 	}
 
 	if (type === 'context' && config !== undefined) {
@@ -803,10 +904,27 @@ function getValue<T extends AllConfig>(
 		}
 	}
 
+	if ((type === 'components' || type === 'modals') && config) {
+		if ((config as ComponentEntry).sage !== undefined) {
+			value.sage = (config as ComponentEntry).sage
+		}
+	}
+
 	if (type === 'events' && config) {
 		value.frequency = (config as EventConfig).frequency ?? 'always'
 	}
 
+	if (type === 'api' && config) {
+		const schemas = getApiSchemas(config as Record<string, unknown>)
+
+		if (config.description) {
+			value.description = config.description
+		}
+		if (schemas) {
+			;(value as ApiEntry).schemas = schemas
+		}
+	}
+
 	if (config.timeout !== undefined) {
 		value.timeout = config.timeout
 	}
@@ -0,0 +1,172 @@
+import { getRoboPackageJson } from './utils.js'
+import { logger } from '../../core/logger.js'
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { ApiEntry, ApiSchemas, Manifest } from '../../types/index.js'
+
+const ApiMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+const OpenApiPath = path.join(process.cwd(), '.robo', 'openapi.json')
+
+// A JSDoc comment directly followed by the export it documents
+const JsDocRegex =
+	/\/\*\*((?:(?!\*\/)[\s\S])*)\*\/\s*export\s+(?:default\b|(?:const|let|var)\s+(\w+)|(?:async\s+)?function\s*\*?\s*(\w+))/g
+
+// Catch-all segments such as `[...slug]` become a plain `{slug}`, since OpenAPI has no syntax for them
+const PathParamRegex = /\[(?:\.\.\.)?(.+?)\]/g
+
+type JsonSchema = Record<string, unknown> & {
+	properties?: Record<string, Record<string, unknown>>
+	required?: string[]
+}
+
+/**
+ * Lists the handlers an API route file exports, along with the JSDoc comments describing them.
+ */
+export async function getApiMetadata(
+	module: Record<string, unknown>,
+	filePath: string
+): Promise<Pick<ApiEntry, 'docs' | 'methods'>> {
+	const methods = ['default', ...ApiMethods].filter((key) => typeof module[key] === 'function')
+	const docs: Record<string, string> = {}
+	const source = await readFile(filePath, 'utf-8')
+
+	for (const match of source.matchAll(JsDocRegex)) {
+		const key = match[2] ?? match[3] ?? 'default'
+		const doc = cleanJsDoc(match[1])
+
+		if (doc && methods.includes(key)) {
+			docs[key] = doc
+		}
+	}
+
+	return { docs: Object.keys(docs).length ? docs : undefined, methods }
+}
+
+/**
+ * Copies the request schemas in an API route's config as JSON Schema.
+ * Parsers such as zod are only included if they can convert themselves with `toJSONSchema()`.
+ */
+export function getApiSchemas(config: Record<string, unknown>): ApiSchemas | undefined {
+	const schemas: ApiSchemas = {}
+
+	for (const key of ['body', 'params', 'query'] as const) {
+		const schema = toJsonSchema(config[key])
+
+		if (schema) {
+			schemas[key] = schema
+		}
+	}
+
+	return Object.keys(schemas).length ? schemas : undefined
+}
+
+/**
+ * Writes an OpenAPI 3.1 document describing every API route to `.robo/openapi.json`.
+ * Paths are relative to the server's prefix, which `@robojs/server` adds to the document when serving it.
+ */
+export async function generateOpenApi(manifest: Manifest) {
+	const paths: Record<string, Record<string, unknown>> = {}
+
+	const addRoutes = (entries: Record<string, ApiEntry>, parentKeys: string[]) => {
+		for (const [key, entry] of Object.entries(entries)) {
+			const keys = [...parentKeys, key]
+
+			// Skip `_middleware` files, which @robojs/server runs before other routes
+			if (entry.__path && key !== '_middleware') {
+				paths['/' + keys.join('/').replace(PathParamRegex, '{$1}')] = getPathItem(keys, entry)
+			}
+			if (entry.subroutes) {
+				addRoutes(entry.subroutes, keys)
+			}
+		}
+	}
+	addRoutes(manifest.api ?? {}, [])
+
+	if (!Object.keys(paths).length) {
+		await rm(OpenApiPath, { force: true })
+		return
+	}
+
+	const packageJson = await getRoboPackageJson()
+	const document = {
+		info: { title: packageJson.name ?? 'Robo', version: packageJson.version ?? '0.0.0' },
+		openapi: '3.1.0',
+		paths
+	}
+
+	await writeFile(OpenApiPath, JSON.stringify(document, null, '\t'))
+	logger.debug(`Generated OpenAPI document with ${Object.keys(paths).length} routes`)
+}
+
+function cleanJsDoc(comment: string) {
+	const lines = comment.split('\n').map((line) => line.replace(/^\s*\*? ?/, '').trimEnd())
+	const tagIndex = lines.findIndex((line) => line.startsWith('@'))
+
+	return (tagIndex < 0 ? lines : lines.slice(0, tagIndex)).join('\n').trim()
+}
+
+function getPathItem(keys: string[], entry: ApiEntry) {
+	const { docs = {}, methods = ['default'], schemas = {} } = entry
+	const query = schemas.query as JsonSchema | undefined
+	const pathParams = keys.flatMap((key) => [...key.matchAll(PathParamRegex)].map((match) => match[1]))
+
+	const parameters = [
+		...pathParams.map((name) => ({
+			in: 'path',
+			name,
+			required: true,
+			schema: (schemas.params as JsonSchema | undefined)?.properties?.[name] ?? { type: 'string' }
+		})),
+		...Object.entries(query?.properties ?? {}).map(([name, schema]) => ({
+			in: 'query',
+			name,
+			required: query.required?.includes(name) ?? false,
+			schema
+		}))
+	]
+
+	// Default handlers answer every method without its own export
+	const operations = methods.includes('default') ? ApiMethods : ApiMethods.filter((method) => methods.includes(method))
+	const hasSchemas = Object.keys(schemas).length > 0
+	const pathItem: Record<string, unknown> = {}
+
+	for (const method of operations) {
+		const description = (methods.includes(method) ? docs[method] : docs.default) ?? entry.description
+
+		pathItem[method.toLowerCase()] = {
+			description,
+			parameters: parameters.length ? parameters : undefined,
+			requestBody:
+				method !== 'GET' && schemas.body ? { content: { 'application/json': { schema: schemas.body } } } : undefined,
+			responses: {
+				200: { description: 'Successful response' },
+				400: hasSchemas ? { description: 'Invalid request' } : undefined
+			},
+			summary: description?.split('\n')[0],
+			tags: [keys[0]]
+		}
+	}
+
+	return pathItem
+}
+
+function toJsonSchema(schema: unknown): Record<string, unknown> | undefined {
+	if (!schema || typeof schema !== 'object') {
+		return undefined
+	}
+
+	const { safeParse, toJSONSchema } = schema as { safeParse?: unknown; toJSONSchema?: () => Record<string, unknown> }
+
+	try {
+		if (typeof toJSONSchema === 'function') {
+			return toJSONSchema.call(schema)
+		} else if (typeof safeParse !== 'function') {
+			return JSON.parse(JSON.stringify(schema))
+		}
+	} catch (error) {
+		logger.debug('Could not convert API schema to JSON Schema:', error)
+	}
+
+	return undefined
+}
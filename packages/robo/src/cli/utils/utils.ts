@@ -12,7 +12,7 @@ import path from 'node:path'
 import os from 'node:os'
 import { fileURLToPath } from 'node:url'
 import { IS_BUN_PM } from './runtime-utils.js'
-import { InteractionDeferReplyOptions, InteractionReplyOptions, MessageFlags } from 'discord.js'
+import { InteractionDeferReplyOptions, InteractionReplyOptions, Message, MessageFlags } from 'discord.js'
 import type { Pod } from '../../roboplay/types.js'
 
 export const __DIRNAME = path.dirname(fileURLToPath(import.meta.url))
@@ -53,6 +53,29 @@ export function withEphemeralReply<T extends InteractionReplyOptions>(opts: T, o
 	return opts
 }
 
+/**
+ * Picks the variant of a message for the user's locale, then the guild's, then `en-US` or whichever comes first.
+ * Messages only carry their guild's locale, while interactions also carry the user's.
+ */
+export function localize(
+	message: string | Record<string, string>,
+	source: Message | { guildLocale: string | null; locale: string },
+	fallback = ''
+): string {
+	if (typeof message === 'string') {
+		return message
+	}
+
+	const locales = source instanceof Message ? [source.guild?.preferredLocale] : [source.locale, source.guildLocale]
+
+	return (
+		locales.map((locale) => (locale ? message[locale] : undefined)).find(Boolean) ??
+		message['en-US'] ??
+		Object.values(message)[0] ??
+		fallback
+	)
+}
+
 export function getPodStatusColor(status: Pod['status']) {
 	if (['Deploying', 'Updating'].includes(status)) {
 		return color.cyan
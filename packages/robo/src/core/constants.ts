@@ -10,6 +10,7 @@ export const Space = ' '.repeat(8)
 
 export const cloudflareLogger = logger.fork('cloudflare')
 export const discordLogger = logger.fork('discord')
+export const flashcoreLogger = logger.fork('flashcore')
 
 // TODO: Test support for ['.js', '.jsx', '.ts', '.tsx'] in Bun
 export const ALLOWED_EXTENSIONS = IS_BUN_RUNTIME ? ['.js', '.jsx', '.ts', '.tsx'] : ['.js', '.jsx']
@@ -34,7 +35,10 @@ export const DEFAULT_CONFIG: Config = {
 
 export const FLASHCORE_KEYS = {
 	commandRegisterError: '__robo_command_register_error',
+	cooldown: '__robo_cooldown',
 	lastUpdateCheck: '__robo_last_update_check',
+	migrations: '__robo_migrations',
+	permissions: '__robo_permissions',
 	state: '__robo_state'
 }
 
@@ -0,0 +1,228 @@
+import { FLASHCORE_KEYS, discordLogger } from './constants.js'
+import { Flashcore } from './flashcore.js'
+import { localize, withEphemeralReply } from '../cli/utils/utils.js'
+import type { CommandInteraction } from 'discord.js'
+import type { CooldownConfig, CooldownScope, SageOptions } from '../types/index.js'
+
+const DEFAULT_MESSAGE = 'Slow down! You can use this again {time}.'
+
+// Expired buckets are evicted at most this often
+const SWEEP_INTERVAL = 60_000
+
+interface Bucket {
+	/** When the newest use leaves the window, after which the bucket can be dropped. */
+	expiresAt: number
+	uses: number[]
+}
+
+// Timestamps of recent uses, keyed by bucket
+const _buckets = new Map<string, Bucket>()
+
+// Pending checks per handler, so concurrent interactions can't both slip under the limit
+const _locks = new Map<string, Promise<void>>()
+
+let _lastSweep = Date.now()
+
+/**
+ * Declarative rate limiting for commands and context menus.
+ *
+ * ```ts
+ * import { Cooldowns } from 'robo.js'
+ *
+ * // Let a user run /daily again right away
+ * await Cooldowns.reset('daily', interaction.user.id)
+ * ```
+ *
+ * Cooldowns are usually configured via the `cooldown` option in a command's config and enforced automatically.
+ */
+export const Cooldowns = {
+	/**
+	 * Checks every cooldown for a handler and records a use if none are active.
+	 *
+	 * @param key - The handler key, such as a command key.
+	 * @param cooldown - Cooldowns to enforce.
+	 * @param interaction - The interaction used to resolve buckets.
+	 * @returns Milliseconds until the handler can be used again, or 0 if the use was recorded.
+	 */
+	consume: async (
+		key: string,
+		cooldown: CooldownConfig | CooldownConfig[],
+		interaction: CommandInteraction
+	): Promise<number> => {
+		const cooldowns = Array.isArray(cooldown) ? cooldown : [cooldown]
+
+		return withLock(key, async () => {
+			const now = Date.now()
+			sweep(now)
+
+			const buckets = await Promise.all(
+				cooldowns.map(async (config) => {
+					const bucketKey = getBucketKey(key, config, interaction)
+					const uses = (await loadBucket(bucketKey, config)).filter((time) => time > now - config.window)
+
+					return { bucketKey, config, uses }
+				})
+			)
+
+			// Don't record anything unless every bucket has room
+			let remaining = 0
+			for (const { config, uses } of buckets) {
+				if (uses.length >= (config.burst ?? 1)) {
+					remaining = Math.max(remaining, uses[uses.length - (config.burst ?? 1)] + config.window - now)
+				}
+			}
+
+			if (remaining > 0) {
+				return remaining
+			}
+
+			await Promise.all(
+				buckets.map(async ({ bucketKey, config, uses }) => {
+					uses.push(now)
+					_buckets.set(bucketKey, { expiresAt: now + config.window, uses })
+
+					if (config.persist) {
+						await Flashcore.set(bucketKey, uses, { namespace: FLASHCORE_KEYS.cooldown, ttl: config.window })
+					}
+				})
+			)
+
+			return 0
+		})
+	},
+
+	/**
+	 * Clears cooldowns for a handler so it can be used again immediately.
+	 *
+	 * @param key - The handler key, such as a command key.
+	 * @param id - The user, guild, or channel ID the bucket belongs to. Omit to reset the global bucket.
+	 */
+	reset: async (key: string, id?: string) => {
+		const scopes: CooldownScope[] = id ? ['channel', 'guild', 'user'] : ['global']
+
+		await Promise.all(
+			scopes.map(async (scope) => {
+				// Each cooldown window has its own bucket under this prefix
+				const prefix = `${key}:${scope}:${id ?? 'global'}:`
+				for (const bucketKey of _buckets.keys()) {
+					if (bucketKey.startsWith(prefix)) {
+						_buckets.delete(bucketKey)
+					}
+				}
+
+				let persisted: string[] = []
+				try {
+					persisted = await Flashcore.keys({ namespace: FLASHCORE_KEYS.cooldown, prefix })
+				} catch (error) {
+					discordLogger.debug(`Could not list persisted cooldowns for ${key}:`, error)
+				}
+				await Promise.all(
+					persisted.map((bucketKey) => Flashcore.delete(bucketKey, { namespace: FLASHCORE_KEYS.cooldown }))
+				)
+			})
+		)
+	}
+}
+
+/**
+ * Enforces cooldowns for an interaction, replying with Sage's cooldown message when one is active.
+ *
+ * @returns `true` if the interaction is on cooldown and the handler should not run.
+ */
+export async function enforceCooldown(
+	interaction: CommandInteraction,
+	key: string,
+	cooldown: CooldownConfig | CooldownConfig[] | undefined,
+	sage: SageOptions
+): Promise<boolean> {
+	if (!cooldown || (Array.isArray(cooldown) && !cooldown.length)) {
+		return false
+	}
+
+	const remaining = await Cooldowns.consume(key, cooldown, interaction)
+	if (remaining <= 0) {
+		return false
+	}
+
+	discordLogger.debug(`Handler ${key} is on cooldown for another ${remaining}ms`)
+	const configMessage = (Array.isArray(cooldown) ? cooldown.find((c) => c.message) : cooldown)?.message
+	const message = localize(configMessage ?? sage.cooldownMessage ?? DEFAULT_MESSAGE, interaction, DEFAULT_MESSAGE)
+	const content = message
+		.replaceAll('{time}', `<t:${Math.ceil((Date.now() + remaining) / 1000)}:R>`)
+		.replaceAll('{seconds}', String(Math.ceil(remaining / 1000)))
+
+	try {
+		if (interaction.replied || interaction.deferred) {
+			await interaction.followUp(withEphemeralReply({ content }))
+		} else {
+			await interaction.reply(withEphemeralReply({ content }))
+		}
+	} catch (error) {
+		discordLogger.debug(`Failed to send cooldown message:`, error)
+	}
+
+	return true
+}
+
+/**
+ * Cooldowns sharing a scope still get their own bucket per window, so a short burst limit can't erase a longer one's history.
+ */
+function getBucketKey(key: string, config: CooldownConfig, interaction: CommandInteraction) {
+	const scope = config.scope ?? 'user'
+	let id: string
+	if (scope === 'channel') {
+		id = interaction.channelId ?? interaction.user.id
+	} else if (scope === 'guild') {
+		id = interaction.guildId ?? interaction.user.id
+	} else if (scope === 'user') {
+		id = interaction.user.id
+	} else {
+		id = 'global'
+	}
+
+	return `${key}:${scope}:${id}:${config.window}`
+}
+
+async function loadBucket(bucketKey: string, config: CooldownConfig): Promise<number[]> {
+	const bucket = _buckets.get(bucketKey)
+	if (bucket) {
+		return bucket.uses
+	}
+
+	// Persisted buckets are loaded lazily the first time they're needed after a restart
+	if (config.persist) {
+		return (await Flashcore.get<number[]>(bucketKey, { namespace: FLASHCORE_KEYS.cooldown })) ?? []
+	}
+
+	return []
+}
+
+function sweep(now: number) {
+	if (now - _lastSweep < SWEEP_INTERVAL) {
+		return
+	}
+
+	_lastSweep = now
+	for (const [bucketKey, bucket] of _buckets) {
+		if (bucket.expiresAt <= now) {
+			_buckets.delete(bucketKey)
+		}
+	}
+}
+
+async function withLock<T>(key: string, callback: () => Promise<T>): Promise<T> {
+	const pending = _locks.get(key)
+	let release: () => void
+	const lock = new Promise<void>((resolve) => (release = resolve))
+	_locks.set(key, lock)
+
+	try {
+		await pending
+		return await callback()
+	} finally {
+		if (_locks.get(key) === lock) {
+			_locks.delete(key)
+		}
+		release()
+	}
+}
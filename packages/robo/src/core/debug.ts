@@ -12,10 +12,12 @@ import {
 	CommandInteraction,
 	ComponentType,
 	Message,
+	MessageComponentInteraction,
+	ModalSubmitInteraction,
 	PartialGroupDMChannel,
 	TextChannel
 } from 'discord.js'
-import { getSage } from '../cli/utils/utils.js'
+import { getSage, localize } from '../cli/utils/utils.js'
 import { client } from './robo.js'
 import { logger } from './logger.js'
 import { env } from './env.js'
@@ -25,8 +27,9 @@ import { isMainThread, parentPort } from 'node:worker_threads'
 import { STATE_KEYS, discordLogger } from './constants.js'
 import path from 'node:path'
 import { color } from './color.js'
+import { Shards } from './shard.js'
 import type { CommandConfig, Event, HandlerRecord } from '../types/index.js'
-import type { APIEmbed, APIEmbedField, BaseMessageOptions, MessageComponentInteraction } from 'discord.js'
+import type { APIEmbed, APIEmbedField, BaseMessageOptions } from 'discord.js'
 
 const DEBUG_ID_PREFIX = 'robo_debug_'
 
@@ -87,21 +90,7 @@ export const devRestartCommandConfig: CommandConfig = {
 	}
 }
 
-export const devStatusCommand = () => {
-	let totalSeconds = client.uptime / 1000
-	const days = Math.floor(totalSeconds / 86400)
-	const hours = Math.floor(totalSeconds / 3600)
-	totalSeconds %= 3600
-	const minutes = Math.floor(totalSeconds / 60)
-	const seconds = Math.floor(totalSeconds % 60)
-
-	let uptime = ''
-	if (days > 0) uptime += `${days} days, `
-	if (hours > 0) uptime += `${hours} hours, `
-	if (minutes > 0) uptime += `${minutes} minutes, `
-	if (seconds > 0) uptime += `${seconds} seconds`
-	uptime = uptime.replace(/, $/, '')
-
+export const devStatusCommand = async () => {
 	const cpuUsage = process.cpuUsage()
 	const cpuUsagePercent = ((cpuUsage.user + cpuUsage.system) / 1000000).toFixed(2)
 
@@ -109,27 +98,51 @@ export const devStatusCommand = () => {
 	const totalMemory = os.totalmem() / (1024 * 1024 * 1024)
 	const freeMemory = os.freemem() / (1024 * 1024 * 1024)
 
+	const fields: APIEmbedField[] = [
+		{ name: 'Uptime', value: formatUptime(client.uptime), inline: true },
+		{ name: 'Ping', value: `${client.ws.ping}ms`, inline: true },
+		{ name: '\u200B', value: '\u200B', inline: true },
+		{ name: 'CPU Usage', value: `${cpuUsagePercent}%`, inline: true },
+		{ name: 'RAM Usage', value: `${memoryUsage.toFixed(2)} MB`, inline: true },
+		{ name: '\u200B', value: '\u200B', inline: true },
+		{ name: 'Total RAM', value: `${totalMemory.toFixed(2)} GB`, inline: true },
+		{ name: 'Available RAM', value: `${freeMemory.toFixed(2)} GB`, inline: true },
+		{ name: '\u200B', value: '\u200B', inline: true },
+		{
+			name: 'Operating System',
+			value: `${os.platform()} ${os.version()} ${os.arch()} (${os.release()})`,
+			inline: false
+		}
+	]
+
+	// Stats above only cover this shard, so add a breakdown of every shard
+	if (Shards.isSharded()) {
+		try {
+			const stats = await Shards.stats()
+			const guilds = stats.reduce((total, shard) => total + shard.guilds, 0)
+			const lines = stats.map((shard) => {
+				const memory = (shard.memory / (1024 * 1024)).toFixed(2)
+				const uptime = formatUptime(shard.uptime)
+				return `**#${shard.id}** ${shard.ping}ms · ${shard.guilds} guilds · ${memory} MB · ${uptime}`
+			})
+
+			fields.push({
+				name: `Shards (${stats.length}, ${guilds} guilds)`,
+				value: lines.join('\n').slice(0, 1024),
+				inline: false
+			})
+		} catch (error) {
+			discordLogger.debug('Could not collect shard stats:', error)
+			fields.push({ name: 'Shards', value: `Shard ${Shards.ids().join(', ')} of ${Shards.count()}`, inline: false })
+		}
+	}
+
 	return {
 		embeds: [
 			{
 				title: 'Bot Status',
 				color: Colors.Blurple,
-				fields: [
-					{ name: 'Uptime', value: uptime, inline: true },
-					{ name: 'Ping', value: `${client.ws.ping}ms`, inline: true },
-					{ name: '\u200B', value: '\u200B', inline: true },
-					{ name: 'CPU Usage', value: `${cpuUsagePercent}%`, inline: true },
-					{ name: 'RAM Usage', value: `${memoryUsage.toFixed(2)} MB`, inline: true },
-					{ name: '\u200B', value: '\u200B', inline: true },
-					{ name: 'Total RAM', value: `${totalMemory.toFixed(2)} GB`, inline: true },
-					{ name: 'Available RAM', value: `${freeMemory.toFixed(2)} GB`, inline: true },
-					{ name: '\u200B', value: '\u200B', inline: true },
-					{
-						name: 'Operating System',
-						value: `${os.platform()} ${os.version()} ${os.arch()} (${os.release()})`,
-						inline: false
-					}
-				]
+				fields
 			}
 		]
 	}
@@ -153,11 +166,12 @@ export async function printErrorResponse(
 		return
 	}
 
-	// Return if interaction is not a Discord command interaction or a message directed at the bot
+	// Return if interaction is not a Discord command, component or modal interaction, or a message directed at the bot
 	if (
 		!(interaction instanceof CommandInteraction) &&
 		!(interaction instanceof Message) &&
-		!(interaction instanceof ButtonInteraction)
+		!(interaction instanceof MessageComponentInteraction) &&
+		!(interaction instanceof ModalSubmitInteraction)
 	) {
 		return
 	}
@@ -175,7 +189,7 @@ export async function printErrorResponse(
 
 			await channel.send(message)
 			if (errorMessage) {
-				await sendReply({ content: errorMessage }, interaction)
+				await sendReply({ content: localize(errorMessage, interaction) }, interaction)
 			} else {
 				discordLogger.warn(
 					`Set ${color.bold('errorMessage')} in your Sage config to send a default error reply to the user`
@@ -192,7 +206,11 @@ export async function printErrorResponse(
 
 // Send response as follow-up if the command has already been replied to
 async function sendReply(message: BaseMessageOptions, interaction: unknown) {
-	if (interaction instanceof CommandInteraction || interaction instanceof ButtonInteraction) {
+	if (
+		interaction instanceof CommandInteraction ||
+		interaction instanceof MessageComponentInteraction ||
+		interaction instanceof ModalSubmitInteraction
+	) {
 		if (interaction.replied || interaction.deferred) {
 			return interaction.followUp(message)
 		} else {
@@ -322,6 +340,24 @@ interface FormatErrorResult {
 	stack?: string
 }
 
+function formatUptime(milliseconds: number | null) {
+	let totalSeconds = (milliseconds ?? 0) / 1000
+	const days = Math.floor(totalSeconds / 86400)
+	totalSeconds %= 86400
+	const hours = Math.floor(totalSeconds / 3600)
+	totalSeconds %= 3600
+	const minutes = Math.floor(totalSeconds / 60)
+	const seconds = Math.floor(totalSeconds % 60)
+
+	let uptime = ''
+	if (days > 0) uptime += `${days} days, `
+	if (hours > 0) uptime += `${hours} hours, `
+	if (minutes > 0) uptime += `${minutes} minutes, `
+	if (seconds > 0) uptime += `${seconds} seconds`
+
+	return uptime.replace(/, $/, '')
+}
+
 async function formatError(options: FormatErrorOptions): Promise<FormatErrorResult> {
 	const { details, error, event, interaction } = options
 	const { errorChannelId } = getSage()
@@ -381,6 +417,12 @@ async function formatError(options: FormatErrorOptions): Promise<FormatErrorResu
 			value: '`/' + commandKeys.filter(Boolean).join(' ') + '`'
 		})
 	}
+	if (interaction instanceof MessageComponentInteraction || interaction instanceof ModalSubmitInteraction) {
+		fields.push({
+			name: interaction instanceof ModalSubmitInteraction ? 'Modal' : 'Component',
+			value: '`' + interaction.customId + '`'
+		})
+	}
 	if (details) {
 		fields.push({
 			name: 'Details',
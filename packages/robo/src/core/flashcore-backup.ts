@@ -0,0 +1,225 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import readline from 'node:readline'
+import { createReadStream } from 'node:fs'
+import { color } from './color.js'
+import { flashcoreLogger } from './constants.js'
+import { Flashcore, getExpiresAt } from './flashcore.js'
+import { Globals } from './globals.js'
+import { hasProperties } from '../cli/utils/utils.js'
+import type { FlashcoreBackupOptions } from '../types/index.js'
+
+const DEFAULT_BACKUP_DIR = path.join(process.cwd(), '.robo', 'backups')
+
+const DEFAULT_BACKUP_KEEP = 7
+
+const EXPORT_VERSION = 1
+
+export type FlashcoreExportFormat = 'json' | 'ndjson'
+
+/**
+ * A single exported value. Keys without a namespace are stored exactly as the adapter sees them.
+ */
+export interface FlashcoreExportEntry {
+	/** When the value expires as a timestamp in milliseconds. Left out for values that never expire. */
+	expiresAt?: number
+	key: string
+	namespace?: string
+	value: unknown
+}
+
+interface FlashcoreExportFile {
+	createdAt: string
+	entries: FlashcoreExportEntry[]
+	version: number
+}
+
+interface ExportOptions {
+	format?: FlashcoreExportFormat
+	namespaces?: string[]
+}
+
+interface ImportOptions {
+	clear?: boolean
+	format?: FlashcoreExportFormat
+}
+
+/**
+ * Collects every entry in Flashcore, or just the selected namespaces.
+ * Requires an adapter that supports key enumeration.
+ */
+async function collectEntries(namespaces?: string[]): Promise<FlashcoreExportEntry[]> {
+	// A backup missing values would only be noticed once it's restored, so refuse to write one
+	const unlisted = (await Globals.getFlashcoreAdapter().countUnlisted?.()) ?? 0
+	if (unlisted) {
+		throw new Error(
+			`Flashcore has ${unlisted} values from an older version that can't be listed for export. ` +
+				`Read them by key with Flashcore.get() to upgrade them, then export again.`
+		)
+	}
+
+	const entries = await Promise.all(
+		(namespaces?.length ? namespaces : [undefined]).map(async (namespace) => {
+			const values = await Flashcore.list<unknown>({ namespace })
+
+			return Promise.all(
+				Object.entries(values).map(async ([key, value]) => {
+					const entry: FlashcoreExportEntry = { key, namespace, value }
+					const expiresAt = await getExpiresAt(key, { namespace })
+
+					if (expiresAt !== undefined) {
+						entry.expiresAt = expiresAt
+					}
+
+					return entry
+				})
+			)
+		})
+	)
+
+	return entries.flat()
+}
+
+/**
+ * Writes Flashcore entries to a portable JSON or NDJSON file.
+ *
+ * @returns The number of entries exported.
+ */
+export async function exportFlashcore(file: string, options?: ExportOptions): Promise<number> {
+	const format = options?.format ?? getFormat(file)
+	const entries = await collectEntries(options?.namespaces)
+	let contents: string
+
+	if (format === 'ndjson') {
+		contents = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n'
+	} else {
+		const data: FlashcoreExportFile = { createdAt: new Date().toISOString(), entries, version: EXPORT_VERSION }
+		contents = JSON.stringify(data, null, '\t')
+	}
+
+	await fs.mkdir(path.dirname(file), { recursive: true })
+	await fs.writeFile(file, contents, 'utf-8')
+	flashcoreLogger.debug(`Exported ${entries.length} entries to ${color.bold(file)}`)
+
+	return entries.length
+}
+
+/**
+ * Restores entries from a file created by `exportFlashcore`, keeping their remaining TTLs.
+ * Existing keys are overwritten; other keys are left alone unless `clear` is set.
+ * Entries that expired since the export are skipped.
+ *
+ * @returns The number of entries imported.
+ */
+export async function importFlashcore(file: string, options?: ImportOptions): Promise<number> {
+	const format = options?.format ?? getFormat(file)
+	const entries = format === 'ndjson' ? await readNdjson(file) : await readJson(file)
+
+	if (options?.clear) {
+		flashcoreLogger.debug('Clearing Flashcore before import...')
+		await Flashcore.clear()
+	}
+
+	let imported = 0
+	for (const entry of entries) {
+		const ttl = entry.expiresAt !== undefined ? entry.expiresAt - Date.now() : undefined
+
+		if (ttl !== undefined && ttl <= 0) {
+			continue
+		}
+
+		await Flashcore.set(entry.key, entry.value, { namespace: entry.namespace, ttl })
+		imported++
+	}
+	flashcoreLogger.debug(`Imported ${imported} entries from ${color.bold(file)}`)
+
+	return imported
+}
+
+/**
+ * Writes a timestamped NDJSON backup and deletes the oldest ones beyond the configured limit.
+ *
+ * @returns The path of the new backup.
+ */
+export async function createBackup(options?: FlashcoreBackupOptions): Promise<string> {
+	const directory = options?.directory ? path.resolve(options.directory) : DEFAULT_BACKUP_DIR
+	const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+	const file = path.join(directory, `flashcore-${timestamp}.ndjson`)
+
+	await exportFlashcore(file, { format: 'ndjson' })
+
+	// Timestamps sort chronologically, so the oldest backups come first
+	const backups = (await fs.readdir(directory))
+		.filter((name) => name.startsWith('flashcore-') && name.endsWith('.ndjson'))
+		.sort()
+	const expired = backups.slice(0, Math.max(0, backups.length - (options?.keep ?? DEFAULT_BACKUP_KEEP)))
+
+	await Promise.all(expired.map((name) => fs.rm(path.join(directory, name), { force: true })))
+	flashcoreLogger.debug(`Created backup ${color.bold(file)} and removed ${expired.length} old backup(s)`)
+
+	return file
+}
+
+/**
+ * Starts creating backups on an interval. The timer never keeps the process alive by itself.
+ *
+ * @returns A function that stops the schedule.
+ */
+export function scheduleBackups(options: FlashcoreBackupOptions): () => void {
+	if (!options.interval || options.interval <= 0) {
+		flashcoreLogger.warn(`Flashcore backups need a positive ${color.bold('interval')}. Skipping...`)
+		return () => null
+	}
+
+	const timer = setInterval(async () => {
+		try {
+			await createBackup(options)
+		} catch (error) {
+			flashcoreLogger.error('Failed to create Flashcore backup:', error)
+		}
+	}, options.interval)
+	timer.unref()
+	flashcoreLogger.debug(`Scheduled Flashcore backups every ${options.interval}ms`)
+
+	return () => clearInterval(timer)
+}
+
+function getFormat(file: string): FlashcoreExportFormat {
+	return ['.jsonl', '.ndjson'].includes(path.extname(file).toLowerCase()) ? 'ndjson' : 'json'
+}
+
+async function readJson(file: string): Promise<FlashcoreExportEntry[]> {
+	const data: unknown = JSON.parse(await fs.readFile(file, 'utf-8'))
+
+	if (!hasProperties<{ entries: unknown }>(data, ['entries']) || !Array.isArray(data.entries)) {
+		throw new Error(`${file} is not a Flashcore export`)
+	}
+
+	return data.entries.map((entry, index) => validateEntry(entry, `${file} entry ${index}`))
+}
+
+async function readNdjson(file: string): Promise<FlashcoreExportEntry[]> {
+	const entries: FlashcoreExportEntry[] = []
+	const lines = readline.createInterface({ crlfDelay: Infinity, input: createReadStream(file) })
+	let lineNumber = 0
+
+	for await (const line of lines) {
+		lineNumber++
+		if (line.trim()) {
+			entries.push(validateEntry(JSON.parse(line), `${file}:${lineNumber}`))
+		}
+	}
+
+	return entries
+}
+
+function validateEntry(entry: unknown, location: string): FlashcoreExportEntry {
+	if (!hasProperties<{ key: unknown; value: unknown }>(entry, ['key', 'value']) || typeof entry.key !== 'string') {
+		throw new Error(`Invalid Flashcore entry at ${location}`)
+	}
+	if (hasProperties<{ expiresAt: unknown }>(entry, ['expiresAt']) && typeof entry.expiresAt !== 'number') {
+		throw new Error(`Invalid Flashcore entry at ${location}: expiresAt must be a number`)
+	}
+
+	return entry as FlashcoreExportEntry
+}
@@ -5,16 +5,42 @@ import zlib from 'node:zlib'
 import { createReadStream, createWriteStream } from 'node:fs'
 import { logger } from './logger.js'
 import { hasProperties } from '../cli/utils/utils.js'
-import { createHash } from 'node:crypto'
+import { createHash, randomBytes } from 'node:crypto'
 import type { FlashcoreAdapter } from '../types/index.js'
 
+// Files read at once while building the index
+const INDEX_CONCURRENCY = 32
+
 interface FlashcoreFileAdapterOptions {
 	dataDir?: string
 }
 
+/**
+ * Values are stored alongside their key so they can be enumerated despite hashed file names.
+ * Files written by older versions contain the raw value instead. They can't be enumerated until read by key,
+ * which rewrites them in this format.
+ */
+interface FileEnvelope<K, V> {
+	__flashcore: 1
+	expiresAt?: number
+	key: K
+	value: V
+}
+
+interface IndexEntry<K> {
+	expiresAt?: number
+	key: K
+}
+
 export class FlashcoreFileAdapter<K = string, V = unknown> implements FlashcoreAdapter<K, V> {
 	public readonly dataDir: string
 
+	// Maps file names to their keys, built the first time keys are enumerated
+	private _index: Map<string, IndexEntry<K>> | null = null
+
+	// Files written by older versions, which have no key to index them by
+	private _legacyFiles = new Set<string>()
+
 	constructor(options: FlashcoreFileAdapterOptions = {}) {
 		this.dataDir = options.dataDir ?? path.join(process.cwd(), '.robo', 'data')
 	}
@@ -23,6 +49,8 @@ export class FlashcoreFileAdapter<K = string, V = unknown> implements FlashcoreA
 		try {
 			await fs.rm(this.dataDir, { recursive: true, force: true })
 			await fs.mkdir(this.dataDir, { recursive: true })
+			this._index = this._index ? new Map() : null
+			this._legacyFiles.clear()
 			return true
 		} catch {
 			return false
@@ -31,8 +59,10 @@ export class FlashcoreFileAdapter<K = string, V = unknown> implements FlashcoreA
 
 	public async delete(key: K): Promise<boolean> {
 		try {
-			const fileName = path.join(this.dataDir, _getSafeKey(key))
-			await fs.unlink(fileName)
+			const safeKey = _getSafeKey(key)
+			this._index?.delete(safeKey)
+			this._legacyFiles.delete(safeKey)
+			await fs.unlink(path.join(this.dataDir, safeKey))
 			return true
 		} catch (e) {
 			// Warn about failures except ENOENT because that just means the key doesn't exist (normal)
@@ -44,16 +74,54 @@ export class FlashcoreFileAdapter<K = string, V = unknown> implements FlashcoreA
 		}
 	}
 
+	public async countUnlisted(): Promise<number> {
+		await this._loadIndex()
+		return this._legacyFiles.size
+	}
+
+	public async deleteNamespace(namespace: string): Promise<boolean> {
+		const keys = await this.keys(namespace)
+		await Promise.all(keys.map((key) => this.delete(key)))
+
+		return keys.length > 0
+	}
+
+	public async entries(namespace?: string): Promise<Array<[K, V]>> {
+		const keys = await this.keys(namespace)
+		const entries = await Promise.all(keys.map(async (key): Promise<[K, V]> => [key, await this.get(key)]))
+
+		// Values may have expired in the meantime
+		return entries.filter(([, value]) => value !== undefined)
+	}
+
 	public async get(key: K): Promise<V | undefined> {
+		const fileName = path.join(this.dataDir, _getSafeKey(key))
+		let data: FileEnvelope<K, V> | V | undefined
+
 		try {
-			const fileName = path.join(this.dataDir, _getSafeKey(key))
-			const gunzip = zlib.createGunzip()
-			await pipeline(createReadStream(fileName), gunzip)
-			const decompressed = gunzip.read()
-			return decompressed ? (JSON.parse(decompressed.toString()) as V) : undefined
-		} catch {
+			data = await _readFile<K, V>(fileName)
+		} catch (e) {
+			logger.warn(`Failed to read key "${key}" from Flashcore file adapter.`, e)
+			return undefined
+		}
+
+		if (data === undefined) {
+			return undefined
+		} else if (!_isEnvelope(data)) {
+			// Now that the key is known, rewrite older files so they can be enumerated
+			await this.set(key, data as V)
+			return data as V
+		} else if (data.expiresAt && data.expiresAt <= Date.now()) {
+			await this.delete(key)
 			return undefined
 		}
+
+		return data.value
+	}
+
+	public async getExpiresAt(key: K): Promise<number | undefined> {
+		const data = await _readFile<K, V>(path.join(this.dataDir, _getSafeKey(key)))
+		return _isEnvelope(data) ? data.expiresAt : undefined
 	}
 
 	public async has(key: K): Promise<boolean> {
@@ -68,20 +136,128 @@ export class FlashcoreFileAdapter<K = string, V = unknown> implements FlashcoreA
 		}
 	}
 
-	public async set(key: K, value: V): Promise<boolean> {
+	public async keys(prefix?: string): Promise<K[]> {
+		const index = await this._loadIndex()
+		const now = Date.now()
+		const keys: K[] = []
+
+		index.forEach(({ expiresAt, key }) => {
+			if ((!expiresAt || expiresAt > now) && (!prefix || String(key).startsWith(prefix))) {
+				keys.push(key)
+			}
+		})
+
+		return keys
+	}
+
+	public async set(key: K, value: V, ttl?: number): Promise<boolean> {
+		const safeKey = _getSafeKey(key)
+		const fileName = path.join(this.dataDir, safeKey)
+		// Unique per write, since concurrent writes of the same key would otherwise share the file
+		const tempFileName = `${fileName}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`
+		const envelope: FileEnvelope<K, V> = { __flashcore: 1, key, value }
+
+		if (ttl) {
+			envelope.expiresAt = Date.now() + ttl
+		}
+
 		try {
-			const fileName = path.join(this.dataDir, _getSafeKey(key))
 			const gzip = zlib.createGzip()
-			gzip.write(JSON.stringify(value))
+			gzip.write(JSON.stringify(envelope))
 			gzip.end()
-			await pipeline(gzip, createWriteStream(fileName))
+
+			// Write to a temporary file first so readers never see a partially written value
+			await pipeline(gzip, createWriteStream(tempFileName))
+			await fs.rename(tempFileName, fileName)
+			this._index?.set(safeKey, { expiresAt: envelope.expiresAt, key })
+			this._legacyFiles.delete(safeKey)
 			return true
 		} catch {
+			await fs.rm(tempFileName, { force: true })
 			return false
 		}
 	}
+
+	private async _loadIndex(): Promise<Map<string, IndexEntry<K>>> {
+		if (this._index) {
+			return this._index
+		}
+
+		const index = new Map<string, IndexEntry<K>>()
+		const legacyFiles = new Set<string>()
+		const files = (await fs.readdir(this.dataDir).catch((): string[] => [])).filter((file) => !file.endsWith('.tmp'))
+		let failed = 0
+
+		// Read in small batches so large stores don't run out of file descriptors
+		for (let i = 0; i < files.length; i += INDEX_CONCURRENCY) {
+			await Promise.all(
+				files.slice(i, i + INDEX_CONCURRENCY).map(async (file) => {
+					try {
+						const data = await _readFile<K, V>(path.join(this.dataDir, file))
+
+						if (_isEnvelope(data)) {
+							index.set(file, { expiresAt: data.expiresAt, key: data.key })
+						} else if (data !== undefined) {
+							legacyFiles.add(file)
+						}
+					} catch (e) {
+						if (_isTransientError(e)) {
+							failed++
+						}
+						logger.warn(`Failed to index Flashcore file "${file}":`, e)
+					}
+				})
+			)
+		}
+
+		if (legacyFiles.size) {
+			logger.warn(
+				`Flashcore has ${legacyFiles.size} values from an older version that can't be listed until they're read by key.`
+			)
+		}
+		this._legacyFiles = legacyFiles
+
+		// Try again next time rather than leaving keys out for good
+		if (failed) {
+			logger.warn(`Failed to read ${failed} Flashcore files, so keys may be missing until the next lookup.`)
+			return index
+		}
+
+		// Another call may have finished first, so keep whichever index is already in use
+		this._index = this._index ?? index
+		return this._index
+	}
 }
 
 function _getSafeKey<K>(key: K): string {
 	return createHash('sha256').update(key.toString()).digest('hex')
 }
+
+function _isEnvelope<K, V>(data: unknown): data is FileEnvelope<K, V> {
+	return hasProperties<{ __flashcore: unknown; key: unknown }>(data, ['__flashcore', 'key']) && data.__flashcore === 1
+}
+
+/**
+ * File system errors such as `EMFILE` may succeed on retry, unlike corrupt data.
+ */
+function _isTransientError(e: unknown) {
+	return hasProperties<{ code: unknown }>(e, ['code']) && typeof e.code === 'string' && !e.code.startsWith('Z_')
+}
+
+/**
+ * Reads and decompresses a file. Missing files resolve to `undefined`, while other errors are thrown.
+ */
+async function _readFile<K, V>(fileName: string): Promise<FileEnvelope<K, V> | V | undefined> {
+	try {
+		const gunzip = zlib.createGunzip()
+		await pipeline(createReadStream(fileName), gunzip)
+		const decompressed = gunzip.read()
+		return decompressed ? JSON.parse(decompressed.toString()) : undefined
+	} catch (e) {
+		if (hasProperties<{ code: unknown }>(e, ['code']) && e.code === 'ENOENT') {
+			return undefined
+		}
+
+		throw e
+	}
+}
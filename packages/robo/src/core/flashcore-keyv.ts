@@ -0,0 +1,74 @@
+import type { FlashcoreAdapter } from '../types/index.js'
+import type Keyv from 'keyv'
+
+/**
+ * Bridges a Keyv instance to the Flashcore adapter interface.
+ * Key enumeration is only available when the underlying Keyv store supports iteration.
+ */
+export class FlashcoreKeyvAdapter<V = unknown> implements FlashcoreAdapter<string, V> {
+	public readonly keyv: Keyv<V>
+
+	constructor(keyv: Keyv<V>) {
+		this.keyv = keyv
+	}
+
+	public async clear(): Promise<void> {
+		await this.keyv.clear()
+	}
+
+	public delete(key: string): Promise<boolean> {
+		return this.keyv.delete(key)
+	}
+
+	public async deleteNamespace(namespace: string): Promise<boolean> {
+		const keys = await this.keys(namespace)
+		await Promise.all(keys.map((key) => this.keyv.delete(key)))
+
+		return keys.length > 0
+	}
+
+	public async entries(namespace?: string): Promise<Array<[string, V]>> {
+		const entries: Array<[string, V]> = []
+
+		for await (const [key, value] of this._iterate()) {
+			if (!namespace || key.startsWith(namespace)) {
+				entries.push([key, value])
+			}
+		}
+
+		return entries
+	}
+
+	public get(key: string): Promise<V | undefined> {
+		return this.keyv.get(key)
+	}
+
+	public async getExpiresAt(key: string): Promise<number | undefined> {
+		const data = await this.keyv.get(key, { raw: true })
+		return data?.expires ?? undefined
+	}
+
+	public has(key: string): Promise<boolean> {
+		return this.keyv.has(key)
+	}
+
+	public init() {
+		// Keyv connects lazily
+	}
+
+	public async keys(prefix?: string): Promise<string[]> {
+		return (await this.entries(prefix)).map(([key]) => key)
+	}
+
+	public set(key: string, value: V, ttl?: number): Promise<boolean> {
+		return this.keyv.set(key, value, ttl)
+	}
+
+	private _iterate(): AsyncGenerator<[string, V]> {
+		if (typeof this.keyv.iterator !== 'function') {
+			throw new Error('The configured Keyv store does not support iterating over keys')
+		}
+
+		return this.keyv.iterator()
+	}
+}
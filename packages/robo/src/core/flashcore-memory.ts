@@ -0,0 +1,69 @@
+import type { FlashcoreAdapter } from '../types/index.js'
+
+interface MemoryEntry<V> {
+	expiresAt?: number
+	value: V
+}
+
+/**
+ * Keeps Flashcore data in memory only. Useful for tests and short-lived scripts where nothing should touch disk.
+ * Values are cloned on the way in and out, so callers can't mutate stored data by accident.
+ */
+export class FlashcoreMemoryAdapter<V = unknown> implements FlashcoreAdapter<string, V> {
+	private readonly _data = new Map<string, MemoryEntry<V>>()
+
+	public clear() {
+		this._data.clear()
+		return true
+	}
+
+	public delete(key: string) {
+		return this._data.delete(key)
+	}
+
+	public deleteNamespace(namespace: string) {
+		const keys = this.keys(namespace)
+		keys.forEach((key) => this._data.delete(key))
+
+		return keys.length > 0
+	}
+
+	public entries(namespace?: string): Array<[string, V]> {
+		return this.keys(namespace).map((key) => [key, this.get(key)])
+	}
+
+	public get(key: string): V | undefined {
+		const entry = this._data.get(key)
+		if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+			this._data.delete(key)
+			return undefined
+		}
+
+		return entry ? structuredClone(entry.value) : undefined
+	}
+
+	public getExpiresAt(key: string) {
+		return this._data.get(key)?.expiresAt
+	}
+
+	public has(key: string) {
+		return this.get(key) !== undefined
+	}
+
+	public init() {
+		// Nothing to prepare
+	}
+
+	public keys(prefix?: string): string[] {
+		const now = Date.now()
+
+		return [...this._data.entries()]
+			.filter(([key, entry]) => (!entry.expiresAt || entry.expiresAt > now) && (!prefix || key.startsWith(prefix)))
+			.map(([key]) => key)
+	}
+
+	public set(key: string, value: V, ttl?: number) {
+		this._data.set(key, { expiresAt: ttl ? Date.now() + ttl : undefined, value: structuredClone(value) })
+		return true
+	}
+}
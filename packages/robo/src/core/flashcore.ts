@@ -1,6 +1,8 @@
 import { FlashcoreFileAdapter } from './flashcore-fs.js'
+import { FlashcoreKeyvAdapter } from './flashcore-keyv.js'
 import { Globals } from './globals.js'
 import { logger } from './logger.js'
+import { AsyncLocalStorage } from 'node:async_hooks'
 import type { FlashcoreAdapter } from '../types/index.js'
 import type KeyvType from 'keyv'
 
@@ -13,16 +15,33 @@ let _namespaceSeparator = '/'
 // Watchers for listening to changes in the store.
 const _watchers = new Map<string, Set<WatcherCallback>>()
 
+// Pending operations per key, used to serialize atomic operations.
+const _locks = new Map<string, Promise<void>>()
+
+// Keys locked by the transaction or update running in the current async context
+const _heldLocks = new AsyncLocalStorage<Set<string>>()
+
 // Type definitions
 interface FlashcoreOptions {
 	namespace?: string | Array<string>
 }
+interface SetFlashcoreOptions extends FlashcoreOptions {
+	/** Time in milliseconds after which the value expires. */
+	ttl?: number
+}
 interface InitFlashcoreOptions {
 	adapter?: FlashcoreAdapter
 	keyvOptions?: unknown
 	namespaceSeparator?: string
 }
 type WatcherCallback<V = unknown> = (oldValue: V, newValue: V) => void | Promise<void>
+type Updater<V> = (oldValue: V) => V | Promise<V>
+
+export interface FlashcoreTransaction {
+	delete: (key: string) => void
+	get: <V>(key: string) => Promise<V>
+	set: <V>(key: string, value: V, options?: { ttl?: number }) => void
+}
 
 /**
  * Built-in KV database for long-term storage.
@@ -42,12 +61,35 @@ type WatcherCallback<V = unknown> = (oldValue: V, newValue: V) => void | Promise
  */
 export const Flashcore = {
 	/**
-	 * Clears all key-value pairs from the store.
+	 * Clears all key-value pairs from the store, or only those in a namespace when one is provided.
 	 *
 	 * @returns {Promise<boolean> | boolean} - Resolves to a boolean indicating whether the operation was successful.
 	 */
-	clear: (): Promise<boolean> | Promise<void> | boolean | void => {
-		return Globals.getFlashcoreAdapter().clear()
+	clear: (options?: FlashcoreOptions): Promise<boolean> | Promise<void> | boolean | void => {
+		if (!options?.namespace) {
+			return Globals.getFlashcoreAdapter().clear()
+		}
+
+		return _clearNamespace(options.namespace)
+	},
+
+	/**
+	 * Atomically sets a key's value only if its current value equals the expected value.
+	 * Values are compared by their JSON representation.
+	 *
+	 * @param {string} key - The key to update.
+	 * @param {unknown} expected - The value the key must currently hold.
+	 * @param {V} value - The value to set.
+	 * @returns {Promise<boolean>} - Resolves to `true` if the value was set.
+	 */
+	compareAndSet: async <V>(key: string, expected: V, value: V, options?: FlashcoreOptions): Promise<boolean> => {
+		let swapped = false
+		await _update<V>(_composeKey(key, options?.namespace), (oldValue) => {
+			swapped = JSON.stringify(oldValue) === JSON.stringify(expected)
+			return swapped ? value : oldValue
+		})
+
+		return swapped
 	},
 
 	/**
@@ -59,6 +101,12 @@ export const Flashcore = {
 	delete: (key: string, options?: FlashcoreOptions): Promise<boolean> | boolean => {
 		key = _composeKey(key, options?.namespace)
 
+		// Wait for pending atomic operations on this key
+		if (_locks.has(key)) {
+			_assertNotHeld([key])
+			return _transaction([key], async (tx) => tx.delete(key)).then(() => true)
+		}
+
 		if (_watchers.has(key)) {
 			const oldValue = Globals.getFlashcoreAdapter().get(key)
 			if (oldValue instanceof Promise) {
@@ -102,6 +150,61 @@ export const Flashcore = {
 		return Globals.getFlashcoreAdapter().has(key)
 	},
 
+	/**
+	 * Atomically increments a numeric value. Missing or non-numeric values start at 0.
+	 *
+	 * @param {string} key - The key to increment.
+	 * @param {number} amount - The amount to add. Defaults to 1.
+	 * @returns {Promise<number>} - Resolves to the new value.
+	 */
+	increment: (key: string, amount = 1, options?: FlashcoreOptions): Promise<number> => {
+		return _update<number>(_composeKey(key, options?.namespace), (oldValue) => (Number(oldValue) || 0) + amount)
+	},
+
+	/**
+	 * Lists keys in the store, optionally filtered by namespace and prefix.
+	 * Keys are returned without their namespace.
+	 *
+	 * Requires an adapter that supports key enumeration, such as the built-in file adapter.
+	 *
+	 * @returns {Promise<string[]>} - Resolves to the matching keys.
+	 */
+	keys: async (options?: FlashcoreOptions & { prefix?: string }): Promise<string[]> => {
+		const adapter = _getAdapter()
+		if (typeof adapter.keys !== 'function') {
+			throw new Error('The configured Flashcore adapter does not support listing keys')
+		}
+
+		const namespacePrefix = options?.namespace ? _composeKey('', options.namespace) : ''
+		const keys = await adapter.keys(namespacePrefix + (options?.prefix ?? ''))
+
+		return keys.map((key) => key.slice(namespacePrefix.length))
+	},
+
+	/**
+	 * Lists key-value pairs in the store, optionally filtered by namespace.
+	 * Keys are returned without their namespace.
+	 *
+	 * @template V - The type of the values.
+	 * @returns {Promise<Record<string, V>>} - Resolves to an object of keys and their values.
+	 */
+	list: async <V>(options?: FlashcoreOptions): Promise<Record<string, V>> => {
+		const adapter = _getAdapter() as FlashcoreAdapter<string, V>
+		const namespacePrefix = options?.namespace ? _composeKey('', options.namespace) : ''
+		let entries: Array<[string, V]>
+
+		if (typeof adapter.entries === 'function') {
+			entries = await adapter.entries(namespacePrefix || undefined)
+		} else {
+			const keys = await Flashcore.keys(options)
+			entries = await Promise.all(
+				keys.map(async (key): Promise<[string, V]> => [namespacePrefix + key, await adapter.get(namespacePrefix + key)])
+			)
+		}
+
+		return Object.fromEntries(entries.map(([key, value]) => [key.slice(namespacePrefix.length), value]))
+	},
+
 	/**
 	 * Unregisters a callback from a key, so it will no longer be executed when the key's value changes.
 	 *
@@ -141,51 +244,92 @@ export const Flashcore = {
 		_watchers.get(key)?.add(callback)
 	},
 
+	/**
+	 * Atomically appends an item to an array value. Missing or non-array values start as an empty array.
+	 *
+	 * @param {string} key - The key holding the array.
+	 * @param {V} item - The item to append.
+	 * @returns {Promise<V[]>} - Resolves to the new array.
+	 */
+	push: <V>(key: string, item: V, options?: FlashcoreOptions): Promise<V[]> => {
+		return _update<V[]>(_composeKey(key, options?.namespace), (oldValue) => [
+			...(Array.isArray(oldValue) ? oldValue : []),
+			item
+		])
+	},
+
 	/**
 	 * Sets a key-value pair in the store.
 	 *
 	 * @template V - The type of the value.
 	 * @param {string} key - The key to associate with the value.
 	 * @param {V} value - The value to set.
+	 * @param options - Options such as `ttl` in milliseconds to expire the value.
 	 * @returns {Promise<boolean> | boolean} - Resolves to a boolean indicating whether the operation was successful.
 	 */
-	set: <V>(key: string, value: V, options?: FlashcoreOptions): Promise<boolean> | boolean => {
+	set: <V>(key: string, value: V, options?: SetFlashcoreOptions): Promise<boolean> | boolean => {
 		key = _composeKey(key, options?.namespace)
 
-		if (_watchers.has(key) || typeof value === 'function') {
-			// Fetch the old value only when necessary for minimal overhead
-			const oldValue: unknown = Globals.getFlashcoreAdapter().get(key)
-
-			const setValue = async (resolvedOldValue: V) => {
-				let newValue = value
-
-				// If value is an updater function, use it to compute the new value based on the old value
-				if (typeof value === 'function') {
-					newValue = (value as (oldValue: V) => V)(resolvedOldValue as V)
-				}
-
-				// Run the watcher callbacks if any are set for this key
-				if (_watchers.has(key)) {
-					_watchers.get(key).forEach((callback) => callback(resolvedOldValue, newValue))
-				}
+		// Updater functions and watched keys need the old value, so read and write atomically
+		if (_watchers.has(key) || _locks.has(key) || typeof value === 'function') {
+			_assertNotHeld([key])
+			const updater = typeof value === 'function' ? (value as Updater<V>) : () => value
+			return _update(key, updater, options?.ttl)
+				.then(() => true)
+				.catch((error) => {
+					logger.error(`Failed to set Flashcore key "${key}":`, error)
+					return false
+				})
+		}
 
-				// Set the new value in the adapter
-				return Globals.getFlashcoreAdapter().set(key, newValue)
-			}
+		return _getAdapter().set(key, value, options?.ttl)
+	},
 
-			// If the old value is a promise, wait for it to resolve before proceeding
-			if (oldValue instanceof Promise) {
-				// Return as promise to avoid race condition fetching the old value.
-				// I believe this is ideal, as promise-based values are likely to be used with async/await.
-				return oldValue
-					.then(async (resolvedOldValue) => await setValue(resolvedOldValue))
-					.catch(() => Globals.getFlashcoreAdapter().set(key, value)) // Fallback to set the value directly in case of an error
-			} else {
-				return setValue(oldValue as V)
-			}
-		}
+	/**
+	 * Runs a callback with exclusive access to a set of keys.
+	 * Writes are buffered and only committed if the callback resolves, and watchers fire once per committed change.
+	 *
+	 * ```ts
+	 * await Flashcore.transaction(['from', 'to'], async (tx) => {
+	 * 	const from = await tx.get<number>('from')
+	 * 	tx.set('from', from - 10)
+	 * 	tx.set('to', (await tx.get<number>('to')) + 10)
+	 * })
+	 * ```
+	 *
+	 * Use the transaction handle for the locked keys inside the callback.
+	 * Calling Flashcore on them directly would wait for the transaction itself, so it throws instead.
+	 *
+	 * @param {string[]} keys - Every key the transaction will read or write.
+	 * @param callback - Receives a transaction handle scoped to the locked keys.
+	 * @returns {Promise<T>} - Resolves to the callback's return value once committed.
+	 */
+	transaction: <T>(
+		keys: string[],
+		callback: (tx: FlashcoreTransaction) => T | Promise<T>,
+		options?: FlashcoreOptions
+	): Promise<T> => {
+		const composedKeys = keys.map((key) => _composeKey(key, options?.namespace))
+		return _transaction(composedKeys, (tx) =>
+			callback({
+				delete: (key) => tx.delete(_composeKey(key, options?.namespace)),
+				get: (key) => tx.get(_composeKey(key, options?.namespace)),
+				set: (key, value, setOptions) => tx.set(_composeKey(key, options?.namespace), value, setOptions)
+			})
+		)
+	},
 
-		return Globals.getFlashcoreAdapter().set(key, value)
+	/**
+	 * Atomically updates a key's value based on its current value.
+	 * Concurrent updates to the same key are applied one after another, so no writes are lost.
+	 *
+	 * @template V - The type of the value.
+	 * @param {string} key - The key to update.
+	 * @param updater - Receives the current value and returns the new one.
+	 * @returns {Promise<V>} - Resolves to the new value.
+	 */
+	update: <V>(key: string, updater: Updater<V>, options?: FlashcoreOptions): Promise<V> => {
+		return _update(_composeKey(key, options?.namespace), updater)
 	},
 
 	/**
@@ -224,7 +368,7 @@ export const Flashcore = {
 				keyv.on('error', (error: unknown) => {
 					logger.error(`Keyv error:`, error)
 				})
-				Globals.registerFlashcore(keyv)
+				Globals.registerFlashcore(new FlashcoreKeyvAdapter(keyv as KeyvType))
 			} else {
 				const adapter = options.adapter ?? new FlashcoreFileAdapter()
 				await adapter.init()
@@ -239,6 +383,152 @@ export const Flashcore = {
 	}
 }
 
+/**
+ * Queues a callback behind any pending operations on the given keys.
+ * All locks are acquired synchronously in one go, so overlapping key sets cannot deadlock.
+ */
+async function _withLock<T>(keys: string[], callback: () => Promise<T>): Promise<T> {
+	_assertNotHeld(keys)
+	const uniqueKeys = [...new Set(keys)]
+	const pending = uniqueKeys.map((key) => _locks.get(key))
+	let release: () => void
+	const lock = new Promise<void>((resolve) => (release = resolve))
+	uniqueKeys.forEach((key) => _locks.set(key, lock))
+
+	try {
+		await Promise.all(pending)
+		const held = new Set([...(_heldLocks.getStore() ?? []), ...uniqueKeys])
+		return await _heldLocks.run(held, callback)
+	} finally {
+		uniqueKeys.forEach((key) => {
+			if (_locks.get(key) === lock) {
+				_locks.delete(key)
+			}
+		})
+		release()
+	}
+}
+
+/**
+ * Throws if the current transaction or update already holds one of the keys, which would otherwise deadlock.
+ */
+function _assertNotHeld(keys: string[]) {
+	const held = _heldLocks.getStore()
+	const key = keys.find((key) => held?.has(key))
+
+	if (key) {
+		throw new Error(
+			`Flashcore key "${key}" is locked by the surrounding transaction or update. Use the transaction handle instead.`
+		)
+	}
+}
+
+/**
+ * Runs a transaction over already composed keys.
+ */
+function _transaction<T>(keys: string[], callback: (tx: FlashcoreTransaction) => T | Promise<T>): Promise<T> {
+	return _withLock(keys, async () => {
+		const adapter = _getAdapter()
+		const reads = new Map<string, unknown>()
+		const writes = new Map<string, unknown>()
+		const assertKey = (key: string) => {
+			if (!keys.includes(key)) {
+				throw new Error(`Key "${key}" was not declared in this Flashcore transaction`)
+			}
+		}
+		const ttls = new Map<string, number>()
+		const readOld = async (key: string) => {
+			if (!reads.has(key)) {
+				reads.set(key, await adapter.get(key))
+			}
+			return reads.get(key)
+		}
+
+		const result = await callback({
+			delete: (key) => {
+				assertKey(key)
+				writes.set(key, undefined)
+			},
+			get: async <V>(key: string) => {
+				assertKey(key)
+				return (writes.has(key) ? writes.get(key) : await readOld(key)) as V
+			},
+			set: (key, value, options) => {
+				assertKey(key)
+				writes.set(key, value)
+				ttls.set(key, options?.ttl)
+			}
+		})
+
+		// Commit buffered writes, then notify watchers once per changed key
+		for (const [key, value] of writes) {
+			const oldValue = _watchers.has(key) ? await readOld(key) : undefined
+
+			if (value === undefined) {
+				await adapter.delete(key)
+			} else {
+				await adapter.set(key, value, ttls.get(key))
+			}
+
+			_watchers.get(key)?.forEach((callback) => callback(oldValue, value))
+		}
+
+		return result
+	})
+}
+
+/**
+ * Atomically updates a single composed key, preferring the adapter's native `update` when available.
+ */
+function _update<V>(key: string, updater: Updater<V>, ttl?: number): Promise<V> {
+	const adapter = _getAdapter() as FlashcoreAdapter<string, V>
+
+	if (typeof adapter.update !== 'function' || ttl) {
+		return _transaction([key], async (tx) => {
+			const newValue = await updater(await tx.get<V>(key))
+			tx.set(key, newValue, { ttl })
+			return newValue
+		})
+	}
+
+	return _withLock([key], async () => {
+		let oldValue: V
+		const newValue = await adapter.update(key, async (value) => {
+			oldValue = value
+			return updater(value)
+		})
+		_watchers.get(key)?.forEach((callback) => callback(oldValue, newValue))
+
+		return newValue
+	})
+}
+
+/**
+ * Deletes every key in a namespace, falling back to deleting keys one by one.
+ */
+async function _clearNamespace(namespace: string | Array<string>): Promise<boolean> {
+	const adapter = _getAdapter()
+	if (typeof adapter.deleteNamespace === 'function') {
+		return adapter.deleteNamespace(_composeKey('', namespace))
+	}
+
+	const keys = await Flashcore.keys({ namespace })
+	await Promise.all(keys.map((key) => Flashcore.delete(key, { namespace })))
+
+	return true
+}
+
+/**
+ * Gets when a key expires, if the adapter can tell. Exports use it to keep TTLs.
+ */
+export async function getExpiresAt(key: string, options?: FlashcoreOptions): Promise<number | undefined> {
+	return (await _getAdapter().getExpiresAt?.(_composeKey(key, options?.namespace))) ?? undefined
+}
+
+function _getAdapter() {
+	return Globals.getFlashcoreAdapter() as FlashcoreAdapter
+}
+
 function _composeKey(key: string, namespace?: string | Array<string>) {
 	if (!namespace) {
 		return key
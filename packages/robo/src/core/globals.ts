@@ -1,12 +1,14 @@
 import type {
 	Api,
 	Command,
+	Component,
 	Config,
 	Context,
 	Event,
 	FlashcoreAdapter,
 	HandlerRecord,
-	Middleware
+	Middleware,
+	Modal
 } from '../types/index.js'
 import type { Collection } from 'discord.js'
 import type Keyv from 'keyv'
@@ -36,9 +38,11 @@ export const Globals = {
 		return {
 			apis: globalThis.robo.portal.apis,
 			commands: globalThis.robo.portal.commands,
+			components: globalThis.robo.portal.components,
 			context: globalThis.robo.portal.context,
 			events: globalThis.robo.portal.events,
 			middleware: globalThis.robo.portal.middleware,
+			modals: globalThis.robo.portal.modals,
 			moduleKeys: globalThis.robo.portal.moduleKeys
 		}
 	},
@@ -51,9 +55,11 @@ export const Globals = {
 			portal: {
 				apis: null,
 				commands: null,
+				components: null,
 				context: null,
 				events: null,
 				middleware: [],
+				modals: null,
 				moduleKeys: new Set()
 			}
 		}
@@ -78,7 +84,9 @@ export const Globals = {
 		commands: Collection<string, HandlerRecord<Command>>,
 		context: Collection<string, HandlerRecord<Context>>,
 		events: Collection<string, HandlerRecord<Event>[]>,
-		middleware: HandlerRecord<Middleware>[]
+		middleware: HandlerRecord<Middleware>[],
+		components: Collection<string, HandlerRecord<Component>>,
+		modals: Collection<string, HandlerRecord<Modal>>
 	) => {
 		if (!globalThis.robo) {
 			Globals.init()
@@ -89,6 +97,8 @@ export const Globals = {
 		globalThis.robo.portal.context = context
 		globalThis.robo.portal.events = events
 		globalThis.robo.portal.middleware = middleware
+		globalThis.robo.portal.components = components
+		globalThis.robo.portal.modals = modals
 
 		// Generate module keys based off of entries then sort alphabetically
 		const moduleKeys = new Set<string>()
@@ -119,6 +129,16 @@ export const Globals = {
 				moduleKeys.add(middleware.module)
 			}
 		})
+		components.forEach((component) => {
+			if (component.module) {
+				moduleKeys.add(component.module)
+			}
+		})
+		modals.forEach((modal) => {
+			if (modal.module) {
+				moduleKeys.add(modal.module)
+			}
+		})
 		globalThis.robo.portal.moduleKeys = new Set([...moduleKeys].sort())
 	}
 }
@@ -4,19 +4,27 @@ import { getSage, timeout, withEphemeralDefer, withEphemeralReply } from '../cli
 import { getConfig } from './config.js'
 import { BUFFER, DEFAULT_CONFIG, TIMEOUT, discordLogger } from './constants.js'
 import { printErrorResponse } from './debug.js'
+import { enforceCooldown } from './cooldown.js'
+import { executeMiddleware, executeWithAfterHooks } from './middleware.js'
+import { enforcePermissions } from './permissions.js'
 import { color } from './color.js'
 import path from 'node:path'
 import type {
 	AutocompleteInteraction,
 	ChatInputCommandInteraction,
 	InteractionDeferReplyOptions,
-	Message
+	Message,
+	MessageComponentInteraction,
+	ModalSubmitInteraction,
+	User
 } from 'discord.js'
 import type {
 	CommandConfig,
+	ComponentConfig,
 	ContextConfig,
 	Event,
 	HandlerRecord,
+	Middleware,
 	PluginData,
 	SmartCommandConfig
 } from '../types/index.js'
@@ -35,33 +43,27 @@ export async function executeAutocompleteHandler(interaction: AutocompleteIntera
 	}
 
 	// Execute middleware
+	let afterHooks: HandlerRecord<Middleware>[] | null
 	try {
-		for (const middleware of portal.middleware) {
-			discordLogger.debug(
-				`Executing middleware: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
-			)
-			const result = await middleware.handler.default({
-				payload: [interaction],
-				record: command
-			})
-
-			if (result && result.abort) {
-				discordLogger.debug(`Middleware aborted autocomplete: ${color.bold(interaction.commandName)}`)
-				return
-			}
-		}
+		afterHooks = await executeMiddleware(command, [interaction])
 	} catch (error) {
 		discordLogger.error('Aborting due to middleware error:', error)
 		return
 	}
 
+	if (!afterHooks) {
+		discordLogger.debug(`Middleware aborted autocomplete: ${color.bold(interaction.commandName)}`)
+		return
+	}
+
 	const config = getConfig()
 	try {
 		// Delegate to autocomplete handler
 		discordLogger.debug(
 			`Executing autocomplete handler: ${color.bold(path.join(command.plugin?.path ?? '.', command.path))}`
 		)
-		const promises = [command.handler.autocomplete(interaction)]
+		const data = { payload: [interaction], record: command }
+		const promises = [executeWithAfterHooks(afterHooks, data, () => command.handler.autocomplete(interaction))]
 		const timeoutDuration = config?.timeouts?.autocomplete
 
 		// Enforce timeout only if custom timeout is configured
@@ -97,26 +99,19 @@ export async function executeCommandHandler(interaction: ChatInputCommandInterac
 	}
 
 	// Execute middleware
+	let afterHooks: HandlerRecord<Middleware>[] | null
 	try {
-		for (const middleware of portal.middleware) {
-			discordLogger.debug(
-				`Executing middleware: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
-			)
-			const result = await middleware.handler.default({
-				payload: [interaction],
-				record: command
-			})
-
-			if (result && result.abort) {
-				discordLogger.debug(`Middleware aborted command: ${color.bold(commandKey)}`)
-				return
-			}
-		}
+		afterHooks = await executeMiddleware(command, [interaction])
 	} catch (error) {
 		discordLogger.error('Aborting due to middleware error:', error)
 		return
 	}
 
+	if (!afterHooks) {
+		discordLogger.debug(`Middleware aborted command: ${color.bold(commandKey)}`)
+		return
+	}
+
 	// Prepare options and config
 	const commandConfig: CommandConfig = command.handler.config
 	const config = getConfig()
@@ -131,12 +126,23 @@ export async function executeCommandHandler(interaction: ChatInputCommandInterac
 			throw `Missing default export function for command: ${color.bold('/' + commandKey)}`
 		}
 
+		// Stop here if the user isn't allowed to use this command
+		if (await enforcePermissions(interaction, command.key, commandConfig?.permissions, sage)) {
+			return
+		}
+
+		// Stop here if the command is on cooldown
+		if (await enforceCooldown(interaction, commandKey, commandConfig?.cooldown, sage)) {
+			return
+		}
+
 		// Patch deferReply to prevent failures due to multiple deferrals
 		patchDeferReply(interaction)
 
 		// Delegate to command handler
 		const options = extractCommandOptions(interaction, commandConfig?.options)
-		const result = command.handler.default(interaction, options)
+		const data = { payload: [interaction], record: command }
+		const result = executeWithAfterHooks(afterHooks, data, () => command.handler.default(interaction, options))
 		const promises = []
 		let response
 
@@ -224,26 +230,19 @@ export async function executeContextHandler(interaction: ContextMenuCommandInter
 	}
 
 	// Execute middleware
+	let afterHooks: HandlerRecord<Middleware>[] | null
 	try {
-		for (const middleware of portal.middleware) {
-			discordLogger.debug(
-				`Executing middleware: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
-			)
-			const result = await middleware.handler.default({
-				payload: [interaction],
-				record: command
-			})
-
-			if (result && result.abort) {
-				discordLogger.debug(`Middleware aborted context command: ${color.bold(commandKey)}`)
-				return
-			}
-		}
+		afterHooks = await executeMiddleware(command, [interaction])
 	} catch (error) {
 		discordLogger.error('Aborting due to middleware error:', error)
 		return
 	}
 
+	if (!afterHooks) {
+		discordLogger.debug(`Middleware aborted context command: ${color.bold(commandKey)}`)
+		return
+	}
+
 	// Prepare options and config
 	const commandConfig: ContextConfig = command.handler.config
 	const config = getConfig()
@@ -258,8 +257,18 @@ export async function executeContextHandler(interaction: ContextMenuCommandInter
 			throw `Missing default export function for command: ${color.bold('/' + commandKey)}`
 		}
 
+		// Stop here if the user isn't allowed to use this context menu command
+		if (await enforcePermissions(interaction, command.key, commandConfig?.permissions, sage)) {
+			return
+		}
+
+		// Stop here if the context menu command is on cooldown
+		if (await enforceCooldown(interaction, commandKey, commandConfig?.cooldown, sage)) {
+			return
+		}
+
 		// Determine target
-		let target
+		let target: Message | User | undefined
 		if (interaction.isMessageContextMenuCommand()) {
 			target = interaction.targetMessage
 		} else if (interaction.isUserContextMenuCommand()) {
@@ -267,7 +276,8 @@ export async function executeContextHandler(interaction: ContextMenuCommandInter
 		}
 
 		// Delegate to context menu handler
-		const result = command.handler.default(interaction, target)
+		const data = { payload: [interaction], record: command }
+		const result = executeWithAfterHooks(afterHooks, data, () => command.handler.default(interaction, target))
 		const promises = []
 		let response
 
@@ -320,6 +330,131 @@ export async function executeContextHandler(interaction: ContextMenuCommandInter
 	}
 }
 
+export async function executeComponentHandler(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+	// Find component or modal handler by its custom ID route
+	const isModal = interaction.isModalSubmit()
+	const label = isModal ? 'modal' : 'component'
+	const match = isModal ? portal.matchModal(interaction.customId) : portal.matchComponent(interaction.customId)
+	if (!match) {
+		discordLogger.debug(`No ${label} route matching "${interaction.customId}" was found.`)
+		return
+	}
+	const { params, record } = match
+	discordLogger.event(`Received ${label} interaction: ${color.bold(interaction.customId)}`)
+
+	// Check if the component's module is enabled
+	if (!portal.module(record.module).isEnabled) {
+		discordLogger.debug(`Tried to execute disabled ${label} from module: ${color.bold(record.module)}`)
+		return
+	}
+
+	// Execute middleware
+	let afterHooks: HandlerRecord<Middleware>[] | null
+	try {
+		afterHooks = await executeMiddleware(record, [interaction, params])
+	} catch (error) {
+		discordLogger.error('Aborting due to middleware error:', error)
+		return
+	}
+
+	if (!afterHooks) {
+		discordLogger.debug(`Middleware aborted ${label}: ${color.bold(record.key)}`)
+		return
+	}
+
+	// Prepare options and config
+	const componentConfig: ComponentConfig = record.handler.config
+	const config = getConfig()
+	const sage = getSage(componentConfig, config)
+	discordLogger.debug(`Sage options:`, sage)
+
+	try {
+		discordLogger.debug(`Executing ${label} handler: ${color.bold(path.join(record.plugin?.path ?? '.', record.path))}`)
+		if (!record.handler.default) {
+			throw `Missing default export function for ${label}: ${color.bold(record.key)}`
+		}
+
+		// Delegate to component handler
+		const data = { payload: [interaction, params], record }
+		const result = executeWithAfterHooks(afterHooks, data, () => record.handler.default(interaction as never, params))
+		const promises = []
+		let response
+		let isDeferredUpdate = false
+
+		if (sage.defer && result instanceof Promise) {
+			const bufferTime = timeout(() => BUFFER, sage.deferBuffer)
+			const raceResult = await Promise.race([result, bufferTime])
+
+			if (raceResult === BUFFER && !interaction.replied) {
+				discordLogger.debug(`Sage is deferring async ${label}...`)
+				promises.push(result)
+
+				if (!interaction.deferred) {
+					try {
+						// Acknowledge without touching the message, unless it's a modal opened from a command
+						if (interaction.isModalSubmit() && !interaction.isFromMessage()) {
+							await interaction.deferReply(withEphemeralDefer({}, sage.ephemeral))
+						} else {
+							await interaction.deferUpdate()
+							isDeferredUpdate = true
+						}
+					} catch (error) {
+						const message = error instanceof Error ? error.message : (error as string)
+						if (
+							!message.includes('Unknown interaction') &&
+							!message.includes('Interaction has already been acknowledged')
+						) {
+							throw error
+						} else {
+							discordLogger.debug(`Interaction was already handled, skipping Sage deferral`)
+						}
+					}
+				}
+			} else {
+				response = raceResult
+			}
+		} else if (result instanceof Promise) {
+			promises.push(result)
+		}
+
+		// Enforce timeout only if custom timeout is configured
+		if (promises.length > 0) {
+			const timeoutDuration = componentConfig?.timeout ?? config?.timeouts?.commandDeferral
+			if (timeoutDuration) {
+				promises.push(timeout(() => TIMEOUT, timeoutDuration))
+			}
+
+			// Wait for response or timeout
+			response = await Promise.race(promises)
+			if (response === TIMEOUT) {
+				throw new Error(`${isModal ? 'Modal' : 'Component'} timed out`)
+			}
+		} else if (!(result instanceof Promise)) {
+			response = result
+		}
+
+		// Stop here if component returned nothing
+		if (response === undefined) {
+			discordLogger.debug(`${isModal ? 'Modal' : 'Component'} returned void, skipping response`)
+			return
+		}
+
+		// Deferred updates have no reply to edit, so the response is sent as a follow-up instead
+		discordLogger.debug(`Sage is handling reply:`, response)
+		const reply = typeof response === 'string' ? { content: response } : response
+		if (isDeferredUpdate) {
+			await interaction.followUp(withEphemeralReply(reply, sage.ephemeral))
+		} else if (interaction.deferred) {
+			await interaction.editReply(reply)
+		} else {
+			await interaction.reply(withEphemeralReply(reply, sage.ephemeral))
+		}
+	} catch (error) {
+		discordLogger.error(error)
+		printErrorResponse(error, interaction)
+	}
+}
+
 export async function executeEventHandler(
 	plugins: Map<string, PluginData> | null,
 	eventName: string,
@@ -349,28 +484,24 @@ export async function executeEventHandler(
 				}
 
 				// Execute middleware
+				let afterHooks: HandlerRecord<Middleware>[] | null
 				try {
-					for (const middleware of portal.middleware) {
-						discordLogger.debug(
-							`Executing middleware: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
-						)
-						const result = await middleware.handler.default({
-							payload: eventData,
-							record: callback
-						})
-
-						if (result && result.abort) {
-							discordLogger.debug(`Middleware aborted event: ${color.bold(eventName)}`)
-							return
-						}
-					}
+					afterHooks = await executeMiddleware(callback, eventData)
 				} catch (error) {
 					discordLogger.error('Aborting due to middleware error:', error)
 					return
 				}
 
+				if (!afterHooks) {
+					discordLogger.debug(`Middleware aborted event: ${color.bold(eventName)}`)
+					return
+				}
+
 				// Execute handler without timeout if not a lifecycle event
-				const handlerPromise = callback.handler.default(...eventData, plugins?.get(callback.plugin?.name)?.options)
+				const options = plugins?.get(callback.plugin?.name)?.options
+				const handlerPromise = executeWithAfterHooks(afterHooks, { payload: eventData, record: callback }, () =>
+					callback.handler.default(...eventData, options)
+				)
 				if (!isLifecycleEvent) {
 					return await handlerPromise
 				}
@@ -0,0 +1,136 @@
+import { portal } from './robo.js'
+import { color } from './color.js'
+import { discordLogger } from './constants.js'
+import path from 'node:path'
+import type {
+	HandlerRecord,
+	Middleware,
+	MiddlewareAfterData,
+	MiddlewareScope,
+	MiddlewareScopeType
+} from '../types/index.js'
+
+type AfterHook = HandlerRecord<Middleware>
+
+// Middleware without an explicit scope keeps running for every Discord handler, but never for API routes
+const DefaultScope: MiddlewareScopeType[] = ['commands', 'components', 'context', 'events', 'modals']
+
+const ScopeTypes: Record<HandlerRecord['type'], MiddlewareScopeType | null> = {
+	api: 'api',
+	command: 'commands',
+	component: 'components',
+	context: 'context',
+	event: 'events',
+	middleware: null,
+	modal: 'modals'
+}
+
+/**
+ * Runs every middleware in scope for a record, highest priority first.
+ *
+ * @returns The middleware with `after` hooks to run once the handler settles, or `null` if any middleware aborted.
+ */
+export async function executeMiddleware(record: HandlerRecord, payload: unknown[]): Promise<AfterHook[] | null> {
+	const afterHooks: AfterHook[] = []
+
+	for (const middleware of portal.middleware) {
+		if (!isInScope(middleware.handler.config?.scope, record)) {
+			continue
+		}
+
+		if (middleware.handler.default) {
+			discordLogger.debug(
+				`Executing middleware: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
+			)
+			const result = await middleware.handler.default({ payload, record })
+
+			if (result && result.abort) {
+				return null
+			}
+		}
+
+		if (middleware.handler.after) {
+			afterHooks.push(middleware)
+		}
+	}
+
+	return afterHooks
+}
+
+/**
+ * Calls a handler and lets `after` hooks observe or replace its outcome, in reverse order of execution.
+ * Handlers are called directly when there are no hooks so synchronous results stay synchronous.
+ */
+export function executeWithAfterHooks<T>(
+	afterHooks: AfterHook[],
+	data: Pick<MiddlewareAfterData, 'payload' | 'record'>,
+	callback: () => T
+): T | Promise<Awaited<T>> {
+	if (!afterHooks.length) {
+		return callback()
+	}
+
+	return (async (): Promise<Awaited<T>> => {
+		const start = Date.now()
+		let error: unknown
+		let failed = false
+		let result: unknown
+
+		try {
+			result = await callback()
+		} catch (e) {
+			error = e
+			failed = true
+		}
+
+		const duration = Date.now() - start
+		for (const middleware of [...afterHooks].reverse()) {
+			try {
+				discordLogger.debug(
+					`Executing middleware after hook: ${color.bold(path.join(middleware.plugin?.path ?? '.', middleware.path))}`
+				)
+				const override = await middleware.handler.after({ ...data, duration, error, result })
+
+				if (override && 'error' in override) {
+					error = override.error
+					failed = override.error !== undefined
+				}
+				if (override && 'result' in override) {
+					result = override.result
+				}
+			} catch (hookError) {
+				discordLogger.error('Middleware after hook error:', hookError)
+			}
+		}
+
+		if (failed) {
+			throw error
+		}
+
+		return result as Awaited<T>
+	})()
+}
+
+function isInScope(scope: MiddlewareScopeType | MiddlewareScopeType[] | MiddlewareScope, record: HandlerRecord) {
+	const {
+		keys,
+		modules,
+		types = DefaultScope
+	}: MiddlewareScope = typeof scope === 'string'
+		? { types: [scope] }
+		: Array.isArray(scope)
+		? { types: scope }
+		: scope ?? {}
+
+	if (!types.includes(ScopeTypes[record.type])) {
+		return false
+	}
+	if (keys && !keys.some((key) => record.key === key || record.key?.startsWith(key + '/'))) {
+		return false
+	}
+	if (modules && !modules.some((module) => record.module === module || record.module?.startsWith(module + '/'))) {
+		return false
+	}
+
+	return true
+}
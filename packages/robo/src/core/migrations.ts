@@ -0,0 +1,200 @@
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { Compiler } from '../cli/utils/compiler.js'
+import { color } from './color.js'
+import { FLASHCORE_KEYS, flashcoreLogger } from './constants.js'
+import { Flashcore } from './flashcore.js'
+import { Globals } from './globals.js'
+import type { Migration, MigrationChange, MigrationContext, MigrationEntry, MigrationResult } from '../types/index.js'
+
+// How often other shards check whether the leader has finished migrating
+const MIGRATION_POLL_INTERVAL = 500
+
+interface RunMigrationsOptions {
+	dryRun?: boolean
+}
+
+/**
+ * Runs pending Flashcore migrations declared in `/src/migrations/<namespace>/<version>.ts` across the Robo and its plugins.
+ * Each namespace records the last version applied, so migrations only ever run once.
+ *
+ * A failing migration stops its namespace at the last successful version; other namespaces still run.
+ */
+export async function runMigrations(options?: RunMigrationsOptions): Promise<MigrationResult[]> {
+	const { dryRun = false } = options ?? {}
+	const manifest = Compiler.getManifest()
+	const results: MigrationResult[] = []
+
+	for (const [namespaceKey, migrations] of Object.entries(manifest?.migrations ?? {})) {
+		const appliedVersion = (await getAppliedVersion(namespaceKey)) ?? 0
+		const pending = migrations.filter((migration) => migration.version > appliedVersion)
+		if (!pending.length) {
+			flashcoreLogger.debug(`No pending migrations for namespace ${color.bold(namespaceKey)}`)
+			continue
+		}
+
+		const result: MigrationResult = {
+			changes: [],
+			fromVersion: appliedVersion,
+			namespace: namespaceKey,
+			toVersion: appliedVersion
+		}
+		results.push(result)
+
+		// Dry runs share buffered writes across a namespace, so later versions see what earlier ones would have written
+		const buffer = new Map<string, MigrationChange>()
+
+		for (const migration of pending) {
+			try {
+				flashcoreLogger.debug(`Running migration ${color.bold(namespaceKey)} v${migration.version}...`)
+				const changes = await runMigration(migration, dryRun, buffer)
+				result.changes.push(...changes)
+				result.toVersion = migration.version
+
+				if (!dryRun) {
+					await Flashcore.set(namespaceKey, migration.version, { namespace: FLASHCORE_KEYS.migrations })
+				}
+			} catch (error) {
+				flashcoreLogger.error(`Migration ${color.bold(namespaceKey)} v${migration.version} failed:`, error)
+				result.error = error
+				break
+			}
+		}
+	}
+
+	return results
+}
+
+/**
+ * Waits until another process, such as the leader shard, has applied every migration in the manifest.
+ *
+ * @returns `false` if migrations were still pending after the timeout.
+ */
+export async function waitForMigrations(timeout = 60_000): Promise<boolean> {
+	const manifest = Compiler.getManifest()
+	const deadline = Date.now() + timeout
+
+	for (const [namespaceKey, migrations] of Object.entries(manifest?.migrations ?? {})) {
+		const latestVersion = Math.max(...migrations.map((migration) => migration.version))
+
+		while (((await getAppliedVersion(namespaceKey)) ?? 0) < latestVersion) {
+			if (Date.now() >= deadline) {
+				return false
+			}
+
+			await new Promise((resolve) => setTimeout(resolve, MIGRATION_POLL_INTERVAL))
+		}
+	}
+
+	return true
+}
+
+/**
+ * Gets the last migration version applied to a namespace, if any.
+ */
+export function getAppliedVersion(namespace: string | string[]): Promise<number | undefined> {
+	const namespaceKey = Array.isArray(namespace) ? namespace.join('/') : namespace
+	return Promise.resolve(Flashcore.get<number>(namespaceKey, { namespace: FLASHCORE_KEYS.migrations }))
+}
+
+async function runMigration(
+	migration: MigrationEntry,
+	dryRun: boolean,
+	buffer: Map<string, MigrationChange>
+): Promise<MigrationChange[]> {
+	const basePath = path.join(process.cwd(), migration.__plugin?.path ?? '.')
+	const importPath = pathToFileURL(path.join(basePath, migration.__path)).toString()
+	const module: Migration = await import(importPath)
+
+	if (typeof module.default !== 'function') {
+		throw `Missing default export function for migration: ${color.bold(migration.__path)}`
+	}
+
+	const { context, changes } = createContext(migration.namespace, dryRun, buffer)
+	await module.default(context)
+
+	return changes
+}
+
+/**
+ * Listing would silently skip values the adapter can't enumerate, recording the migration as done without them.
+ * Real runs stop instead so the migration is retried once those values have been upgraded.
+ */
+async function assertListable(dryRun: boolean) {
+	const unlisted = (await Globals.getFlashcoreAdapter().countUnlisted?.()) ?? 0
+	if (!unlisted) {
+		return
+	}
+
+	const message =
+		`Flashcore has ${unlisted} values from an older version that migrations can't list. ` +
+		`Read them by key with Flashcore.get() to upgrade them, then migrate again.`
+
+	if (dryRun) {
+		flashcoreLogger.warn(message)
+	} else {
+		throw new Error(message)
+	}
+}
+
+/**
+ * Creates a context scoped to a namespace. Dry runs buffer writes so reads stay consistent without touching data.
+ */
+function createContext(namespace: string[], dryRun: boolean, buffer: Map<string, MigrationChange>) {
+	const changes: MigrationChange[] = []
+
+	const context: MigrationContext = {
+		dryRun,
+		delete: async (key) => {
+			const change: MigrationChange = { key, type: 'delete' }
+			changes.push(change)
+
+			if (dryRun) {
+				buffer.set(key, change)
+			} else {
+				await Flashcore.delete(key, { namespace })
+			}
+		},
+		get: async <V>(key: string) => {
+			if (buffer.has(key)) {
+				return buffer.get(key).value as V
+			}
+
+			return (await Flashcore.get<V>(key, { namespace })) ?? undefined
+		},
+		keys: async () => {
+			await assertListable(dryRun)
+			const keys = new Set(await Flashcore.keys({ namespace }))
+			buffer.forEach((change, key) => (change.type === 'delete' ? keys.delete(key) : keys.add(key)))
+
+			return [...keys]
+		},
+		list: async <V>() => {
+			await assertListable(dryRun)
+			const entries = await Flashcore.list<V>({ namespace })
+			buffer.forEach((change, key) => {
+				if (change.type === 'delete') {
+					delete entries[key]
+				} else {
+					entries[key] = change.value as V
+				}
+			})
+
+			return entries
+		},
+		logger: flashcoreLogger,
+		namespace,
+		set: async (key, value) => {
+			const change: MigrationChange = { key, type: 'set', value }
+			changes.push(change)
+
+			if (dryRun) {
+				buffer.set(key, change)
+			} else {
+				await Flashcore.set(key, value, { namespace })
+			}
+		}
+	}
+
+	return { changes, context }
+}
@@ -0,0 +1,233 @@
+import { FLASHCORE_KEYS, discordLogger } from './constants.js'
+import { Flashcore } from './flashcore.js'
+import { getConfig } from './config.js'
+import { localize, withEphemeralReply } from '../cli/utils/utils.js'
+import type { CommandInteraction } from 'discord.js'
+import type { PermissionDenial, PermissionsConfig, SageOptions } from '../types/index.js'
+
+// `{handler}` becomes "command" or "context menu", depending on what was denied
+const DEFAULT_MESSAGES: Record<PermissionDenial['reason'], string> = {
+	botPermissions: 'I need the following permissions to do that: {permissions}.',
+	nsfw: 'This {handler} can only be used in age-restricted channels.',
+	owner: "You don't have permission to use this {handler}.",
+	roles: "You don't have permission to use this {handler}."
+}
+
+// Handler keys with at least one guild override, so handlers without any skip the per-guild lookup
+const OVERRIDES_INDEX_KEY = 'overridden'
+
+// How long the index is trusted before it's read again, so overrides set on other shards apply
+const OVERRIDES_INDEX_TTL = 60_000
+
+// Resolved from the Discord application when no owners are configured
+let _applicationOwners: Promise<string[]> | null = null
+
+let _overridden: { expiresAt: number; keys: Promise<Set<string>> } | null = null
+
+/**
+ * Permission policies for commands and context menus, with per-guild overrides stored in Flashcore.
+ *
+ * ```ts
+ * import { Permissions } from 'robo.js'
+ *
+ * // Let moderators in this guild use /ban too
+ * await Permissions.set('ban', interaction.guildId, { roles: ['123456789012345678'] })
+ * ```
+ *
+ * Policies are usually configured via the `permissions` option in a command's config and enforced automatically.
+ */
+export const Permissions = {
+	/**
+	 * Checks a policy against an interaction, applying the guild's override if there is one.
+	 *
+	 * @param key - The handler key, such as `ban`, `settings/set` for subcommands, or a context menu's name.
+	 * @param permissions - The policy from the handler's config.
+	 * @param interaction - The interaction to check.
+	 * @returns Why the interaction was denied, or `null` if it's allowed.
+	 */
+	check: async (
+		key: string,
+		permissions: PermissionsConfig | undefined,
+		interaction: CommandInteraction
+	): Promise<PermissionDenial | null> => {
+		return checkPolicy(await getPolicy(key, permissions, interaction), interaction)
+	},
+
+	/**
+	 * Gets a guild's override for a handler, if one was set.
+	 */
+	get: async (key: string, guildId: string): Promise<Partial<PermissionsConfig> | undefined> => {
+		return Flashcore.get<Partial<PermissionsConfig>>(`${key}:${guildId}`, { namespace: FLASHCORE_KEYS.permissions })
+	},
+
+	/**
+	 * Removes a guild's override so the handler's own policy applies again.
+	 */
+	reset: async (key: string, guildId: string) => {
+		await Flashcore.delete(`${key}:${guildId}`, { namespace: FLASHCORE_KEYS.permissions })
+	},
+
+	/**
+	 * Overrides a handler's policy for a single guild. Fields set here replace the same fields from the handler's config.
+	 *
+	 * @param key - The handler key, such as `ban`, `settings/set` for subcommands, or a context menu's name.
+	 * @param guildId - The guild the override applies to.
+	 * @param permissions - Fields to replace.
+	 */
+	set: async (key: string, guildId: string, permissions: Partial<PermissionsConfig>) => {
+		await Flashcore.update<string[]>(
+			OVERRIDES_INDEX_KEY,
+			(keys) => (keys?.includes(key) ? keys : [...(keys ?? []), key]),
+			{ namespace: FLASHCORE_KEYS.permissions }
+		)
+		await Flashcore.set(`${key}:${guildId}`, permissions, { namespace: FLASHCORE_KEYS.permissions })
+
+		const overridden = await getOverriddenKeys()
+		overridden.add(key)
+	}
+}
+
+/**
+ * Enforces a permission policy for an interaction, replying with Sage's permission message when it's denied.
+ *
+ * @returns `true` if the interaction was denied and the handler should not run.
+ */
+export async function enforcePermissions(
+	interaction: CommandInteraction,
+	key: string,
+	permissions: PermissionsConfig | undefined,
+	sage: SageOptions
+): Promise<boolean> {
+	if (!permissions && !(interaction.guildId && (await hasOverrides(key)))) {
+		return false
+	}
+
+	const policy = await getPolicy(key, permissions, interaction)
+	const denial = await checkPolicy(policy, interaction)
+	if (!denial) {
+		return false
+	}
+
+	discordLogger.debug(`Handler ${key} denied for user ${interaction.user.id}: ${denial.reason}`)
+	const handler = interaction.isContextMenuCommand() ? 'context menu' : 'command'
+	const defaultMessage = DEFAULT_MESSAGES[denial.reason].replaceAll('{handler}', handler)
+	const message = localize(policy.message ?? sage.permissionMessage ?? defaultMessage, interaction, defaultMessage)
+	const content = message.replaceAll('{permissions}', (denial.missing ?? []).join(', '))
+
+	try {
+		if (interaction.replied || interaction.deferred) {
+			await interaction.followUp(withEphemeralReply({ content }))
+		} else {
+			await interaction.reply(withEphemeralReply({ content }))
+		}
+	} catch (error) {
+		discordLogger.debug(`Failed to send permission message:`, error)
+	}
+
+	return true
+}
+
+async function checkPolicy(
+	policy: PermissionsConfig,
+	interaction: CommandInteraction
+): Promise<PermissionDenial | null> {
+	if (policy.ownerOnly && !(await getOwners(interaction)).includes(interaction.user.id)) {
+		return { reason: 'owner' }
+	}
+
+	const hasAllowlist = policy.roles?.length || policy.users?.length
+	if (hasAllowlist && !policy.users?.includes(interaction.user.id) && !hasRole(interaction, policy.roles)) {
+		return { reason: 'roles' }
+	}
+
+	// Discord also allows age-restricted commands in DMs
+	const channel = interaction.channel
+	if (policy.nsfw && interaction.inGuild() && !(channel && 'nsfw' in channel && channel.nsfw)) {
+		return { reason: 'nsfw' }
+	}
+
+	if (policy.botPermissions?.length && interaction.inGuild()) {
+		const missing = interaction.appPermissions?.missing(policy.botPermissions) ?? []
+		if (missing.length) {
+			return { missing, reason: 'botPermissions' }
+		}
+	}
+
+	return null
+}
+
+async function getOwners(interaction: CommandInteraction): Promise<string[]> {
+	const configOwners = getConfig()?.owners
+	if (configOwners?.length) {
+		return configOwners
+	}
+
+	if (!_applicationOwners) {
+		_applicationOwners = interaction.client.application
+			.fetch()
+			.then((application): string[] => {
+				const owner = application.owner
+				if (!owner) {
+					return []
+				}
+
+				return 'members' in owner ? [...owner.members.keys()] : [owner.id]
+			})
+			.catch((error): string[] => {
+				discordLogger.warn(`Could not fetch application owners:`, error)
+				_applicationOwners = null
+				return []
+			})
+	}
+
+	return _applicationOwners
+}
+
+async function getOverriddenKeys(): Promise<Set<string>> {
+	if (!_overridden || _overridden.expiresAt <= Date.now()) {
+		const keys = Promise.resolve(
+			Flashcore.get<string[]>(OVERRIDES_INDEX_KEY, { namespace: FLASHCORE_KEYS.permissions })
+		).then((keys) => new Set(keys ?? []))
+		_overridden = { expiresAt: Date.now() + OVERRIDES_INDEX_TTL, keys }
+
+		// Read again next time instead of caching the failure
+		keys.catch(() => {
+			_overridden = null
+		})
+	}
+
+	return _overridden.keys
+}
+
+// Fields from the guild's override replace the handler's, including its message
+async function getPolicy(
+	key: string,
+	permissions: PermissionsConfig | undefined,
+	interaction: CommandInteraction
+): Promise<PermissionsConfig> {
+	const guildId = interaction.guildId
+	const override = guildId && (await hasOverrides(key)) ? await Permissions.get(key, guildId) : undefined
+
+	return { ...(permissions ?? {}), ...(override ?? {}) }
+}
+
+// Keys stay in the index after their overrides are reset, which only costs a lookup
+async function hasOverrides(key: string): Promise<boolean> {
+	const overridden = await getOverriddenKeys()
+
+	return overridden.has(key)
+}
+
+function hasRole(interaction: CommandInteraction, roles: string[] | undefined) {
+	const memberRoles = interaction.member?.roles
+	if (!roles?.length || !memberRoles) {
+		return false
+	}
+
+	// Uncached guilds only give us raw role IDs
+	if (Array.isArray(memberRoles)) {
+		return roles.some((role) => memberRoles.includes(role))
+	}
+
+	return roles.some((role) => memberRoles.cache.has(role))
+}
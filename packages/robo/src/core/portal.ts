@@ -7,7 +7,23 @@ import { logger } from './logger.js'
 import { color, composeColors, hex } from './color.js'
 import { getConfig } from './config.js'
 import { Globals } from './globals.js'
-import type { Api, BaseConfig, Command, Context, Event, HandlerRecord, Middleware } from '../types/index.js'
+import type {
+	Api,
+	BaseConfig,
+	Command,
+	Component,
+	ComponentParams,
+	Context,
+	Event,
+	HandlerRecord,
+	Middleware,
+	Modal
+} from '../types/index.js'
+
+export interface RouteMatch<T> {
+	params: ComponentParams
+	record: HandlerRecord<T>
+}
 
 export default class Portal {
 	private _enabledModules: Record<string, boolean> = {}
@@ -23,6 +39,10 @@ export default class Portal {
 		return Globals.getPortalValues().commands
 	}
 
+	get components(): Collection<string, HandlerRecord<Component>> {
+		return Globals.getPortalValues().components
+	}
+
 	get context(): Collection<string, HandlerRecord<Context>> {
 		return Globals.getPortalValues().context
 	}
@@ -35,10 +55,30 @@ export default class Portal {
 		return Globals.getPortalValues().middleware
 	}
 
+	get modals(): Collection<string, HandlerRecord<Modal>> {
+		return Globals.getPortalValues().modals
+	}
+
 	get moduleKeys() {
 		return Globals.getPortalValues().moduleKeys
 	}
 
+	/**
+	 * Finds the component handler whose route matches the given custom ID.
+	 * Static segments take precedence over `[param]` segments.
+	 */
+	matchComponent(customId: string): RouteMatch<Component> | null {
+		return matchRoute(this.components, customId)
+	}
+
+	/**
+	 * Finds the modal handler whose route matches the given custom ID.
+	 * Static segments take precedence over `[param]` segments.
+	 */
+	matchModal(customId: string): RouteMatch<Modal> | null {
+		return matchRoute(this.modals, customId)
+	}
+
 	module(moduleName: string) {
 		let moduleInstance = this._modules[moduleName]
 		if (!moduleInstance) {
@@ -58,9 +98,11 @@ export default class Portal {
 		const commands = await loadHandlerRecords<HandlerRecord<Command>>('commands')
 		const context = await loadHandlerRecords<HandlerRecord<Context>>('context')
 		const events = await loadHandlerRecords<HandlerRecord<Event>[]>('events')
-		const middleware = [...(await loadHandlerRecords<HandlerRecord<Middleware>>('middleware')).values()]
+		const middleware = sortMiddleware([...(await loadHandlerRecords<HandlerRecord<Middleware>>('middleware')).values()])
+		const components = await loadHandlerRecords<HandlerRecord<Component>>('components')
+		const modals = await loadHandlerRecords<HandlerRecord<Modal>>('modals')
 
-		Globals.registerPortal(apis, commands, context, events, middleware)
+		Globals.registerPortal(apis, commands, context, events, middleware, components, modals)
 	}
 }
 
@@ -92,6 +134,59 @@ export function getPluginOptions(packageName: string): unknown | null {
 	return options ?? null
 }
 
+/**
+ * Matches a custom ID against route keys such as `roadmap/sync/[guildId]/cancel`.
+ * A trailing `[...name]` segment captures the rest of the custom ID.
+ */
+function matchRoute<T>(records: Collection<string, HandlerRecord<T>>, customId: string): RouteMatch<T> | null {
+	if (!records?.size || !customId) {
+		return null
+	}
+
+	// Exact matches are the fast path and always win
+	const exact = records.get(customId)
+	if (exact) {
+		return { params: {}, record: exact }
+	}
+
+	const idSegments = customId.split('/')
+	let bestMatch: RouteMatch<T> | null = null
+	let bestScore = -1
+
+	for (const [routeKey, record] of records) {
+		const params: ComponentParams = {}
+		const routeSegments = routeKey.split('/')
+		let score = 0
+
+		for (let i = 0; i < routeSegments.length && score >= 0; i++) {
+			const segment = routeSegments[i]
+			const isLast = i === routeSegments.length - 1
+
+			if (isLast && segment.startsWith('[...') && segment.endsWith(']')) {
+				// Catch-all consumes every remaining segment
+				const rest = idSegments.slice(i).join('/')
+				params[segment.slice(4, -1)] = rest
+				score = rest ? score : -1
+			} else if (!idSegments[i] || (isLast && idSegments.length !== routeSegments.length)) {
+				score = -1
+			} else if (segment.startsWith('[') && segment.endsWith(']')) {
+				params[segment.slice(1, -1)] = idSegments[i]
+			} else if (segment === idSegments[i]) {
+				score++
+			} else {
+				score = -1
+			}
+		}
+
+		if (score > bestScore) {
+			bestMatch = { params, record }
+			bestScore = score
+		}
+	}
+
+	return bestMatch
+}
+
 interface ScanOptions<T> {
 	manifestEntries: Record<string, T | T[]> | T[]
 	parentEntry?: T
@@ -100,6 +195,16 @@ interface ScanOptions<T> {
 }
 type ScanPredicate = <T>(entry: T, entryKeys: string[]) => Promise<void>
 
+/**
+ * Sorts middleware by priority, highest first. Equal priorities keep their file order.
+ * Records are collected as their imports finish, so file order comes from their manifest index rather than insertion.
+ */
+function sortMiddleware(middleware: HandlerRecord<Middleware>[]) {
+	return middleware.sort(
+		(a, b) => (b.handler.config?.priority ?? 0) - (a.handler.config?.priority ?? 0) || Number(a.key) - Number(b.key)
+	)
+}
+
 async function scanEntries<T>(predicate: ScanPredicate, options: ScanOptions<T>) {
 	const { manifestEntries, parentEntry = {}, recursionKeys = [], type } = options
 	const promises: Promise<unknown>[] = []
@@ -140,7 +245,7 @@ async function scanEntries<T>(predicate: ScanPredicate, options: ScanOptions<T>)
 }
 
 async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
-	type: 'api' | 'commands' | 'context' | 'events' | 'middleware'
+	type: 'api' | 'commands' | 'components' | 'context' | 'events' | 'middleware' | 'modals'
 ) {
 	const collection = new Collection<string, T>()
 	const manifest = Compiler.getManifest()
@@ -153,9 +258,12 @@ async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
 			? composeColors(hex('#536DFE'), color.bold)
 			: type === 'events'
 			? composeColors(color.magenta, color.bold)
+			: type === 'components' || type === 'modals'
+			? composeColors(color.cyan, color.bold)
 			: composeColors(color.gray, color.bold)
 	const formatApi = (api: string) => pcolor(`${api}`)
 	const formatCommand = (command: string) => pcolor(`/${command}`)
+	const formatComponent = (component: string) => pcolor(component)
 	const formatContext = (context: string) => pcolor(`${context} (${context})`)
 	const formatEvent = (event: string) => pcolor(`${event} (${manifest.events[event].length})`)
 	const formatMiddleware = (middleware: string) => pcolor(manifest.middleware[parseInt(middleware)]?.__path)
@@ -168,8 +276,10 @@ async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
 			? formatContext
 			: type === 'events'
 			? formatEvent
+			: type === 'components' || type === 'modals'
+			? formatComponent
 			: formatMiddleware
-	const handlers = Object.keys(manifest[type]).map(formatter)
+	const handlers = Object.keys(manifest[type] ?? {}).map(formatter)
 	logger.debug(`Loading ${type}: ${handlers.join(', ')}`)
 
 	const scanPredicate: ScanPredicate = async (entry: BaseConfig, entryKeys) => {
@@ -190,7 +300,16 @@ async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
 			module: entry.__module,
 			path: entry.__path,
 			plugin: entry.__plugin,
-			type: type === 'events' ? 'event' : type === 'commands' ? 'command' : type
+			type:
+				type === 'events'
+					? 'event'
+					: type === 'commands'
+					? 'command'
+					: type === 'components'
+					? 'component'
+					: type === 'modals'
+					? 'modal'
+					: type
 		}
 
 		// Assign the handler to the collection, handling difference between types
@@ -211,6 +330,8 @@ async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
 			collection.set(entryKeys[0], handler as T)
 		} else if (type === 'api') {
 			collection.set(entryKeys.join('/'), handler as T)
+		} else if (type === 'components' || type === 'modals') {
+			collection.set(entryKeys[0], handler as T)
 		}
 	}
 
@@ -219,7 +340,7 @@ async function loadHandlerRecords<T extends HandlerRecord | HandlerRecord[]>(
 		await scanEntries(scanPredicate, { manifestEntries: manifest.context.message, type })
 		await scanEntries(scanPredicate, { manifestEntries: manifest.context.user, type })
 	} else {
-		await scanEntries(scanPredicate, { manifestEntries: manifest[type], type })
+		await scanEntries(scanPredicate, { manifestEntries: manifest[type] ?? {}, type })
 	}
 
 	return collection
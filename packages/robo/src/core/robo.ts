@@ -9,6 +9,7 @@ import { env, Env } from './env.js'
 import {
 	executeAutocompleteHandler,
 	executeCommandHandler,
+	executeComponentHandler,
 	executeContextHandler,
 	executeEventHandler
 } from './handlers.js'
@@ -17,6 +18,9 @@ import { Nanocore } from '../internal/nanocore.js'
 import { Flashcore } from './flashcore.js'
 import { Mode } from './mode.js'
 import { loadState } from './state.js'
+import { runMigrations, waitForMigrations } from './migrations.js'
+import { scheduleBackups } from './flashcore-backup.js'
+import { Shards } from './shard.js'
 import Portal from './portal.js'
 import path from 'node:path'
 import { isMainThread, parentPort } from 'node:worker_threads'
@@ -113,7 +117,11 @@ async function start(options?: StartOptions) {
 
 		const mode = Mode.get()
 		await Env.load({ mode })
-		await Flashcore.$init({ keyvOptions: config.flashcore?.keyv, namespaceSeparator: config.flashcore?.namespaceSeparator })
+		await Flashcore.$init({
+			adapter: config.flashcore?.adapter,
+			keyvOptions: config.flashcore?.keyv,
+			namespaceSeparator: config.flashcore?.namespaceSeparator
+		})
 
 		// Wait for states to be loaded
 		if (stateLoad) {
@@ -131,6 +139,25 @@ async function start(options?: StartOptions) {
 			logger.debug(`State loaded in ${Date.now() - stateStart}ms`)
 		}
 
+		// Bring stored data up to date before any handler gets a chance to read it
+		// Shards share Flashcore, so only the leader migrates while the others wait for it
+		if (Shards.isLeader()) {
+			const migrationResults = await runMigrations()
+			const failedMigration = migrationResults.find((result) => result.error)
+			if (failedMigration) {
+				throw new Error(`Flashcore migration failed for namespace "${failedMigration.namespace}"`, {
+					cause: failedMigration.error
+				})
+			}
+		} else if (!(await waitForMigrations())) {
+			logger.warn('Timed out waiting for the leader shard to run Flashcore migrations. Continuing anyway...')
+		}
+
+		// Shards share Flashcore, so only the leader needs to back it up
+		if (config.flashcore?.backup && Shards.isLeader()) {
+			scheduleBackups(config.flashcore.backup)
+		}
+
 		// Load plugin options
 		const plugins = loadPluginData()
 
@@ -144,8 +171,10 @@ async function start(options?: StartOptions) {
 		// Load the portal (commands, context, events)
 		await Portal.open()
 
-		// Let external watchers know we're ready to go
-		await Nanocore.set('watch', { id, pid, startedAt: Date.now(), status: 'running' })
+		// Let external watchers know we're ready to go (once, rather than once per shard)
+		if (Shards.isLeader()) {
+			await Nanocore.set('watch', { id, pid, startedAt: Date.now(), status: 'running' })
+		}
 
 		// Notify lifecycle event handlers
 		await executeEventHandler(plugins, '_start', client)
@@ -181,6 +210,9 @@ async function start(options?: StartOptions) {
 					discordLogger.event(`Received context menu interaction: ${color.bold(interaction.commandName)}`)
 					discordLogger.trace('Context menu interaction:', interaction.toJSON())
 					await executeContextHandler(interaction, interaction.commandName)
+				} else if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+					discordLogger.trace('Component interaction:', interaction.toJSON())
+					await executeComponentHandler(interaction)
 				}
 			})
 
@@ -246,6 +278,13 @@ async function restart() {
 	}
 }
 
+/**
+ * Swaps the exported client without starting Robo. Used by `robo.js/testing` to inject a fake client.
+ */
+export function registerClient(newClient: Client) {
+	client = newClient
+}
+
 function getCommandKey(interaction: AutocompleteInteraction | ChatInputCommandInteraction) {
 	const commandKeys = [interaction.commandName]
 	if (hasProperties<{ getSubcommandGroup: () => string }>(interaction.options, ['getSubcommandGroup'])) {
@@ -265,7 +304,7 @@ function getCommandKey(interaction: AutocompleteInteraction | ChatInputCommandIn
 	return commandKeys.filter(Boolean).join(' ')
 }
 
-function loadPluginData() {
+export function loadPluginData() {
 	const config = getConfig()
 	const collection = new Map<string, PluginData>()
 	if (!config.plugins) {
@@ -0,0 +1,80 @@
+import type { Serializer } from '../types/index.js'
+
+const TYPE_KEY = '__robo_type'
+
+/**
+ * Built-in serializers for values JSON cannot represent.
+ */
+export const DefaultSerializers: Serializer[] = [
+	{
+		type: 'BigInt',
+		test: (value) => typeof value === 'bigint',
+		serialize: (value: bigint) => value.toString(),
+		deserialize: (data: string) => BigInt(data)
+	},
+	{
+		type: 'Date',
+		test: (value) => value instanceof Date,
+		serialize: (value: Date) => value.toISOString(),
+		deserialize: (data: string) => new Date(data)
+	},
+	{
+		type: 'Map',
+		test: (value) => value instanceof Map,
+		serialize: (value: Map<unknown, unknown>) => [...value.entries()],
+		deserialize: (data: Array<[unknown, unknown]>) => new Map(data)
+	},
+	{
+		type: 'Set',
+		test: (value) => value instanceof Set,
+		serialize: (value: Set<unknown>) => [...value],
+		deserialize: (data: unknown[]) => new Set(data)
+	}
+]
+
+/**
+ * Recursively converts a value into JSON-safe data, tagging anything handled by a serializer.
+ */
+export function serialize(value: unknown, serializers = DefaultSerializers): unknown {
+	const serializer = serializers.find((serializer) => serializer.test(value))
+	if (serializer) {
+		return { [TYPE_KEY]: serializer.type, value: serialize(serializer.serialize(value), serializers) }
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((item) => serialize(item, serializers))
+	} else if (value !== null && typeof value === 'object') {
+		const result: Record<string, unknown> = {}
+		for (const [key, item] of Object.entries(value)) {
+			result[key] = serialize(item, serializers)
+		}
+
+		return result
+	}
+
+	return value
+}
+
+/**
+ * Reverses `serialize`. Tagged values without a matching serializer are left as they are.
+ */
+export function deserialize(value: unknown, serializers = DefaultSerializers): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => deserialize(item, serializers))
+	} else if (value === null || typeof value !== 'object' || value.constructor !== Object) {
+		return value
+	}
+
+	const record = value as Record<string, unknown>
+	const serializer = typeof record[TYPE_KEY] === 'string' && serializers.find((s) => s.type === record[TYPE_KEY])
+	if (serializer) {
+		return serializer.deserialize(deserialize(record.value, serializers))
+	}
+
+	const result: Record<string, unknown> = {}
+	for (const [key, item] of Object.entries(record)) {
+		result[key] = deserialize(item, serializers)
+	}
+
+	return result
+}
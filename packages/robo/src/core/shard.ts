@@ -0,0 +1,132 @@
+import { client } from './robo.js'
+import { getState } from './state.js'
+import { isMainThread, workerData } from 'node:worker_threads'
+import type { GetStateOptions } from './state.js'
+import type { ShardStats } from '../types/index.js'
+import type { Client } from 'discord.js'
+
+// Functions passed to broadcastEval run in other processes without access to this module's scope
+globalThis.roboShard = { getState }
+
+/**
+ * Coordinates work across shards when `experimental.shard` is enabled.
+ * Every method also works without sharding, acting as if there was a single shard.
+ *
+ * ```ts
+ * import { Shards } from 'robo.js'
+ *
+ * // Count guilds across every shard
+ * const counts = await Shards.broadcastEval((client) => client.guilds.cache.size)
+ *
+ * // Only post the daily digest once
+ * if (Shards.isLeader()) {
+ * 	await postDigest()
+ * }
+ * ```
+ *
+ * Functions passed to `broadcastEval` are serialized and run inside each shard's process.
+ * They can't reference variables from the surrounding code, so pass anything they need as `context`.
+ */
+export const Shards = {
+	/**
+	 * Runs a function on every shard and resolves with each shard's result, in shard order.
+	 *
+	 * @param fn - Function to run. Receives the shard's client and the context.
+	 * @param context - Serializable data to pass along to each shard.
+	 */
+	broadcastEval: async <R, C = undefined>(
+		fn: (client: Client<true>, context: C) => R | Promise<R>,
+		context?: C
+	): Promise<Awaited<R>[]> => {
+		if (!client?.shard) {
+			return [await fn(client as Client<true>, context)]
+		}
+
+		return client.shard.broadcastEval(fn as never, { context }) as Promise<Awaited<R>[]>
+	},
+
+	/**
+	 * Number of shards in total, across every process.
+	 */
+	count: (): number => {
+		return client?.shard?.count ?? Number(getShardEnv().SHARD_COUNT ?? 1)
+	},
+
+	/**
+	 * Reads a client property from every shard, such as `guilds.cache.size`.
+	 */
+	fetchClientValues: async (property: string): Promise<unknown[]> => {
+		if (!client?.shard) {
+			return [property.split('.').reduce<unknown>((value, key) => value?.[key as keyof typeof value], client)]
+		}
+
+		return client.shard.fetchClientValues(property)
+	},
+
+	/**
+	 * Reads a state value from every shard, in shard order. Shards without the value resolve with `null`.
+	 */
+	getState: async <T = unknown>(key: string, options?: Omit<GetStateOptions, 'default'>): Promise<(T | null)[]> => {
+		return Shards.broadcastEval(
+			(_client, context) => globalThis.roboShard?.getState<T>(context.key, { namespace: context.namespace }) ?? null,
+			{ key, namespace: options?.namespace }
+		) as Promise<(T | null)[]>
+	},
+
+	/**
+	 * IDs of the shards running in this process.
+	 */
+	ids: (): number[] => {
+		return client?.shard?.ids ?? getEnvShardIds()
+	},
+
+	/**
+	 * Whether this process is the leader, meaning it runs shard 0.
+	 * Use it to run scheduled work once instead of once per shard. Always `true` without sharding.
+	 */
+	isLeader: (): boolean => {
+		return Shards.ids().includes(0)
+	},
+
+	/**
+	 * Whether this process (or worker) was launched by the sharding manager.
+	 */
+	isSharded: (): boolean => {
+		return client?.shard ? true : !!getShardEnv().SHARDING_MANAGER
+	},
+
+	/**
+	 * Collects uptime, latency, guild count and memory usage from every shard.
+	 */
+	stats: async (): Promise<ShardStats[]> => {
+		const stats = await Shards.broadcastEval((client) => ({
+			guilds: client.guilds.cache.size,
+			ids: client.shard?.ids ?? [0],
+			memory: process.memoryUsage().rss,
+			ping: client.ws.ping,
+			uptime: client.uptime ?? 0
+		}))
+
+		return stats.map(({ ids, ...stats }) => ({ ...stats, id: ids[0] ?? 0 }))
+	}
+}
+
+// Used before the client exists, such as while starting up
+function getEnvShardIds(): number[] {
+	const env = getShardEnv()
+	if (!env.SHARDING_MANAGER || env.SHARDS === undefined) {
+		return [0]
+	}
+
+	const shards: unknown = JSON.parse(env.SHARDS)
+	return Array.isArray(shards) ? shards.map(Number) : [Number(shards)]
+}
+
+// Worker shards get their sharding variables as worker data rather than environment variables
+function getShardEnv(): Record<string, string | undefined> {
+	if (isMainThread || !workerData || typeof workerData !== 'object') {
+		return process.env
+	}
+
+	return { ...process.env, ...(workerData as Record<string, string | undefined>) }
+}
@@ -1,6 +1,7 @@
 import { FLASHCORE_KEYS } from './constants.js'
 import { logger } from './logger.js'
 import { Flashcore } from './flashcore.js'
+import { deserialize, serialize } from './serialization.js'
 
 export const state: Record<string, unknown> = {}
 
@@ -127,11 +128,11 @@ export class State {
 	}
 }
 
-const builtInTypes = ['String', 'Number', 'Boolean', 'Array', 'Object']
+const builtInTypes = ['String', 'Number', 'Boolean', 'Array', 'Object', 'Date', 'Map', 'Set']
 
 /**
  * Class instances are not serializable.
- * This function removes them from the state while preserving the rest of the state.
+ * This function removes them from the state while preserving the rest of the state, including Dates, Maps and Sets.
  */
 export function removeInstances(value: unknown, warned = { value: false }): unknown {
 	if (typeof value === 'function') {
@@ -148,6 +149,13 @@ export function removeInstances(value: unknown, warned = { value: false }): unkn
 			return undefined
 		} else if (Array.isArray(value)) {
 			return value.map((item) => removeInstances(item, warned)).filter((item) => item !== undefined)
+		} else if (value instanceof Date) {
+			return value
+		} else if (value instanceof Map) {
+			const entries = [...value].map(([key, item]) => [key, removeInstances(item, warned)])
+			return new Map(entries.filter(([, item]) => item !== undefined) as Array<[unknown, unknown]>)
+		} else if (value instanceof Set) {
+			return new Set([...value].map((item) => removeInstances(item, warned)).filter((item) => item !== undefined))
 		} else {
 			const result: Record<string, unknown> = {}
 
@@ -190,7 +198,7 @@ export function getState<T = string>(key: string, options?: GetStateOptions): T
 export function loadState(savedState: Record<string, unknown>) {
 	logger.debug(`Loading state...`, savedState)
 	Object.keys(savedState).forEach((key) => {
-		state[key] = savedState[key]
+		state[key] = deserialize(savedState[key])
 	})
 }
 
@@ -229,7 +237,7 @@ export function setState<T>(key: string, value: T | ((oldValue: T) => T), option
 	if (persist) {
 		const persistState = async () => {
 			const persistedState = (await Flashcore.get<Record<string, unknown>>(FLASHCORE_KEYS.state)) ?? {}
-			persistedState[key] = newValue
+			persistedState[key] = serialize(newValue)
 			Flashcore.set(FLASHCORE_KEYS.state, persistedState)
 		}
 		persistState()
@@ -0,0 +1,152 @@
+import { Flashcore } from './flashcore.js'
+import { DefaultSerializers, deserialize, serialize } from './serialization.js'
+import { State } from './state.js'
+import type {
+	FlashcoreStore,
+	FlashcoreStoreOptions,
+	Serializer,
+	StateStore,
+	StateStoreOptions,
+	StoreValidator
+} from '../types/index.js'
+
+/**
+ * Defines a typed store backed by a Flashcore namespace, or by a State fork when `storage` is `'state'`.
+ *
+ * ```ts
+ * import { defineStore } from 'robo.js'
+ * import { z } from 'zod'
+ *
+ * const profiles = defineStore({
+ * 	namespace: 'profiles',
+ * 	schema: z.object({ joinedAt: z.date(), xp: z.number() }),
+ * 	defaults: { joinedAt: new Date(0), xp: 0 }
+ * })
+ *
+ * const profile = await profiles.get(userId)
+ * await profiles.update(userId, (old) => ({ ...old, xp: old.xp + 10 }))
+ * ```
+ *
+ * Values are validated on every read and write, and Dates, Maps, Sets and BigInts survive being persisted.
+ *
+ * [**Learn more:** Typed Stores](https://robojs.dev/robojs/flashcore#typed-stores)
+ */
+export function defineStore<T>(options: StateStoreOptions<T> & { defaults: T }): StateStore<T, T>
+export function defineStore<T>(options: StateStoreOptions<T>): StateStore<T>
+export function defineStore<T>(options: FlashcoreStoreOptions<T> & { defaults: T }): FlashcoreStore<T, T>
+export function defineStore<T>(options: FlashcoreStoreOptions<T>): FlashcoreStore<T>
+export function defineStore<T>(
+	options: FlashcoreStoreOptions<T> | StateStoreOptions<T>
+): FlashcoreStore<T> | StateStore<T> {
+	const namespace = Array.isArray(options.namespace) ? options.namespace : [options.namespace]
+	const serializers = [...(options.serializers ?? []), ...DefaultSerializers]
+	const name = namespace.join('/')
+
+	if (options.storage === 'state') {
+		return createStateStore(options, namespace, serializers, name)
+	}
+
+	return createFlashcoreStore(options, namespace, serializers, name)
+}
+
+function createFlashcoreStore<T>(
+	options: FlashcoreStoreOptions<T>,
+	namespace: string[],
+	serializers: Serializer[],
+	name: string
+): FlashcoreStore<T> {
+	const { defaults, schema } = options
+
+	// Reads turn stored data back into validated values, falling back to defaults
+	const read = (key: string, data: unknown): T => {
+		if (data === undefined || data === null) {
+			return defaults === undefined ? undefined : structuredClone(defaults)
+		}
+
+		return validate(schema, deserialize(data, serializers), key, name)
+	}
+
+	return {
+		delete: async (key) => {
+			return Flashcore.delete(key, { namespace })
+		},
+		get: async (key) => {
+			return read(key, await Flashcore.get(key, { namespace }))
+		},
+		has: async (key) => {
+			return Flashcore.has(key, { namespace })
+		},
+		keys: () => Flashcore.keys({ namespace }),
+		list: async () => {
+			const entries = Object.entries(await Flashcore.list<unknown>({ namespace }))
+			return Object.fromEntries(entries.map(([key, data]) => [key, read(key, data)]))
+		},
+		namespace,
+		set: async (key, value) => {
+			const validated = validate(schema, value, key, name)
+			await Flashcore.set(key, serialize(validated, serializers), { namespace })
+
+			return validated
+		},
+		update: async (key, updater) => {
+			let newValue: T
+			await Flashcore.update<unknown>(
+				key,
+				async (oldData) => {
+					newValue = validate(schema, await updater(read(key, oldData)), key, name)
+					return serialize(newValue, serializers)
+				},
+				{ namespace }
+			)
+
+			return newValue
+		}
+	}
+}
+
+function createStateStore<T>(
+	options: StateStoreOptions<T>,
+	namespace: string[],
+	serializers: Serializer[],
+	name: string
+): StateStore<T> {
+	const { defaults, persist, schema } = options
+	const { getState, setState } = State.fork(namespace.join('__'), { persist })
+
+	// Persisted values are stored serialized, so values loaded after a restart need restoring
+	const read = (key: string): T => {
+		const data = getState<unknown>(key)
+		if (data === undefined || data === null) {
+			return defaults === undefined ? undefined : structuredClone(defaults)
+		}
+
+		return validate(schema, deserialize(data, serializers), key, name)
+	}
+
+	return {
+		delete: (key) => {
+			setState(key, undefined)
+		},
+		get: read,
+		namespace,
+		set: (key, value) => {
+			const newValue = typeof value === 'function' ? (value as (oldValue: T) => T)(read(key)) : value
+			const validated = validate(schema, newValue, key, name)
+			setState(key, persist ? serialize(validated, serializers) : validated)
+
+			return validated
+		}
+	}
+}
+
+function validate<T>(validator: StoreValidator<T> | undefined, value: unknown, key: string, store: string): T {
+	if (!validator) {
+		return value as T
+	}
+
+	try {
+		return typeof validator === 'function' ? validator(value) : validator.parse(value)
+	} catch (error) {
+		throw new Error(`Invalid value for key "${key}" in store "${store}"`, { cause: error })
+	}
+}
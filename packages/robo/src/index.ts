@@ -1,14 +1,18 @@
 export { color, composeColors } from './core/color.js'
 export { registerSlashCommands } from './core/commands.js'
 export { getConfig } from './core/config.js'
+export { Cooldowns } from './core/cooldown.js'
 export { Env } from './core/env.js'
 export { getManifest } from './cli/compiler/manifest.js'
 export { Flashcore } from './core/flashcore.js'
 export { createCommandConfig } from './core/handlers.js'
 export { logger, Logger } from './core/logger.js'
 export { Mode } from './core/mode.js'
+export { Permissions } from './core/permissions.js'
 export { getPluginOptions } from './core/portal.js'
 export { client, portal, Robo } from './core/robo.js'
+export { Shards } from './core/shard.js'
 export { getState, setState, State } from './core/state.js'
+export { defineStore } from './core/store.js'
 export type { LogDrain } from './core/logger.js'
 export type * from './types/index.js'
@@ -0,0 +1,43 @@
+import { EventEmitter } from 'node:events'
+import { Collection } from 'discord.js'
+import type { Client } from 'discord.js'
+
+export interface TestClientOptions {
+	/** Overrides for the bot user. */
+	user?: {
+		id?: string
+		username?: string
+	}
+}
+
+/**
+ * Creates an object shaped like a logged-in discord.js `Client` without ever connecting to Discord.
+ * Caches start empty; populate them in tests when handlers look things up.
+ */
+export function createTestClient(options: TestClientOptions = {}): Client {
+	const id = options.user?.id ?? '100000000000000000'
+	const username = options.user?.username ?? 'Test Robo'
+	const emitter = new EventEmitter()
+	const user = { bot: true, id, tag: `${username}#0000`, toString: () => `<@${id}>`, username }
+
+	const client = Object.assign(emitter, {
+		application: { commands: { cache: new Collection() }, id },
+		channels: { cache: new Collection() },
+		destroy: async () => {
+			emitter.removeAllListeners()
+		},
+		guilds: { cache: new Collection() },
+		isReady: () => true,
+		login: async () => 'test-token',
+		options: { intents: [] },
+		readyAt: new Date(),
+		readyTimestamp: Date.now(),
+		token: 'test-token',
+		uptime: 0,
+		user,
+		users: { cache: new Collection([[id, user]]) },
+		ws: { ping: 0 }
+	})
+
+	return client as unknown as Client
+}
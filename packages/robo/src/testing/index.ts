@@ -0,0 +1,183 @@
+import { Compiler } from '../cli/utils/compiler.js'
+import { loadConfig } from '../core/config.js'
+import { FlashcoreMemoryAdapter } from '../core/flashcore-memory.js'
+import { Globals } from '../core/globals.js'
+import {
+	executeAutocompleteHandler,
+	executeCommandHandler,
+	executeComponentHandler,
+	executeContextHandler,
+	executeEventHandler
+} from '../core/handlers.js'
+import { logger } from '../core/logger.js'
+import { runMigrations } from '../core/migrations.js'
+import Portal from '../core/portal.js'
+import { loadPluginData, registerClient } from '../core/robo.js'
+import { clearState } from '../core/state.js'
+import { createTestClient } from './client.js'
+import {
+	createAutocompleteInteraction,
+	createCommandInteraction,
+	createComponentInteraction,
+	createContextInteraction,
+	createModalInteraction,
+	createTestInteraction
+} from './interactions.js'
+import type { TestClientOptions } from './client.js'
+import type {
+	TestAutocompleteOptions,
+	TestCommandOptions,
+	TestComponentOptions,
+	TestContextOptions,
+	TestInteraction,
+	TestModalOptions
+} from './interactions.js'
+import type { LogLevel } from '../core/logger.js'
+import type { Config, FlashcoreAdapter, PluginData } from '../types/index.js'
+import type {
+	AutocompleteInteraction,
+	ChatInputCommandInteraction,
+	Client,
+	ContextMenuCommandInteraction,
+	MessageComponentInteraction,
+	ModalSubmitInteraction
+} from 'discord.js'
+
+export { createTestClient } from './client.js'
+export { DefaultTestUser } from './interactions.js'
+export { FlashcoreMemoryAdapter } from '../core/flashcore-memory.js'
+export type * from './client.js'
+export type * from './interactions.js'
+
+export interface TestRoboOptions {
+	client?: TestClientOptions
+	/** Config overrides merged on top of the project's config file. */
+	config?: Partial<Config>
+	/** Adapter to use instead of a fresh in-memory one. It's left as is when the Robo stops. */
+	flashcore?: FlashcoreAdapter
+	/** Defaults to `warn` to keep test output quiet. */
+	logLevel?: LogLevel
+}
+
+export interface TestRobo {
+	/** Dispatches an autocomplete interaction and resolves with the choices it responded with. */
+	autocomplete: (
+		commandKey: string,
+		options?: TestAutocompleteOptions
+	) => Promise<TestInteraction<AutocompleteInteraction> & { choices: unknown[] }>
+	client: Client
+	/** Dispatches a slash command, such as `ping` or `settings set`. */
+	command: (commandKey: string, options?: TestCommandOptions) => Promise<TestInteraction<ChatInputCommandInteraction>>
+	/** Dispatches a button click, or a select menu choice when `values` are provided. */
+	component: (customId: string, options?: TestComponentOptions) => Promise<TestInteraction<MessageComponentInteraction>>
+	/** Dispatches a message or user context menu action, depending on which target is provided. */
+	context: (name: string, options?: TestContextOptions) => Promise<TestInteraction<ContextMenuCommandInteraction>>
+	/** Dispatches a gateway or lifecycle event to every handler for it and waits until they all finish. */
+	event: (eventName: string, ...args: unknown[]) => Promise<void>
+	/** Dispatches a modal submission. */
+	modal: (customId: string, options?: TestModalOptions) => Promise<TestInteraction<ModalSubmitInteraction>>
+	/**
+	 * Runs `_stop` handlers and clears state and handlers, plus Flashcore data unless an adapter was passed in.
+	 * Calling it again does nothing.
+	 */
+	stop: () => Promise<void>
+}
+
+/**
+ * Boots a Robo from its manifest without connecting to Discord.
+ * Interactions dispatched through it run the same handler pipeline as production, including middleware, Sage and cooldowns.
+ *
+ * ```ts
+ * import { createTestRobo } from 'robo.js/testing'
+ *
+ * const robo = await createTestRobo()
+ * const result = await robo.command('ping')
+ *
+ * expect(result.lastReply?.content).toBe('Pong!')
+ * ```
+ *
+ * Build your Robo before running tests so the manifest and compiled handlers exist.
+ * Only one test Robo can be active at a time, since handlers share global state.
+ */
+export async function createTestRobo(options: TestRoboOptions = {}): Promise<TestRobo> {
+	logger({ level: options.logLevel ?? 'warn' })
+
+	// Start from a clean slate in case a previous test Robo wasn't stopped
+	Globals.init()
+	clearState()
+
+	const config = await loadConfig()
+	Globals.registerConfig({ ...config, ...(options.config ?? {}) })
+	const flashcore = options.flashcore ?? new FlashcoreMemoryAdapter()
+	Globals.registerFlashcore(flashcore)
+	await Compiler.useManifest()
+
+	// Handlers should see data the way they would after \`Robo.start\` migrated it
+	const failedMigration = (await runMigrations()).find((result) => result.error)
+	if (failedMigration) {
+		throw new Error(`Flashcore migration failed for namespace "${failedMigration.namespace}"`, {
+			cause: failedMigration.error
+		})
+	}
+
+	const client = createTestClient(options.client)
+	const plugins: Map<string, PluginData> = loadPluginData()
+	registerClient(client)
+	await Portal.open()
+	await executeEventHandler(plugins, '_start', client)
+	let stopped = false
+
+	return {
+		autocomplete: async (commandKey, options) => {
+			const { interaction, responses } = createAutocompleteInteraction(client, commandKey, options)
+			await executeAutocompleteHandler(interaction as unknown as AutocompleteInteraction, commandKey)
+			const choices = (responses.find((response) => response.type === 'respond')?.options.choices ?? []) as unknown[]
+
+			return Object.assign(createTestInteraction<AutocompleteInteraction>(interaction, responses), { choices })
+		},
+		client,
+		command: async (commandKey, options) => {
+			const { interaction, responses } = createCommandInteraction(client, commandKey, options)
+			await executeCommandHandler(interaction as unknown as ChatInputCommandInteraction, commandKey)
+
+			return createTestInteraction(interaction, responses)
+		},
+		component: async (customId, options) => {
+			const { interaction, responses } = createComponentInteraction(client, customId, options)
+			await executeComponentHandler(interaction as unknown as MessageComponentInteraction)
+
+			return createTestInteraction(interaction, responses)
+		},
+		context: async (name, options) => {
+			const { interaction, responses } = createContextInteraction(client, name, options)
+			await executeContextHandler(interaction as unknown as ContextMenuCommandInteraction, name)
+
+			return createTestInteraction(interaction, responses)
+		},
+		event: async (eventName, ...args) => {
+			await executeEventHandler(plugins, eventName, ...args)
+		},
+		modal: async (customId, options) => {
+			const { interaction, responses } = createModalInteraction(client, customId, options)
+			await executeComponentHandler(interaction as unknown as ModalSubmitInteraction)
+
+			return createTestInteraction(interaction, responses)
+		},
+		stop: async () => {
+			if (stopped) {
+				return
+			}
+
+			stopped = true
+			await executeEventHandler(plugins, '_stop', client)
+			await client.destroy()
+
+			// Adapters passed in belong to the caller, so only the in-memory default is cleared
+			if (!options.flashcore) {
+				await flashcore.clear()
+			}
+			clearState()
+			Globals.init()
+		}
+	}
+}
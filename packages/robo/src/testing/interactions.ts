@@ -0,0 +1,404 @@
+import { ApplicationCommandType, ComponentType, InteractionType, MessageFlags } from 'discord.js'
+import type { Client, Locale } from 'discord.js'
+
+export type TestResponseType =
+	| 'deferReply'
+	| 'deferUpdate'
+	| 'deleteReply'
+	| 'editReply'
+	| 'followUp'
+	| 'reply'
+	| 'respond'
+	| 'showModal'
+	| 'update'
+
+/**
+ * A single call an interaction made back to Discord, in the order it happened.
+ */
+export interface TestResponse {
+	ephemeral: boolean
+	options: Record<string, unknown>
+	type: TestResponseType
+}
+
+export interface TestUser {
+	bot?: boolean
+	globalName?: string
+	id: string
+	username: string
+}
+
+export interface TestInteractionOptions {
+	channelId?: string
+	guildId?: string | null
+	locale?: `${Locale}`
+	user?: Partial<TestUser>
+}
+
+/**
+ * The recorded outcome of a dispatched interaction.
+ */
+export interface TestInteraction<T = unknown> {
+	/** Whether the interaction was deferred, either by the handler or by Sage. */
+	readonly deferred: boolean
+	/** Whether the first reply or deferral was ephemeral. */
+	readonly ephemeral: boolean
+	/** The fake interaction passed to the handler, for custom assertions. */
+	interaction: T
+	/** The most recent reply, edit, follow-up or update, normalized so `content` is always a property. */
+	readonly lastReply: Record<string, unknown> | undefined
+	readonly replied: boolean
+	/** Every call made to Discord, in order. */
+	responses: TestResponse[]
+}
+
+export interface TestCommandOptions extends TestInteractionOptions {
+	/** Option values keyed by name, returned as-is by the matching `interaction.options` getters. */
+	options?: Record<string, unknown>
+}
+
+export interface TestAutocompleteOptions extends TestCommandOptions {
+	/** Name of the option being typed in. Defaults to the first option. */
+	focused?: string
+}
+
+export interface TestContextOptions extends TestInteractionOptions {
+	targetMessage?: unknown
+	targetUser?: unknown
+}
+
+export interface TestComponentOptions extends TestInteractionOptions {
+	message?: unknown
+	/** Selected values. When provided, the interaction acts as a string select menu instead of a button. */
+	values?: string[]
+}
+
+export interface TestModalOptions extends TestInteractionOptions {
+	/** Text input values keyed by custom ID. */
+	fields?: Record<string, string>
+}
+
+export const DefaultTestUser: TestUser = {
+	bot: false,
+	globalName: 'Tester',
+	id: '100000000000000001',
+	username: 'tester'
+}
+
+const DefaultGuildId = '100000000000000002'
+
+const DefaultChannelId = '100000000000000003'
+
+let _nextId = 1_000_000
+
+/**
+ * Creates the state and methods every interaction type shares, following discord.js' acknowledgement rules.
+ */
+function createBaseInteraction(client: Client, type: number, options: TestInteractionOptions = {}) {
+	const responses: TestResponse[] = []
+	const user = { ...DefaultTestUser, ...(options.user ?? {}) }
+	const guildId = options.guildId === undefined ? DefaultGuildId : options.guildId
+	const record = (type: TestResponseType, value: unknown) => {
+		const options = typeof value === 'string' ? { content: value } : ((value ?? {}) as Record<string, unknown>)
+		const response: TestResponse = { ephemeral: isEphemeral(options), options, type }
+		responses.push(response)
+
+		return response
+	}
+	const assertUnacknowledged = () => {
+		if (interaction.deferred || interaction.replied) {
+			throw new Error('Interaction has already been acknowledged.')
+		}
+	}
+	const assertAcknowledged = () => {
+		if (!interaction.deferred && !interaction.replied) {
+			throw new Error('The reply to this interaction has not been sent or deferred.')
+		}
+	}
+	const createMessage = (options: Record<string, unknown>) => ({
+		...options,
+		author: client.user,
+		channelId: interaction.channelId,
+		id: String(_nextId++),
+		interaction: { id: interaction.id, user }
+	})
+
+	const interaction = {
+		applicationId: client.user?.id,
+		channel: null as unknown,
+		channelId: options.channelId ?? DefaultChannelId,
+		client,
+		createdTimestamp: Date.now(),
+		deferred: false,
+		ephemeral: null as boolean | null,
+		guild: null as unknown,
+		guildId,
+		guildLocale: guildId ? options.locale ?? 'en-US' : null,
+		id: String(_nextId++),
+		locale: options.locale ?? 'en-US',
+		member: null as unknown,
+		replied: false,
+		token: 'test-token',
+		type,
+		user,
+		deferReply: async (options?: Record<string, unknown>) => {
+			assertUnacknowledged()
+			const response = record('deferReply', options)
+			interaction.deferred = true
+			interaction.ephemeral = response.ephemeral
+
+			return options?.fetchReply ? createMessage({}) : undefined
+		},
+		deleteReply: async () => {
+			assertAcknowledged()
+			record('deleteReply', {})
+		},
+		editReply: async (options: unknown) => {
+			assertAcknowledged()
+			return createMessage(record('editReply', options).options)
+		},
+		fetchReply: async () => {
+			assertAcknowledged()
+			return createMessage({})
+		},
+		followUp: async (options: unknown) => {
+			assertAcknowledged()
+			return createMessage(record('followUp', options).options)
+		},
+		inCachedGuild: () => false,
+		inGuild: () => !!interaction.guildId,
+		inRawGuild: () => !!interaction.guildId,
+		isAutocomplete: () => false,
+		isButton: () => false,
+		isChatInputCommand: () => false,
+		isCommand: () => false,
+		isContextMenuCommand: () => false,
+		isMessageComponent: () => false,
+		isMessageContextMenuCommand: () => false,
+		isModalSubmit: () => false,
+		isRepliable: () => true,
+		isStringSelectMenu: () => false,
+		isUserContextMenuCommand: () => false,
+		reply: async (options: unknown) => {
+			assertUnacknowledged()
+			const response = record('reply', options)
+			interaction.replied = true
+			interaction.ephemeral = response.ephemeral
+
+			return createMessage(response.options)
+		},
+		toJSON: () => ({ id: interaction.id, type })
+	}
+
+	return { interaction, record, responses }
+}
+
+/**
+ * Wraps a fake interaction's recorded responses for assertions.
+ */
+export function createTestInteraction<T>(
+	interaction: { deferred: boolean; ephemeral: boolean | null; replied: boolean },
+	responses: TestResponse[]
+): TestInteraction<T> {
+	return {
+		get deferred() {
+			return interaction.deferred
+		},
+		get ephemeral() {
+			return !!interaction.ephemeral
+		},
+		interaction: interaction as T,
+		get lastReply() {
+			const types: TestResponseType[] = ['editReply', 'followUp', 'reply', 'update']
+			return responses.filter((response) => types.includes(response.type)).at(-1)?.options
+		},
+		get replied() {
+			return interaction.replied
+		},
+		responses
+	}
+}
+
+export function createCommandInteraction(client: Client, commandKey: string, options: TestCommandOptions = {}) {
+	const [commandName, ...subcommands] = commandKey.split(' ')
+	const base = createBaseInteraction(client, InteractionType.ApplicationCommand, options)
+	const interaction = Object.assign(base.interaction, {
+		commandId: String(_nextId++),
+		commandName,
+		commandType: ApplicationCommandType.ChatInput,
+		isChatInputCommand: () => true,
+		isCommand: () => true,
+		options: createOptionResolver(options.options ?? {}, subcommands)
+	})
+
+	return { interaction, responses: base.responses }
+}
+
+export function createAutocompleteInteraction(
+	client: Client,
+	commandKey: string,
+	options: TestAutocompleteOptions = {}
+) {
+	const [commandName, ...subcommands] = commandKey.split(' ')
+	const values = options.options ?? {}
+	const focused = options.focused ?? Object.keys(values)[0]
+	const base = createBaseInteraction(client, InteractionType.ApplicationCommandAutocomplete, options)
+	const interaction = Object.assign(base.interaction, {
+		commandId: String(_nextId++),
+		commandName,
+		isAutocomplete: () => true,
+		isRepliable: () => false,
+		options: createOptionResolver(values, subcommands, focused),
+		responded: false,
+		respond: async (choices: unknown[]) => {
+			if (interaction.responded) {
+				throw new Error('Interaction has already been acknowledged.')
+			}
+
+			base.record('respond', { choices })
+			interaction.responded = true
+		}
+	})
+
+	return { interaction, responses: base.responses }
+}
+
+export function createContextInteraction(client: Client, commandName: string, options: TestContextOptions = {}) {
+	const isMessage = options.targetMessage !== undefined
+	const base = createBaseInteraction(client, InteractionType.ApplicationCommand, options)
+	const interaction = Object.assign(base.interaction, {
+		commandId: String(_nextId++),
+		commandName,
+		commandType: isMessage ? ApplicationCommandType.Message : ApplicationCommandType.User,
+		isCommand: () => true,
+		isContextMenuCommand: () => true,
+		isMessageContextMenuCommand: () => isMessage,
+		isUserContextMenuCommand: () => !isMessage,
+		targetMessage: options.targetMessage,
+		targetUser: options.targetUser
+	})
+
+	return { interaction, responses: base.responses }
+}
+
+export function createComponentInteraction(client: Client, customId: string, options: TestComponentOptions = {}) {
+	const isSelect = options.values !== undefined
+	const base = createBaseInteraction(client, InteractionType.MessageComponent, options)
+	const interaction = Object.assign(base.interaction, {
+		componentType: isSelect ? ComponentType.StringSelect : ComponentType.Button,
+		customId,
+		deferUpdate: async (updateOptions?: Record<string, unknown>) => {
+			if (interaction.deferred || interaction.replied) {
+				throw new Error('Interaction has already been acknowledged.')
+			}
+
+			base.record('deferUpdate', updateOptions)
+			interaction.deferred = true
+		},
+		isButton: () => !isSelect,
+		isMessageComponent: () => true,
+		isStringSelectMenu: () => isSelect,
+		message: options.message ?? null,
+		showModal: async (modal: unknown) => {
+			if (interaction.deferred || interaction.replied) {
+				throw new Error('Interaction has already been acknowledged.')
+			}
+
+			base.record('showModal', { modal })
+			interaction.replied = true
+		},
+		update: async (updateOptions: unknown) => {
+			if (interaction.deferred || interaction.replied) {
+				throw new Error('Interaction has already been acknowledged.')
+			}
+
+			base.record('update', updateOptions)
+			interaction.replied = true
+		},
+		values: options.values ?? []
+	})
+
+	return { interaction, responses: base.responses }
+}
+
+export function createModalInteraction(client: Client, customId: string, options: TestModalOptions = {}) {
+	const fields = options.fields ?? {}
+	const base = createBaseInteraction(client, InteractionType.ModalSubmit, options)
+	const getField = (customId: string) => {
+		if (fields[customId] === undefined) {
+			throw new Error(`No text input with custom ID "${customId}" was submitted.`)
+		}
+
+		return { customId, type: ComponentType.TextInput, value: fields[customId] }
+	}
+	const interaction = Object.assign(base.interaction, {
+		customId,
+		fields: {
+			getField,
+			getTextInputValue: (customId: string) => getField(customId).value
+		},
+		isFromMessage: () => false,
+		isModalSubmit: () => true
+	})
+
+	return { interaction, responses: base.responses }
+}
+
+/**
+ * Mimics `CommandInteractionOptionResolver`, returning raw values instead of resolving Discord API data.
+ */
+function createOptionResolver(values: Record<string, unknown>, subcommands: string[], focused?: string) {
+	const [group, subcommand] = subcommands.length > 1 ? subcommands : [null, subcommands[0] ?? null]
+	const getValue = (name: string, required = false) => {
+		const value = values[name]
+		if (value === undefined && required) {
+			throw new Error(`Required option "${name}" not found.`)
+		}
+
+		return value ?? null
+	}
+
+	return {
+		data: Object.entries(values).map(([name, value]) => ({ focused: name === focused, name, value })),
+		get: (name: string, required?: boolean) => {
+			const value = getValue(name, required)
+			return value === null ? null : { focused: name === focused, name, value }
+		},
+		getAttachment: getValue,
+		getBoolean: getValue,
+		getChannel: getValue,
+		getFocused: (getFull?: boolean) => {
+			const value = values[focused] ?? ''
+			return getFull ? { focused: true, name: focused, value } : value
+		},
+		getInteger: getValue,
+		getMember: (name: string) => getValue(name),
+		getMentionable: getValue,
+		getNumber: getValue,
+		getRole: getValue,
+		getString: getValue,
+		getSubcommand: (required = true) => {
+			if (!subcommand && required) {
+				throw new Error('A subcommand was not selected.')
+			}
+
+			return subcommand
+		},
+		getSubcommandGroup: (required = false) => {
+			if (!group && required) {
+				throw new Error('A subcommand group was not selected.')
+			}
+
+			return group
+		},
+		getUser: getValue
+	}
+}
+
+function isEphemeral(options: Record<string, unknown>) {
+	if (options.ephemeral === true) {
+		return true
+	}
+
+	return typeof options.flags === 'number' && (options.flags & MessageFlags.Ephemeral) === MessageFlags.Ephemeral
+}
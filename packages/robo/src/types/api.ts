@@ -22,11 +22,29 @@ export interface RoboReply {
 export type RouteHandler = (req: RoboRequest, res: RoboReply) => unknown | Promise<unknown>
 
 export interface Api {
-	default: (request: RoboRequest, reply: RoboReply) => unknown | Promise<unknown>
+	config?: BaseConfig
+	default?: RouteHandler
+	DELETE?: RouteHandler
+	GET?: RouteHandler
+	PATCH?: RouteHandler
+	POST?: RouteHandler
+	PUT?: RouteHandler
 }
 
 export interface ApiEntry extends BaseConfig {
+	/** JSDoc descriptions of the route's handlers, keyed by export name. */
+	docs?: Record<string, string>
+	/** Handlers exported by the route file: `default` and any of `GET`, `POST`, `PUT`, `PATCH` or `DELETE`. */
+	methods?: string[]
+	/** Request schemas from the route's config, as JSON Schema. */
+	schemas?: ApiSchemas
 	subroutes?: Record<string, ApiEntry>
 }
 
+export interface ApiSchemas {
+	body?: Record<string, unknown>
+	params?: Record<string, unknown>
+	query?: Record<string, unknown>
+}
+
 export default {}
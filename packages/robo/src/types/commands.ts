@@ -14,7 +14,7 @@ import type {
 	Role,
 	User
 } from 'discord.js'
-import type { BaseConfig, SageOptions } from './index.js'
+import type { BaseConfig, CooldownConfig, PermissionsConfig, SageOptions } from './index.js'
 import type { EnforceConfig, ExactConfig, ValueOfOption } from './helpers.js'
 
 export interface Command {
@@ -27,6 +27,7 @@ export interface Command {
 
 export interface CommandConfig extends BaseConfig {
 	contexts?: CommandContext[]
+	cooldown?: CooldownConfig | CooldownConfig[]
 	defaultMemberPermissions?: string | number | bigint
 	/** @deprecated Use `contexts` instead */
 	dmPermission?: boolean
@@ -34,10 +35,22 @@ export interface CommandConfig extends BaseConfig {
 	integrationTypes?: CommandIntegrationType[]
 	nameLocalizations?: Record<string, string>
 	options?: readonly CommandOption[]
+	/**
+	 * Describes the parent command or subcommand group, which has no file of its own.
+	 * Only applies to subcommands; siblings may each set different fields.
+	 */
+	parent?: CommandParentConfig
+	permissions?: PermissionsConfig
 	sage?: false | SageOptions
 	timeout?: number
 }
 
+export interface CommandParentConfig {
+	description?: string
+	descriptionLocalizations?: Record<string, string>
+	nameLocalizations?: Record<string, string>
+}
+
 export type SmartCommandConfig<C extends CommandConfig> = ExactConfig<C> & EnforceConfig<C>
 
 export type CommandContext = 'BotDM' | 'Guild' | 'PrivateChannel' | InteractionContextType
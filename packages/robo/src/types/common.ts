@@ -1,5 +1,6 @@
 import type { LogLevel } from '../core/logger.js'
 import type { CommandContext, CommandIntegrationType } from './commands.js'
+import type { PermissionsString } from 'discord.js'
 
 export interface HandlerRecord<T = unknown> {
 	auto?: boolean
@@ -12,16 +13,18 @@ export interface HandlerRecord<T = unknown> {
 		name: string
 		path: string
 	}
-	type: 'api' | 'command' | 'context' | 'event' | 'middleware'
+	type: 'api' | 'command' | 'component' | 'context' | 'event' | 'middleware' | 'modal'
 }
 
 export interface ContextConfig extends BaseConfig {
 	contexts?: CommandContext[]
+	cooldown?: CooldownConfig | CooldownConfig[]
 	defaultMemberPermissions?: string | number | bigint
 	/** @deprecated Use `contexts` instead */
 	dmPermission?: boolean
 	integrationTypes?: CommandIntegrationType[]
 	nameLocalizations?: Record<string, string>
+	permissions?: PermissionsConfig
 	sage?: false | SageOptions
 	timeout?: number
 }
@@ -33,13 +36,56 @@ export interface Context {
 	default: (...data: unknown[]) => unknown | Promise<unknown>
 }
 
+export interface CooldownConfig {
+	/** Number of uses allowed within each window. Defaults to 1. */
+	burst?: number
+	/** Message sent when the cooldown is active. Use `{time}` for a relative timestamp. Keys are Discord locales. */
+	message?: string | Record<string, string>
+	/** Persist cooldowns in Flashcore so they survive restarts. */
+	persist?: boolean
+	/** Who shares the bucket. Defaults to `user`. */
+	scope?: CooldownScope
+	/** Window length in milliseconds. */
+	window: number
+}
+
+export type CooldownScope = 'channel' | 'global' | 'guild' | 'user'
+
 export interface FlashcoreAdapter<K = string, V = unknown> {
 	clear(): Promise<boolean> | Promise<void> | boolean | void
+	/**
+	 * Optional. Counts stored values that `keys` can't list, such as files written by older versions of the file adapter.
+	 * Features that enumerate keys use it to avoid silently skipping data.
+	 */
+	countUnlisted?(): Promise<number> | number
 	delete(key: K): Promise<boolean> | boolean
+	/** Optional. Deletes every key starting with the namespace prefix (e.g. `polls__`). */
+	deleteNamespace?(namespace: string): Promise<boolean> | boolean
+	/** Optional. Lists key-value pairs whose keys start with the namespace prefix, or all pairs if omitted. */
+	entries?(namespace?: string): Promise<Array<[K, V]>> | Array<[K, V]>
 	get(key: K): Promise<V | undefined> | V | undefined
+	/** Optional. When a key expires as a timestamp in milliseconds, or `undefined` if it never does. Exports use it to keep TTLs. */
+	getExpiresAt?(key: K): Promise<number | undefined> | number | undefined
 	init(): Promise<void> | void
-	set(key: K, value: V): Promise<boolean> | boolean
+	/** Optional. Lists keys starting with the prefix, or all keys if omitted. */
+	keys?(prefix?: string): Promise<K[]> | K[]
+	/** Sets a value, expiring it after `ttl` milliseconds when provided. */
+	set(key: K, value: V, ttl?: number): Promise<boolean> | boolean
 	has(key: K): Promise<boolean> | boolean
+	/**
+	 * Optional native read-modify-write. Implement this when the underlying store can update atomically
+	 * (e.g. across processes), and Flashcore will use it instead of its in-process locking.
+	 */
+	update?(key: K, updater: (oldValue: V | undefined) => V | Promise<V>): Promise<V>
+}
+
+export interface FlashcoreBackupOptions {
+	/** Directory backups are written to. Defaults to `.robo/backups`. */
+	directory?: string
+	/** Milliseconds between scheduled backups. */
+	interval?: number
+	/** How many backups to keep before the oldest are deleted. Defaults to 7. */
+	keep?: number
 }
 
 export interface MiddlewareData {
@@ -51,12 +97,71 @@ export interface MiddlewareResult {
 	abort?: boolean
 }
 
+export interface MiddlewareAfterData extends MiddlewareData {
+	/** Milliseconds the handler took to settle. */
+	duration: number
+	error?: unknown
+	result?: unknown
+}
+
+/**
+ * Returned from an `after` hook to replace the handler's outcome.
+ * Set `error` to transform a thrown error, or set `result` (and `error: undefined`) to recover from it.
+ */
+export interface MiddlewareAfterResult {
+	error?: unknown
+	result?: unknown
+}
+
 export interface Middleware {
-	default: (data: MiddlewareData) => void | MiddlewareResult | Promise<MiddlewareResult>
+	after?: (data: MiddlewareAfterData) => void | MiddlewareAfterResult | Promise<void | MiddlewareAfterResult>
+	config?: MiddlewareConfig
+	default?: (data: MiddlewareData) => void | MiddlewareResult | Promise<void | MiddlewareResult>
+}
+
+export interface MiddlewareConfig extends BaseConfig {
+	/** Higher priorities run first. Middleware with the same priority runs in file order. Defaults to 0. */
+	priority?: number
+	/**
+	 * Limits which handlers this middleware runs for.
+	 * Defaults to every Discord handler. API routes are only included when listed explicitly.
+	 */
+	scope?: MiddlewareScopeType | MiddlewareScopeType[] | MiddlewareScope
 }
 
 export type MiddlewareEntry = BaseConfig
 
+export interface MiddlewareScope {
+	/** Handler keys, such as `ban` or `admin/ban`. Parent keys also match their subcommands. */
+	keys?: string[]
+	/** Module names. Parent modules also match their nested modules. */
+	modules?: string[]
+	types?: MiddlewareScopeType[]
+}
+
+export type MiddlewareScopeType = 'api' | 'commands' | 'components' | 'context' | 'events' | 'modals'
+
+export interface PermissionDenial {
+	/** Bot permissions missing in the channel, when `reason` is `botPermissions`. */
+	missing?: PermissionsString[]
+	reason: 'botPermissions' | 'nsfw' | 'owner' | 'roles'
+}
+
+export interface PermissionsConfig {
+	/** Permissions the bot needs in the channel for the handler to work. */
+	botPermissions?: PermissionsString[]
+	/** Message sent when the policy denies a user. Use `{permissions}` for missing bot permissions. Keys are Discord locales. */
+	message?: string | Record<string, string>
+	/** Only allow use in age-restricted channels. DMs are always allowed. */
+	nsfw?: boolean
+	/** Only allow the bot's owners, from the `owners` config or the Discord application. */
+	ownerOnly?: boolean
+	/** Role IDs allowed to use the handler. Users with any of them, or listed in `users`, are allowed. */
+	roles?: string[]
+	/** User IDs allowed to use the handler, in addition to anyone with one of the `roles`. */
+	users?: string[]
+}
+
 export interface PackageJson {
 	name: string
 	version: string
@@ -84,6 +189,17 @@ export interface RoboStateMessage extends RoboMessage {
 	state: Record<string, unknown>
 }
 
+export interface ShardStats {
+	guilds: number
+	id: number
+	/** Resident set size of the shard's process, in bytes. */
+	memory: number
+	/** WebSocket heartbeat latency in milliseconds. */
+	ping: number
+	/** Milliseconds since the shard's client became ready. */
+	uptime: number
+}
+
 export interface SpiritMessage {
 	error?: unknown
 	event?: 'build' | 'get-state' | 'command' | 'ready' | 'restart' | 'set-state' | 'start' | 'stop'
@@ -94,12 +210,14 @@ export interface SpiritMessage {
 }
 
 export type SageOptions = {
+	cooldownMessage?: string | Record<string, string>
 	defer?: boolean
 	deferBuffer?: number
 	ephemeral?: boolean
 	errorChannelId?: string
-	errorMessage?: string
+	errorMessage?: string | Record<string, string>
 	errorReplies?: boolean
+	permissionMessage?: string | Record<string, string>
 }
 
 export type Plugin = string | [string, unknown, PluginMetaOptions?]
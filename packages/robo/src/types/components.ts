@@ -0,0 +1,31 @@
+import type { MessageComponentInteraction, ModalSubmitInteraction } from 'discord.js'
+import type { BaseConfig, SageOptions } from './index.js'
+
+/**
+ * Route params extracted from a custom ID.
+ * For example, `roadmap/sync/[guildId]/cancel` matched against `roadmap/sync/123/cancel` yields `{ guildId: '123' }`.
+ */
+export type ComponentParams = Record<string, string>
+
+export interface Component {
+	config?: ComponentConfig
+	default: (interaction: MessageComponentInteraction, params: ComponentParams) => unknown | Promise<unknown>
+}
+
+export interface ComponentConfig extends BaseConfig {
+	sage?: false | SageOptions
+	timeout?: number
+}
+
+export type ComponentEntry = ComponentConfig
+
+export interface Modal {
+	config?: ModalConfig
+	default: (interaction: ModalSubmitInteraction, params: ComponentParams) => unknown | Promise<unknown>
+}
+
+export type ModalConfig = ComponentConfig
+
+export type ModalEntry = ModalConfig
+
+export default {}
@@ -1,6 +1,13 @@
 import type { LogDrain, LogLevel } from '../core/logger.js'
 import type { ClientOptions, PermissionsString, ShardingManagerOptions } from 'discord.js'
-import type { CommandContext, CommandIntegrationType, Plugin, SageOptions } from './index.js'
+import type {
+	CommandContext,
+	CommandIntegrationType,
+	FlashcoreAdapter,
+	FlashcoreBackupOptions,
+	Plugin,
+	SageOptions
+} from './index.js'
 
 export interface SeedHookGenerators {
 	randomBase64: (bytes?: number) => string
@@ -66,6 +73,10 @@ export interface Config {
 	 */
 	autoRegisterCommands?: boolean
 	flashcore?: {
+		/** Custom adapter to use instead of the built-in file adapter. */
+		adapter?: FlashcoreAdapter
+		/** Writes rolling NDJSON backups while the Robo is running. */
+		backup?: FlashcoreBackupOptions
 		keyv?: unknown
 		/**
 		 * Separator placed between namespace and key when composing Flashcore keys.
@@ -83,6 +94,8 @@ export interface Config {
 		enabled?: boolean
 		level?: LogLevel
 	}
+	/** User IDs treated as bot owners for `ownerOnly` permissions. Defaults to the Discord application's owners. */
+	owners?: string[]
 	plugins?: Plugin[]
 	roboplay?: {
 		node?: '18' | '20' | 'latest'
@@ -1,9 +1,12 @@
 export type * from './api.js'
 export type * from './commands.js'
+export type * from './components.js'
 export type * from './common.js'
 export type * from './config.js'
 export type * from './events.js'
 export type * from './manifest.js'
+export type * from './migrations.js'
+export type * from './store.js'
 
 import type { CommandEntry } from './commands.js'
 import type { ContextEntry } from './common.js'
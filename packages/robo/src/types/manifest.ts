@@ -1,7 +1,9 @@
 import type { PermissionsString } from 'discord.js'
 import type { CommandEntry } from './commands.js'
+import type { ComponentEntry, ModalEntry } from './components.js'
 import type { Config, Scope, SeedEnvVariableConfig } from './config.js'
 import type { EventConfig } from './events.js'
+import type { MigrationEntry } from './migrations.js'
 import type { ApiEntry, ContextEntry, MiddlewareEntry } from './index.js'
 
 export type ManifestSeedEnvVariables = Record<string, SeedEnvVariableConfig | string>
@@ -31,6 +33,7 @@ export interface Manifest {
 	}
 	api: Record<string, ApiEntry>
 	commands: Record<string, CommandEntry>
+	components?: Record<string, ComponentEntry>
 	context: {
 		message: Record<string, ContextEntry>
 		user: Record<string, ContextEntry>
@@ -38,6 +41,8 @@ export interface Manifest {
 	events: Record<string, EventConfig[]>
 	permissions?: PermissionsString[] | number
 	middleware?: MiddlewareEntry[]
+	migrations?: Record<string, MigrationEntry[]>
+	modals?: Record<string, ModalEntry>
 	scopes?: Scope[]
 }
 
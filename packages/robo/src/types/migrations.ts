@@ -0,0 +1,45 @@
+import type { Logger } from '../core/logger.js'
+import type { BaseConfig } from './index.js'
+
+export interface Migration {
+	config?: MigrationConfig
+	default: (context: MigrationContext) => unknown | Promise<unknown>
+}
+
+export type MigrationConfig = BaseConfig
+
+export interface MigrationEntry extends MigrationConfig {
+	namespace: string[]
+	version: number
+}
+
+/**
+ * Scoped access to a Flashcore namespace while a migration runs.
+ * In dry runs, writes are recorded instead of applied, but reads still see them.
+ */
+export interface MigrationContext {
+	dryRun: boolean
+	delete: (key: string) => Promise<void>
+	get: <V>(key: string) => Promise<V | undefined>
+	keys: () => Promise<string[]>
+	list: <V>() => Promise<Record<string, V>>
+	logger: Logger
+	namespace: string[]
+	set: <V>(key: string, value: V) => Promise<void>
+}
+
+export interface MigrationChange {
+	key: string
+	type: 'delete' | 'set'
+	value?: unknown
+}
+
+export interface MigrationResult {
+	changes: MigrationChange[]
+	error?: unknown
+	fromVersion: number
+	namespace: string
+	toVersion: number
+}
+
+export default {}
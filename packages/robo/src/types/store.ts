@@ -0,0 +1,60 @@
+/**
+ * Any object with a zod-compatible `parse` method, such as a zod, valibot (via adapter), or hand-written schema.
+ * `parse` must return the validated value or throw.
+ */
+export interface StoreSchema<T> {
+	parse(data: unknown): T
+}
+
+export type StoreValidator<T> = StoreSchema<T> | ((value: unknown) => T)
+
+/**
+ * Converts values that JSON cannot represent into plain data and back.
+ * Serialized values are tagged with the serializer's `type` so they can be restored on read.
+ */
+export interface Serializer<V = unknown, S = unknown> {
+	deserialize(data: S): V
+	serialize(value: V): S
+	test(value: unknown): boolean
+	type: string
+}
+
+interface BaseStoreOptions<T> {
+	/** Returned instead of `undefined` when a key has no value. */
+	defaults?: T
+	namespace: string | string[]
+	/** Validates values on every read and write. */
+	schema?: StoreValidator<T>
+	/** Extra serializers, checked before the built-in ones for Dates, Maps, Sets and BigInts. */
+	serializers?: Serializer[]
+}
+
+export interface FlashcoreStoreOptions<T> extends BaseStoreOptions<T> {
+	storage?: 'flashcore'
+}
+
+export interface StateStoreOptions<T> extends BaseStoreOptions<T> {
+	/** Persists values across restarts. */
+	persist?: boolean
+	storage: 'state'
+}
+
+export type StoreUpdater<T, R> = (oldValue: R) => T | Promise<T>
+
+export interface FlashcoreStore<T, R = T | undefined> {
+	delete: (key: string) => Promise<boolean>
+	get: (key: string) => Promise<R>
+	has: (key: string) => Promise<boolean>
+	keys: () => Promise<string[]>
+	list: () => Promise<Record<string, T>>
+	namespace: string[]
+	set: (key: string, value: T) => Promise<T>
+	update: (key: string, updater: StoreUpdater<T, R>) => Promise<T>
+}
+
+export interface StateStore<T, R = T | undefined> {
+	delete: (key: string) => void
+	get: (key: string) => R
+	namespace: string[]
+	set: (key: string, value: T | ((oldValue: R) => T)) => T
+}
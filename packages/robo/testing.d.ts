@@ -0,0 +1 @@
+export * from './dist/testing/index.js'
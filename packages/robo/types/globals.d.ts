@@ -11,12 +11,19 @@ declare global {
 		portal: {
 			apis: Collection<string, HandlerRecord<Api>>
 			commands: Collection<string, HandlerRecord<Command>>
+			components: Collection<string, HandlerRecord<Component>>
 			context: Collection<string, HandlerRecord<Context>>
 			events: Collection<string, HandlerRecord<Event>[]>
 			middleware: HandlerRecord<Middleware>[]
+			modals: Collection<string, HandlerRecord<Modal>>
 			moduleKeys: Set<string>
 		}
 	}
+	var roboShard:
+		| {
+				getState: <T = string>(key: string, options?: { namespace?: string }) => T | null
+		  }
+		| undefined
 }
 
 export {}
@@ -1,3 +1,4 @@
 export { getModeColor } from './dist/core/mode.js'
 export { Nanocore } from './dist/internal/nanocore.js'
 export { Compiler } from './dist/cli/utils/compiler.js'
+export { executeMiddleware, executeWithAfterHooks } from './dist/core/middleware.js'